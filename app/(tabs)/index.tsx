@@ -15,7 +15,10 @@ import { useAuth } from '../../src/context/AuthContext';
 import { useSimpleToast } from '../../src/context/SimpleToastContext';
 import { useTheme } from '../../src/context/ThemeContext';
 import { useUnreadCounts } from '../../src/context/UnreadCountContext';
-import { leaguesAPI, authAPI, getBaseUrl, getFrontendUrl, chatAPI, seasonsAPI } from '../../src/services/apiService';
+import { getBaseUrl, getFrontendUrl, chatAPI, seasonsAPI } from '../../src/services/apiService';
+import { typedAuthAPI, typedLeaguesAPI } from '../../src/services/apiClient';
+import { queryCache, queryKeys, staleTimes } from '../../src/services/queryCache';
+import { pickReminderScheduler } from '../../src/services/pickReminderScheduler';
 import { UserStats, GlobalStats, League } from '../../src/types';
 import { router, useFocusEffect } from 'expo-router';
 import { lightColors, darkColors } from '../../src/constants/Colors';
@@ -611,52 +614,73 @@ const HomeScreen = () => {
     }, [authLoading, user])
   );
 
-  const loadLeagues = async (retryCount = 0) => {
+  const loadLeagues = async (retryCount = 0, force = false) => {
     try {
-      setLoading(true);
+      // Cached data renders immediately, so only show the spinner on a cold start
+      if (leagues.length === 0) {
+        setLoading(true);
+      }
       setError(null);
       const userSeason = userStatsSeason === 'all' ? undefined : userStatsSeason;
       const globalSeason = globalStatsSeason === 'all' ? undefined : globalStatsSeason;
-      const [leaguesResponse, statsResponse, globalStatsResponse] = await Promise.all([
-        leaguesAPI.getLeagues(),
-        authAPI.getUserStats(userSeason),
-        authAPI.getGlobalStats(globalSeason)
+      const [leaguesQuery, statsQuery, globalStatsQuery] = await Promise.all([
+        queryCache.query(queryKeys.leagues(), typedLeaguesAPI.getLeagues, {
+          staleTime: staleTimes.leagues,
+          force,
+          onUpdate: setLeagues,
+        }),
+        queryCache.query(queryKeys.userStats(userSeason), () => typedAuthAPI.getUserStats(userSeason), {
+          staleTime: staleTimes.stats,
+          force,
+          onUpdate: setUserStats,
+        }),
+        queryCache.query(queryKeys.globalStats(globalSeason), () => typedAuthAPI.getGlobalStats(globalSeason), {
+          staleTime: staleTimes.stats,
+          force,
+          onUpdate: setGlobalStats,
+        })
       ]);
 
-      if (leaguesResponse.data.success) {
-        setLeagues(leaguesResponse.data.data);
+      if (leaguesQuery.result.ok) {
+        setLeagues(leaguesQuery.result.data);
+        // Keep local pick-lock reminders in step with the latest pick status
+        pickReminderScheduler.refresh();
       }
 
-      if (statsResponse.data.success) {
-        setUserStats(statsResponse.data.data);
+      if (statsQuery.result.ok) {
+        setUserStats(statsQuery.result.data);
       }
 
-      if (globalStatsResponse.data.success) {
-        setGlobalStats(globalStatsResponse.data.data);
+      if (globalStatsQuery.result.ok) {
+        setGlobalStats(globalStatsQuery.result.data);
       }
 
-      // Refresh unread counts using the context
-      await refreshUnreadCounts();
-    } catch (error: any) {
-      console.error('Error loading data:', error);
+      const failed = [leaguesQuery.result, statsQuery.result, globalStatsQuery.result].find(result => !result.ok);
+      if (failed && !failed.ok) {
+        console.error('Error loading data:', failed.error);
 
-      // Handle 429 rate limiting error with retry
-      if (error.response?.status === 429 && retryCount < 3) {
-        const delay = Math.pow(2, retryCount) * 1000; // Exponential backoff
-        setTimeout(() => {
-          loadLeagues(retryCount + 1);
-        }, delay);
+        // Handle 429 rate limiting error with retry
+        if (failed.error.status === 429 && retryCount < 3) {
+          const delay = Math.pow(2, retryCount) * 1000; // Exponential backoff
+          setTimeout(() => {
+            loadLeagues(retryCount + 1, force);
+          }, delay);
+          return;
+        } else if (failed.error.status === 429) {
+          setError('Too many requests. Please wait a moment and try again.');
+          showToast('Rate limited. Please wait a moment and try again.', 'error');
+        } else if (failed.error.kind === 'network') {
+          setError('Unable to connect to server. Please check your internet connection.');
+          showToast('Connection error. Please check your internet connection.', 'error');
+        } else {
+          setError('Failed to load data. Please try again.');
+          showToast('Failed to load data. Please try again.', 'error');
+        }
         return;
-      } else if (error.response?.status === 429) {
-        setError('Too many requests. Please wait a moment and try again.');
-        showToast('Rate limited. Please wait a moment and try again.', 'error');
-      } else if (error.code === 'NETWORK_ERROR' || error.message?.includes('Network Error')) {
-        setError('Unable to connect to server. Please check your internet connection.');
-        showToast('Connection error. Please check your internet connection.', 'error');
-      } else {
-        setError('Failed to load data. Please try again.');
-        showToast('Failed to load data. Please try again.', 'error');
       }
+
+      // Refresh unread counts using the context
+      await refreshUnreadCounts();
     } finally {
       setLoading(false);
     }
@@ -668,7 +692,7 @@ const HomeScreen = () => {
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadLeagues();
+    await loadLeagues(0, true);
     setRefreshing(false);
     showToast('Data refreshed successfully!', 'success');
   };
@@ -14,6 +14,8 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { leaguesAPI, chatAPI, seasonsAPI } from '../../src/services/apiService';
+import { typedLeaguesAPI } from '../../src/services/apiClient';
+import { queryCache, queryKeys, staleTimes } from '../../src/services/queryCache';
 import { League } from '../../src/types';
 import { useAuth } from '../../src/context/AuthContext';
 import { useSimpleToast } from '../../src/context/SimpleToastContext';
@@ -22,6 +24,10 @@ import { useChatFeature } from '../../src/context/FeatureFlagContext';
 import { router, useFocusEffect } from 'expo-router';
 import { lightColors, darkColors } from '../../src/constants/Colors';
 import { createThemeStyles } from '../../src/styles/universalStyles';
+import { PublicLeagueCard } from '../../components/PublicLeagueCard';
+
+// Public leagues shown on the tab; the rest are on the discovery screen
+const PUBLIC_LEAGUES_PREVIEW_COUNT = 3;
 
 const LeaguesScreen = () => {
     const { user, isLoading: authLoading } = useAuth();
@@ -263,6 +269,21 @@ const LeaguesScreen = () => {
             fontSize: 14,
             fontWeight: '500',
         },
+        discoverButton: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: 6,
+            paddingVertical: 12,
+            borderRadius: 8,
+            borderWidth: 1,
+            borderColor: currentColors.primary,
+        },
+        discoverButtonText: {
+            fontSize: 14,
+            fontWeight: '600',
+            color: currentColors.primary,
+        },
         emptyState: {
             alignItems: 'center',
             paddingVertical: 32,
@@ -553,33 +574,44 @@ const LeaguesScreen = () => {
         }, [authLoading, user])
     );
 
-    const loadLeagues = async () => {
+    const loadLeagues = async (force = false) => {
         try {
-            setLoading(true);
+            // Cached leagues render immediately, so only show the spinner on a cold start
+            if (myLeagues.length === 0 && publicLeagues.length === 0) {
+                setLoading(true);
+            }
             setError(null);
 
             if (user) {
                 // Authenticated user - load both their leagues and public leagues
-                const promises = [
-                    leaguesAPI.getLeagues(),
-                    leaguesAPI.getPublicLeagues()
-                ];
+                const [myLeaguesQuery, publicLeaguesQuery, unreadCountsResponse] = await Promise.all([
+                    queryCache.query(queryKeys.leagues(), typedLeaguesAPI.getLeagues, {
+                        staleTime: staleTimes.leagues,
+                        force,
+                        onUpdate: setMyLeagues,
+                    }),
+                    queryCache.query(queryKeys.publicLeagues(), typedLeaguesAPI.getPublicLeagues, {
+                        staleTime: staleTimes.leagues,
+                        force,
+                        onUpdate: setPublicLeagues,
+                    }),
+                    // Only load chat data if chat feature is enabled
+                    isChatFeatureEnabled ? chatAPI.getAllUnreadCounts() : Promise.resolve(null)
+                ]);
 
-                // Only load chat data if chat feature is enabled
-                if (isChatFeatureEnabled) {
-                    promises.push(chatAPI.getAllUnreadCounts());
+                if (myLeaguesQuery.result.ok) {
+                    setMyLeagues(myLeaguesQuery.result.data);
                 }
 
-                const responses = await Promise.all(promises);
-                const [myLeaguesResponse, publicLeaguesResponse, unreadCountsResponse] = responses;
-
-                if (myLeaguesResponse.data.success) {
-                    setMyLeagues(myLeaguesResponse.data.data);
+                if (publicLeaguesQuery.result.ok) {
+                    // Backend now returns only public leagues user is not a member of
+                    setPublicLeagues(publicLeaguesQuery.result.data);
                 }
 
-                if (publicLeaguesResponse.data.success) {
-                    // Backend now returns only public leagues user is not a member of
-                    setPublicLeagues(publicLeaguesResponse.data.data);
+                if (!myLeaguesQuery.result.ok) {
+                    setError(myLeaguesQuery.result.error.kind === 'network'
+                        ? 'Unable to connect to server. Please check your internet connection.'
+                        : 'Failed to load leagues. Please try again.');
                 }
 
                 // Only process chat data if chat feature is enabled and response exists
@@ -616,7 +648,7 @@ const LeaguesScreen = () => {
 
     const onRefresh = async () => {
         setRefreshing(true);
-        await loadLeagues();
+        await loadLeagues(true);
         setRefreshing(false);
     };
 
@@ -650,6 +682,7 @@ const LeaguesScreen = () => {
         try {
             const response = await leaguesAPI.createLeague(newLeagueName.trim(), selectedPositions, isPublic);
             if (response.data.success) {
+                queryCache.invalidate(queryKeys.allLeagues());
                 showToast('League created successfully!', 'success', 2000);
                 setModalVisible(false);
                 setNewLeagueName('');
@@ -662,6 +695,10 @@ const LeaguesScreen = () => {
         }
     };
 
+    const updateJoinRequestStatus = (leagueId: number, joinRequestStatus?: League['joinRequestStatus']) => {
+        setPublicLeagues(prev => prev.map(l => (l.id === leagueId ? { ...l, joinRequestStatus } : l)));
+    };
+
     const navigateToLeagueDetail = (league: League) => {
         // Navigate to league detail screen
         router.push(`/league/${league.id}` as any);
@@ -687,109 +724,13 @@ const LeaguesScreen = () => {
 
     const renderLeagueCard = (league: League, isPublicLeague: boolean = false) => {
         if (isPublicLeague) {
-            // Public League Card - Non-clickable, limited info, join button
             return (
-                <View key={league.id} style={styles.leagueCard}>
-                    <View style={styles.leagueCardHeader}>
-                        <View style={styles.leagueNameContainer}>
-                            <Text style={styles.leagueName} numberOfLines={1}>
-                                {league.name}
-                            </Text>
-                            {isChatFeatureEnabled && unreadCounts[league.id] > 0 && (
-                                <View style={styles.chatIconContainer}>
-                                    <Ionicons name="chatbubbles-outline" size={20} color={currentColors.textSecondary} />
-                                    <View style={styles.unreadBadge}>
-                                        <Text style={styles.unreadBadgeText}>{unreadCounts[league.id]}</Text>
-                                    </View>
-                                </View>
-                            )}
-                        </View>
-                        <View style={styles.headerActions}>
-                            <View style={[styles.visibilityBadge, { backgroundColor: currentColors.backgroundTertiary }]}>
-                                <Text style={[styles.visibilityText, { color: currentColors.textPrimary }]}>{league.seasonYear}</Text>
-                            </View>
-                            <View style={[styles.visibilityBadge, { backgroundColor: currentColors.success }]}>
-                                <Text style={styles.visibilityText}>Public</Text>
-                            </View>
-                        </View>
-                    </View>
-
-                    {/* Limited League Info for Public Leagues */}
-                    <View style={styles.leagueStats}>
-                        <View style={styles.statRow}>
-                            <Text style={styles.statLabel}>Members:</Text>
-                            <Text style={styles.statValue}>{league.memberCount || 1}</Text>
-                        </View>
-
-                        {/* Required Positions */}
-                        {league.requiredPositions && league.requiredPositions.length > 0 && (
-                            <View style={{ marginTop: 6 }}>
-                                {/* Sprint Positions (only show if this is a sprint weekend) */}
-                                {league.positionStatus?.hasSprint && (
-                                    <View style={styles.positionsContainer}>
-                                        <Text style={styles.eventTypeLabel}>Sprint</Text>
-                                        <View style={styles.positionsRow}>
-                                            {league.requiredPositions.sort((a, b) => a - b).map((position) => (
-                                                <View key={`sprint-${position}`} style={styles.positionBadge}>
-                                                    <Text style={styles.positionText}>P{position}</Text>
-                                                </View>
-                                            ))}
-                                        </View>
-                                    </View>
-                                )}
-
-                                {/* Race Positions */}
-                                <View style={styles.positionsContainer}>
-                                    <Text style={styles.eventTypeLabel}>Race</Text>
-                                    <View style={styles.positionsRow}>
-                                        {league.requiredPositions.sort((a, b) => a - b).map((position) => (
-                                            <View key={`race-${position}`} style={styles.positionBadge}>
-                                                <Text style={styles.positionText}>P{position}</Text>
-                                            </View>
-                                        ))}
-                                    </View>
-                                </View>
-                            </View>
-                        )}
-
-                        {/* Activity Level Indicator (vague) */}
-                        <View style={styles.statRow}>
-                            <Text style={styles.statLabel}>Activity Level:</Text>
-                            <Text style={[
-                                styles.statValue,
-                                {
-                                    color: (league.lastTwoRaceWeeksActivity || 0) > 15 ? currentColors.success :
-                                        (league.lastTwoRaceWeeksActivity || 0) > 8 ? currentColors.warning : currentColors.textSecondary
-                                }
-                            ]}>
-                                {(league.lastTwoRaceWeeksActivity || 0) > 15 ? 'Very Active' :
-                                    (league.lastTwoRaceWeeksActivity || 0) > 8 ? 'Active' : 'Quiet'}
-                            </Text>
-                        </View>
-                    </View>
-
-                    {/* Join Button or Season ended */}
-                    {league.seasonEnded ? (
-                        <View style={[styles.joinButton, { backgroundColor: currentColors.backgroundTertiary, opacity: 0.8 }]}>
-                            <Text style={[styles.joinButtonText, { color: currentColors.textSecondary }]}>Season ended</Text>
-                        </View>
-                    ) : (
-                        <TouchableOpacity
-                            style={styles.joinButton}
-                            onPress={() => {
-                                if (user) {
-                                    router.push(`/joinleague/${league.joinCode}` as any);
-                                } else {
-                                    router.push(`/league/${league.id}` as any);
-                                }
-                            }}
-                        >
-                            <Text style={styles.joinButtonText}>
-                                {user ? 'Join League' : 'Preview League'}
-                            </Text>
-                        </TouchableOpacity>
-                    )}
-                </View>
+                <PublicLeagueCard
+                    key={league.id}
+                    league={league}
+                    onJoinRequestChange={updateJoinRequestStatus}
+                    onJoined={() => loadLeagues(true)}
+                />
             );
         } else {
             // My League Card - Clickable, minimal info
@@ -896,6 +837,29 @@ const LeaguesScreen = () => {
         }
     };
 
+    // Leagues with a join request always stay on the tab so their status can be seen
+    const getPublicLeaguesPreview = (leagues: League[]): League[] => {
+        const requested = leagues.filter(league => league.joinRequestStatus);
+        const others = leagues.filter(league => !league.joinRequestStatus);
+        return [...requested, ...others.slice(0, Math.max(PUBLIC_LEAGUES_PREVIEW_COUNT - requested.length, 0))];
+    };
+
+    const renderDiscoverButton = (leagues: League[]) => (
+        <TouchableOpacity
+            style={styles.discoverButton}
+            onPress={() => router.push(
+                (seasonFilter != null ? `/discover-leagues?seasonYear=${seasonFilter}` : '/discover-leagues') as any
+            )}
+        >
+            <Ionicons name="search" size={16} color={currentColors.primary} />
+            <Text style={styles.discoverButtonText}>
+                {leagues.length > getPublicLeaguesPreview(leagues).length
+                    ? `Browse all ${leagues.length} public leagues`
+                    : 'Search public leagues'}
+            </Text>
+        </TouchableOpacity>
+    );
+
     if (authLoading) {
         return (
             <SafeAreaView style={universalStyles.container}>
@@ -987,7 +951,8 @@ const LeaguesScreen = () => {
                             </View>
                         ) : (
                             <View style={styles.leaguesGrid}>
-                                {filteredPublic.map(league => renderLeagueCard(league, true))}
+                                {getPublicLeaguesPreview(filteredPublic).map(league => renderLeagueCard(league, true))}
+                                {renderDiscoverButton(filteredPublic)}
                             </View>
                         );
                         })()}
@@ -1089,7 +1054,8 @@ const LeaguesScreen = () => {
                         </View>
                     ) : (
                         <View style={styles.leaguesGrid}>
-                            {filteredPublic.map(league => renderLeagueCard(league, true))}
+                            {getPublicLeaguesPreview(filteredPublic).map(league => renderLeagueCard(league, true))}
+                            {renderDiscoverButton(filteredPublic)}
                         </View>
                     );
                     })()}
@@ -1098,7 +1064,7 @@ const LeaguesScreen = () => {
                 {error && (
                     <View style={styles.errorContainer}>
                         <Text style={styles.errorText}>{error}</Text>
-                        <TouchableOpacity style={styles.retryButton} onPress={loadLeagues}>
+                        <TouchableOpacity style={styles.retryButton} onPress={() => loadLeagues()}>
                             <Text style={styles.retryButtonText}>Retry</Text>
                         </TouchableOpacity>
                     </View>
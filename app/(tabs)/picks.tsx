@@ -8,14 +8,23 @@ import {
     ActivityIndicator,
     RefreshControl,
     Platform,
+    AppState,
+    Alert,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import NetInfo from '@react-native-community/netinfo';
 import { useSimpleToast } from '../../src/context/SimpleToastContext';
 import { useAuth } from '../../src/context/AuthContext';
 import { useTheme } from '../../src/context/ThemeContext';
-import { picksAPI, driversAPI, leaguesAPI, f1racesAPI } from '../../src/services/apiService';
+import { typedDriversAPI, typedLeaguesAPI, typedF1racesAPI, typedPicksAPI } from '../../src/services/apiClient';
+import { queryCache, queryKeys, staleTimes } from '../../src/services/queryCache';
+import { pickOutbox, PickMutation, PickEventType } from '../../src/services/pickOutbox';
 import { Driver, League, UserPickV2, PickV2, F1Race } from '../../src/types';
 import DriverSelectionModal from '../../components/DriverSelectionModal';
+import { PickTemplateModal } from '../../components/PickTemplateModal';
+import { BulkPickResultsModal } from '../../components/BulkPickResultsModal';
+import { applyPicksToLeagues, LeaguePickResult } from '../../src/services/bulkPicks';
+import { pickReminderScheduler } from '../../src/services/pickReminderScheduler';
 import { useLocalSearchParams, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { lightColors, darkColors } from '../../src/constants/Colors';
@@ -313,6 +322,26 @@ const PicksScreen = () => {
             color: currentColors.textTertiary,
             fontStyle: 'italic',
         },
+        outboxPendingText: {
+            fontSize: 12,
+            color: currentColors.warning,
+            marginTop: 2,
+        },
+        outboxFailedText: {
+            fontSize: 12,
+            color: currentColors.error,
+            marginTop: 2,
+        },
+        outboxActions: {
+            flexDirection: 'row',
+            gap: 16,
+            marginTop: 4,
+        },
+        outboxActionText: {
+            fontSize: 12,
+            fontWeight: '600',
+            color: currentColors.primary,
+        },
         legacySection: {
             marginTop: 16,
         },
@@ -563,6 +592,27 @@ const PicksScreen = () => {
             color: currentColors.textSecondary,
             marginBottom: 16,
         },
+        pickActionsRow: {
+            flexDirection: 'row',
+            flexWrap: 'wrap',
+        },
+        copyPicksButton: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            marginRight: 8,
+            paddingHorizontal: 12,
+            paddingVertical: 6,
+            borderRadius: 16,
+            borderWidth: 1,
+            borderColor: currentColors.primary,
+            marginBottom: 12,
+        },
+        copyPicksButtonText: {
+            fontSize: 13,
+            fontWeight: '600',
+            color: currentColors.primary,
+            marginLeft: 6,
+        },
         lockedBadge: {
             backgroundColor: currentColors.error,
             paddingHorizontal: 8,
@@ -644,8 +694,51 @@ const PicksScreen = () => {
     const [selectedEventType, setSelectedEventType] = useState<'race' | 'sprint'>('race');
     const [defaultEventTypeSet, setDefaultEventTypeSet] = useState(false);
     const [showDriverModal, setShowDriverModal] = useState(false);
+    const [templateEventType, setTemplateEventType] = useState<PickEventType | null>(null);
+    const [bulkEventType, setBulkEventType] = useState<PickEventType | null>(null);
+    const [bulkResults, setBulkResults] = useState<LeaguePickResult[]>([]);
+    const [bulkRunning, setBulkRunning] = useState(false);
+    const [outbox, setOutbox] = useState<PickMutation[]>([]);
+    const [outboxSyncCount, setOutboxSyncCount] = useState(0);
     const insets = useSafeAreaInsets();
 
+    // Track picks made while offline and replay them when the app comes back to the foreground or online
+    useEffect(() => {
+        if (authLoading || !user) return;
+
+        const unsubscribe = pickOutbox.subscribe(setOutbox);
+        pickOutbox.getMutations().then(setOutbox);
+
+        const syncOutbox = async () => {
+            const submitted = await pickOutbox.flush();
+            if (submitted.length > 0) {
+                showToast(`${submitted.length} offline pick${submitted.length === 1 ? '' : 's'} submitted`, 'success', 2000);
+                setOutboxSyncCount(count => count + 1);
+                pickReminderScheduler.refresh();
+            }
+        };
+        syncOutbox();
+
+        const subscription = AppState.addEventListener('change', (nextAppState) => {
+            if (nextAppState === 'active') {
+                syncOutbox();
+            }
+        });
+
+        // The outbox flushes itself on reconnect; this shares that flush to report what was submitted
+        const unsubscribeNetInfo = NetInfo.addEventListener((networkState) => {
+            if (networkState.isConnected !== false && networkState.isInternetReachable !== false) {
+                syncOutbox();
+            }
+        });
+
+        return () => {
+            unsubscribe();
+            subscription?.remove();
+            unsubscribeNetInfo();
+        };
+    }, [authLoading, user, showToast]);
+
     useEffect(() => {
         // Only load data when auth is complete and user is authenticated
         if (!authLoading && user) {
@@ -661,7 +754,7 @@ const PicksScreen = () => {
                 loadSprintPicks();
             }
         }
-    }, [selectedLeague, currentWeek, currentRace?.hasSprint]);
+    }, [selectedLeague, currentWeek, currentRace?.hasSprint, outboxSyncCount]);
 
     // Set default event type based on whether it's a sprint weekend (only once when race is first loaded)
     useEffect(() => {
@@ -687,63 +780,77 @@ const PicksScreen = () => {
         }
     }, [urlLeagueId, leagues]);
 
-    const loadData = async () => {
+    const applyLeagues = (allLeagues: League[]) => {
+        const validLeagues = allLeagues.filter((league: League) => league.seasonEnded !== true);
+        setLeagues(validLeagues);
+
+        setSelectedLeague((prev) => {
+            if (!prev) {
+                if (urlLeagueId && validLeagues.length > 0) {
+                    const urlLeagueIdNum = Number(urlLeagueId);
+                    const urlLeague = validLeagues.find((league: League) => league.id === urlLeagueIdNum);
+                    return urlLeague ? urlLeague.id : validLeagues[0].id;
+                }
+                return validLeagues.length > 0 ? validLeagues[0].id : null;
+            }
+            return validLeagues.some((l: League) => l.id === prev) ? prev : (validLeagues[0]?.id ?? null);
+        });
+    };
+
+    const applyCurrentRace = (race: F1Race) => {
+        setCurrentRace(race);
+        setCurrentWeek(race.weekNumber || 1);
+    };
+
+    const loadData = async (force = false) => {
         try {
-            setLoading(true);
+            // Only show the spinner when there is nothing cached to render
+            if (leagues.length === 0) {
+                setLoading(true);
+            }
             setError(null);
-            const [driversResult, leaguesResult, currentRaceResult] = await Promise.allSettled([
-                driversAPI.getDrivers(),
-                leaguesAPI.getLeagues(),
-                f1racesAPI.getCurrentRace()
+            const [driversQuery, leaguesQuery, currentRaceQuery] = await Promise.all([
+                queryCache.query(queryKeys.drivers(), typedDriversAPI.getDrivers, {
+                    staleTime: staleTimes.drivers,
+                    force,
+                    onUpdate: setDrivers,
+                }),
+                queryCache.query(queryKeys.leagues(), typedLeaguesAPI.getLeagues, {
+                    staleTime: staleTimes.leagues,
+                    force,
+                    onUpdate: applyLeagues,
+                }),
+                queryCache.query(queryKeys.currentRace(), typedF1racesAPI.getCurrentRace, {
+                    staleTime: staleTimes.currentRace,
+                    force,
+                    onUpdate: applyCurrentRace,
+                }),
             ]);
-
-            if (driversResult.status === 'fulfilled' && driversResult.value?.data?.success && driversResult.value?.data?.data) {
-                const validDrivers = Array.isArray(driversResult.value.data.data)
-                    ? driversResult.value.data.data.filter((driver: any) => driver && driver.id && driver.name)
-                    : [];
-                setDrivers(validDrivers);
-            } else {
-                setDrivers([]);
+            const driversResult = driversQuery.result;
+            const leaguesResult = leaguesQuery.result;
+            const currentRaceResult = currentRaceQuery.result;
+
+            // Drivers and leagues are required for the screen; surface their failure instead of rendering empty lists
+            const requiredFailure = !driversResult.ok ? driversResult.error : !leaguesResult.ok ? leaguesResult.error : null;
+            if (requiredFailure) {
+                setError(requiredFailure.kind === 'network'
+                    ? 'Unable to connect to server. Please check your internet connection.'
+                    : requiredFailure.message);
+                return;
             }
 
-            if (leaguesResult.status === 'fulfilled' && leaguesResult.value?.data?.success && leaguesResult.value?.data?.data) {
-                const rawLeagues = Array.isArray(leaguesResult.value.data.data)
-                    ? leaguesResult.value.data.data.filter((league: any) => league && league.id)
-                    : [];
-                const validLeagues = rawLeagues.filter((league: League) => league.seasonEnded !== true);
-                setLeagues(validLeagues);
-
-                setSelectedLeague((prev) => {
-                    if (!prev) {
-                        if (urlLeagueId && validLeagues.length > 0) {
-                            const urlLeagueIdNum = Number(urlLeagueId);
-                            const urlLeague = validLeagues.find((league: League) => league.id === urlLeagueIdNum);
-                            return urlLeague ? urlLeague.id : validLeagues[0].id;
-                        }
-                        return validLeagues.length > 0 ? validLeagues[0].id : null;
-                    }
-                    return validLeagues.some((l: League) => l.id === prev) ? prev : (validLeagues[0]?.id ?? null);
-                });
-            } else {
-                setLeagues([]);
-            }
+            setDrivers(driversResult.ok ? driversResult.data : []);
+            applyLeagues(leaguesResult.ok ? leaguesResult.data : []);
 
-            if (currentRaceResult.status === 'fulfilled' && currentRaceResult.value?.data?.success && currentRaceResult.value?.data?.data) {
-                setCurrentRace(currentRaceResult.value.data.data);
-                setCurrentWeek(currentRaceResult.value.data.data.weekNumber || 1);
-                setDefaultEventTypeSet(false);
+            // There is no current race between seasons, so a failure here is not an error
+            if (currentRaceResult.ok) {
+                applyCurrentRace(currentRaceResult.data);
+                pickReminderScheduler.sync(currentRaceResult.data, leaguesResult.ok ? leaguesResult.data : []);
             } else {
                 setCurrentRace(null);
                 setCurrentWeek(1);
-                setDefaultEventTypeSet(false);
-            }
-        } catch (error: any) {
-            console.error('Error loading data:', error);
-            if (error.code === 'NETWORK_ERROR' || error.message?.includes('Network Error')) {
-                setError('Unable to connect to server. Please check your internet connection.');
-            } else {
-                setError('Failed to load data. Please try again.');
             }
+            setDefaultEventTypeSet(false);
         } finally {
             setLoading(false);
         }
@@ -752,92 +859,65 @@ const PicksScreen = () => {
     const loadUserPicks = async () => {
         if (!selectedLeague) return;
 
-        try {
-            const response = await picksAPI.getUserPicksForEvent(selectedLeague, 'race');
-            if (response.data.success && response.data.data) {
-                // Ensure data is an array and filter out any invalid entries
-                const validPicks = Array.isArray(response.data.data)
-                    ? response.data.data.filter((pick: any) => pick && typeof pick.position === 'number' && pick.driverId)
-                    : [];
-
-                // Filter picks by current week
-                const currentWeekPicks = validPicks.filter((pick: UserPickV2) => pick.weekNumber === currentWeek);
-
-                setUserPicks(currentWeekPicks);
-
-                // Convert existing picks to selectedPicks format
-                const picks = currentWeekPicks.map((pick: UserPickV2) => ({
-                    position: pick.position,
-                    driverId: pick.driverId
-                }));
-                setSelectedPicks(picks);
-            } else {
-                setUserPicks([]);
-                setSelectedPicks([]);
-            }
-        } catch (error) {
-            console.error('Error loading user picks:', error);
+        const result = await typedPicksAPI.getUserPicksForEvent(selectedLeague, 'race');
+        if (!result.ok) {
+            console.error('Error loading user picks:', result.error);
+            showToast(result.error.message, 'error');
+            // Don't leave the previous league's or week's picks on screen to be submitted here
             setUserPicks([]);
             setSelectedPicks([]);
+            return;
         }
+
+        // Filter picks by current week
+        const currentWeekPicks = result.data.filter(pick => pick.weekNumber === currentWeek);
+        setUserPicks(currentWeekPicks);
+
+        // Convert existing picks to selectedPicks format
+        setSelectedPicks(currentWeekPicks.map(pick => ({
+            position: pick.position,
+            driverId: pick.driverId
+        })));
     };
 
     const loadSprintPicks = async () => {
         if (!selectedLeague) return;
 
-        try {
-            const response = await picksAPI.getUserPicksForEvent(selectedLeague, 'sprint');
-            if (response.data.success && response.data.data) {
-                // Ensure data is an array and filter out any invalid entries
-                const validPicks = Array.isArray(response.data.data)
-                    ? response.data.data.filter((pick: any) => pick && typeof pick.position === 'number' && pick.driverId)
-                    : [];
-
-                // Filter picks by current week
-                const currentWeekPicks = validPicks.filter((pick: UserPickV2) => pick.weekNumber === currentWeek);
-
-                setSprintPicks(currentWeekPicks);
-
-                // Convert existing picks to selectedSprintPicks format
-                const picks = currentWeekPicks.map((pick: UserPickV2) => ({
-                    position: pick.position,
-                    driverId: pick.driverId
-                }));
-                setSelectedSprintPicks(picks);
-            } else {
-                setSprintPicks([]);
-                setSelectedSprintPicks([]);
-            }
-        } catch (error) {
-            console.error('Error loading sprint picks:', error);
+        const result = await typedPicksAPI.getUserPicksForEvent(selectedLeague, 'sprint');
+        if (!result.ok) {
+            console.error('Error loading sprint picks:', result.error);
+            showToast(result.error.message, 'error');
             setSprintPicks([]);
             setSelectedSprintPicks([]);
+            return;
         }
+
+        // Filter picks by current week
+        const currentWeekPicks = result.data.filter(pick => pick.weekNumber === currentWeek);
+        setSprintPicks(currentWeekPicks);
+
+        // Convert existing picks to selectedSprintPicks format
+        setSelectedSprintPicks(currentWeekPicks.map(pick => ({
+            position: pick.position,
+            driverId: pick.driverId
+        })));
     };
 
     const loadLeaguePositions = async () => {
         if (!selectedLeague) return;
 
-        try {
-            const response = await picksAPI.getLeaguePositions(selectedLeague);
-            if (response.data.success && response.data.data) {
-                // Ensure data is an array and filter out any invalid entries
-                const validPositions = Array.isArray(response.data.data)
-                    ? response.data.data.filter((pos: any) => pos && typeof pos === 'number')
-                    : [];
-                setLeaguePositions(validPositions);
-            } else {
-                setLeaguePositions([]);
-            }
-        } catch (error) {
-            console.error('Error loading league positions:', error);
+        const result = await typedPicksAPI.getLeaguePositions(selectedLeague);
+        if (!result.ok) {
+            console.error('Error loading league positions:', result.error);
             setLeaguePositions([]);
+            return;
         }
+        setLeaguePositions(result.data);
     };
 
     const onRefresh = async () => {
         setRefreshing(true);
-        await loadData();
+        await loadData(true);
         if (selectedLeague) {
             await loadUserPicks();
             await loadLeaguePositions();
@@ -848,6 +928,12 @@ const PicksScreen = () => {
         setRefreshing(false);
     };
 
+    // Lock time for an event, stored with queued picks so they are never replayed after it
+    const getLockTime = (eventType: PickEventType) => {
+        const lockTime = eventType === 'sprint' ? currentRace?.sprintLockTime : currentRace?.raceLockTime;
+        return lockTime || currentRace?.lockTime || undefined;
+    };
+
     const makePick = async (position: number, driverId: number, eventType: 'race' | 'sprint' = 'race') => {
         if (!selectedLeague) {
             showToast('Please select a league first', 'error');
@@ -880,13 +966,23 @@ const PicksScreen = () => {
                 setSelectedSprintPicks(updatedPicks);
             }
 
-            // Submit to API
-            const response = eventType === 'race'
-                ? await picksAPI.makePickV2(selectedLeague, currentWeek, [newPick])
-                : await picksAPI.makeSprintPickV2(selectedLeague, currentWeek, [newPick]);
-
-            if (response.data.success) {
+            const result = await pickOutbox.submit({
+                leagueId: selectedLeague,
+                weekNumber: currentWeek,
+                eventType,
+                action: 'make',
+                position,
+                driverId,
+                lockTime: getLockTime(eventType),
+            });
+
+            if (result.ok && result.queued) {
+                showToast(result.offline
+                    ? `You're offline. Your ${eventType === 'race' ? 'race' : 'sprint'} P${position} pick will be submitted when you're back online.`
+                    : `Your ${eventType === 'race' ? 'race' : 'sprint'} P${position} pick will be submitted after your earlier picks.`, 'info', 3000);
+            } else if (result.ok) {
                 showToast(`${eventType === 'race' ? 'Race' : 'Sprint'} P${position} pick submitted successfully!`, 'success', 2000);
+                pickReminderScheduler.refresh(); // Cancel reminders once picks are complete
                 await loadUserPicks(); // Refresh picks
                 if (eventType === 'sprint') {
                     await loadSprintPicks(); // Refresh sprint picks
@@ -898,11 +994,9 @@ const PicksScreen = () => {
                 } else {
                     setSelectedSprintPicks(selectedSprintPicks);
                 }
+                console.error('Error making pick:', result.error);
                 showToast('Failed to submit pick. Please try again.', 'error');
             }
-        } catch (error) {
-            console.error('Error making pick:', error);
-            showToast('Failed to submit pick. Please try again.', 'error');
         } finally {
             setSubmitting(false);
         }
@@ -927,19 +1021,29 @@ const PicksScreen = () => {
             const updatedPicks = selectedPicks.filter(pick => pick.position !== position);
             setSelectedPicks(updatedPicks);
 
-            // Submit to API
-            const response = await picksAPI.removePickV2(selectedLeague, currentWeek, position);
-            if (response.data.success) {
+            const result = await pickOutbox.submit({
+                leagueId: selectedLeague,
+                weekNumber: currentWeek,
+                eventType: 'race',
+                action: 'remove',
+                position,
+                lockTime: getLockTime('race'),
+            });
+
+            if (result.ok && result.queued) {
+                showToast(result.offline
+                    ? `You're offline. P${position} pick will be removed when you're back online.`
+                    : `P${position} pick will be removed after your earlier picks are submitted.`, 'info', 3000);
+            } else if (result.ok) {
                 showToast(`P${position} pick removed successfully!`, 'success', 2000);
+                pickReminderScheduler.refresh(); // Cancel reminders once picks are complete
                 await loadUserPicks(); // Refresh picks
             } else {
                 // Revert local state if API call failed
                 setSelectedPicks(selectedPicks);
+                console.error('Error removing pick:', result.error);
                 showToast('Failed to remove pick. Please try again.', 'error');
             }
-        } catch (error) {
-            console.error('Error removing pick:', error);
-            showToast('Failed to remove pick. Please try again.', 'error');
         } finally {
             setSubmitting(false);
         }
@@ -964,26 +1068,140 @@ const PicksScreen = () => {
             const updatedPicks = selectedSprintPicks.filter(pick => pick.position !== position);
             setSelectedSprintPicks(updatedPicks);
 
-            // Submit to API
-            const response = await picksAPI.removeSprintPickV2(selectedLeague, currentWeek, position);
-            if (response.data.success) {
+            const result = await pickOutbox.submit({
+                leagueId: selectedLeague,
+                weekNumber: currentWeek,
+                eventType: 'sprint',
+                action: 'remove',
+                position,
+                lockTime: getLockTime('sprint'),
+            });
+
+            if (result.ok && result.queued) {
+                showToast(result.offline
+                    ? `You're offline. Sprint P${position} pick will be removed when you're back online.`
+                    : `Sprint P${position} pick will be removed after your earlier picks are submitted.`, 'info', 3000);
+            } else if (result.ok) {
                 showToast(`Sprint P${position} pick removed successfully!`, 'success', 2000);
+                pickReminderScheduler.refresh(); // Cancel reminders once picks are complete
                 await loadSprintPicks(); // Refresh sprint picks
             } else {
                 // Revert local state if API call failed
                 setSelectedSprintPicks(selectedSprintPicks);
+                console.error('Error removing sprint pick:', result.error);
                 showToast('Failed to remove sprint pick. Please try again.', 'error');
             }
-        } catch (error) {
-            console.error('Error removing sprint pick:', error);
-            // Revert local state if API call failed
-            setSelectedSprintPicks(selectedSprintPicks);
-            showToast('Failed to remove sprint pick. Please try again.', 'error');
         } finally {
             setSubmitting(false);
         }
     };
 
+    // Submit a batch of copied picks (see PickTemplateModal)
+    const applyPickTemplate = async (picks: PickV2[]) => {
+        if (!selectedLeague || !templateEventType) return;
+
+        const eventType = templateEventType;
+        if (isRaceLocked(eventType)) {
+            showToast('Picks are currently locked for this race.', 'warning');
+            return;
+        }
+
+        setSubmitting(true);
+        const result = await pickOutbox.submitPicks({
+            leagueId: selectedLeague,
+            weekNumber: currentWeek,
+            eventType,
+            lockTime: getLockTime(eventType),
+        }, picks);
+        setSubmitting(false);
+
+        if (!result.ok) {
+            console.error('Error applying copied picks:', result.error);
+            showToast('Failed to copy picks. Please try again.', 'error');
+            return;
+        }
+
+        setTemplateEventType(null);
+        if (result.queued) {
+            showToast(result.offline
+                ? `You're offline. Copied picks will be submitted when you're back online.`
+                : 'Copied picks will be submitted after your earlier picks.', 'info', 3000);
+            return;
+        }
+
+        pickReminderScheduler.refresh();
+        showToast(`${picks.length} ${eventType === 'sprint' ? 'sprint' : 'race'} pick${picks.length === 1 ? '' : 's'} copied`, 'success', 2000);
+        if (eventType === 'sprint') {
+            await loadSprintPicks();
+        } else {
+            await loadUserPicks();
+        }
+    };
+
+    // Submit this league's picks for an event to every other active league
+    const applyPicksToAllLeagues = async (eventType: PickEventType) => {
+        const picks = eventType === 'sprint' ? selectedSprintPicks : selectedPicks;
+        setBulkEventType(eventType);
+        setBulkResults([]);
+        setBulkRunning(true);
+        try {
+            const results = await applyPicksToLeagues({
+                leagues: leagues.filter(league => league.id !== selectedLeague),
+                weekNumber: currentWeek,
+                eventType,
+                lockTime: getLockTime(eventType),
+                picks,
+                drivers,
+            });
+            setBulkResults(results);
+            pickReminderScheduler.refresh();
+        } finally {
+            setBulkRunning(false);
+        }
+    };
+
+    const confirmApplyPicksToAllLeagues = (eventType: PickEventType) => {
+        const picks = eventType === 'sprint' ? selectedSprintPicks : selectedPicks;
+        const otherLeagueCount = leagues.filter(league => league.id !== selectedLeague).length;
+        if (picks.length === 0) {
+            showToast('Make some picks in this league first.', 'info');
+            return;
+        }
+        if (isRaceLocked(eventType)) {
+            showToast('Picks are currently locked for this race.', 'warning');
+            return;
+        }
+
+        const eventName = eventType === 'sprint' ? 'sprint' : 'race';
+        Alert.alert(
+            'Apply to All Leagues',
+            `Use these ${picks.length} ${eventName} pick${picks.length === 1 ? '' : 's'} in your ${otherLeagueCount} other league${otherLeagueCount === 1 ? '' : 's'}? Existing picks for the same positions will be replaced.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Apply', onPress: () => applyPicksToAllLeagues(eventType) },
+            ]
+        );
+    };
+
+    const renderPickActions = (eventType: PickEventType) => {
+        if (isRaceLocked(eventType)) return null;
+        const hasOtherLeagues = leagues.some(league => league.id !== selectedLeague);
+        return (
+            <View style={styles.pickActionsRow}>
+                <TouchableOpacity style={styles.copyPicksButton} onPress={() => setTemplateEventType(eventType)}>
+                    <Ionicons name="copy-outline" size={14} color={currentColors.primary} />
+                    <Text style={styles.copyPicksButtonText}>Copy picks</Text>
+                </TouchableOpacity>
+                {hasOtherLeagues && (
+                    <TouchableOpacity style={styles.copyPicksButton} onPress={() => confirmApplyPicksToAllLeagues(eventType)}>
+                        <Ionicons name="git-branch-outline" size={14} color={currentColors.primary} />
+                        <Text style={styles.copyPicksButtonText}>Apply to all leagues</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+        );
+    };
+
     const handlePositionPress = (position: number) => {
         const locked = selectedEventType === 'sprint'
             ? Boolean(currentRace?.sprintPicksLocked ?? currentRace?.picksLocked)
@@ -1020,6 +1238,51 @@ const PicksScreen = () => {
         return pick ? pick.driverId : null;
     };
 
+    const getQueuedMutation = (position: number, eventType: PickEventType) =>
+        outbox.find(mutation =>
+            mutation.leagueId === selectedLeague &&
+            mutation.weekNumber === currentWeek &&
+            mutation.eventType === eventType &&
+            mutation.position === position
+        );
+
+    // The server's pick, overridden by a pick still waiting in the offline outbox
+    const getDisplayedPick = (position: number, eventType: PickEventType) => {
+        const queued = getQueuedMutation(position, eventType);
+        if (queued?.status === 'pending') {
+            if (queued.action === 'remove') return null;
+            const driver = drivers.find(d => d.id === queued.driverId);
+            return driver ? { driverName: driver.name, driverTeam: driver.team } : null;
+        }
+        return getCurrentPickForPosition(position, eventType);
+    };
+
+    const renderOutboxStatus = (position: number, eventType: PickEventType) => {
+        const queued = getQueuedMutation(position, eventType);
+        if (!queued) return null;
+
+        if (queued.status === 'failed') {
+            return (
+                <View>
+                    <Text style={styles.outboxFailedText}>Not submitted: {queued.error}.</Text>
+                    <View style={styles.outboxActions}>
+                        <TouchableOpacity onPress={() => pickOutbox.retry(queued.id)}>
+                            <Text style={styles.outboxActionText}>Retry</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => pickOutbox.discard(queued.id)}>
+                            <Text style={styles.outboxActionText}>Dismiss</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            );
+        }
+        return (
+            <Text style={styles.outboxPendingText}>
+                {queued.action === 'remove' ? 'Removal waiting for connection' : 'Waiting for connection'}
+            </Text>
+        );
+    };
+
     const isPositionLocked = (position: number) => {
         const pick = getCurrentPickForPosition(position);
         return pick && Boolean(pick.isLocked);
@@ -1050,7 +1313,7 @@ const PicksScreen = () => {
             <View style={styles.errorContainer}>
                 <Text style={styles.errorTitle}>Connection Error</Text>
                 <Text style={styles.errorMessage}>{error}</Text>
-                <TouchableOpacity style={styles.retryButton} onPress={loadData}>
+                <TouchableOpacity style={styles.retryButton} onPress={() => loadData()}>
                     <Text style={styles.retryButtonText}>Retry</Text>
                 </TouchableOpacity>
             </View>
@@ -1366,10 +1629,11 @@ const PicksScreen = () => {
                                 <Text style={styles.sectionSubtitle}>
                                     Week {currentWeek} - {currentRace?.raceName}
                                 </Text>
+                                {renderPickActions('sprint')}
 
                                 <View style={styles.positionsList}>
                                     {leaguePositions.map((position) => {
-                                        const currentPick = getCurrentPickForPosition(position, 'sprint');
+                                        const currentPick = getDisplayedPick(position, 'sprint');
                                         const isLocked = isPositionLocked(position);
                                         const isRaceLockedNow = isRaceLocked('sprint');
                                         const hasPick = !!currentPick;
@@ -1409,6 +1673,7 @@ const PicksScreen = () => {
                                                             )}
                                                         </>
                                                     )}
+                                                    {renderOutboxStatus(position, 'sprint')}
                                                 </View>
 
                                                 <View style={styles.positionRowRight}>
@@ -1447,10 +1712,11 @@ const PicksScreen = () => {
                                 <Text style={styles.sectionSubtitle}>
                                     Week {currentWeek} - {currentRace?.raceName}
                                 </Text>
+                                {renderPickActions('race')}
 
                                 <View style={styles.positionsList}>
                                     {leaguePositions.map((position) => {
-                                        const currentPick = getCurrentPickForPosition(position, 'race');
+                                        const currentPick = getDisplayedPick(position, 'race');
                                         const isLocked = isPositionLocked(position);
                                         const isRaceLockedNow = isRaceLocked('race');
                                         const hasPick = !!currentPick;
@@ -1490,6 +1756,7 @@ const PicksScreen = () => {
                                                             )}
                                                         </>
                                                     )}
+                                                    {renderOutboxStatus(position, 'race')}
                                                 </View>
 
                                                 <View style={styles.positionRowRight}>
@@ -1528,6 +1795,30 @@ const PicksScreen = () => {
                 disabled={(currentRace ? Boolean(currentRace.picksLocked) : false) || isRaceLocked()}
                 submitting={submitting}
                 userPicks={new Map((selectedEventType === 'race' ? selectedPicks : selectedSprintPicks).map(pick => [pick.position, pick.driverId]))}
+                weekNumber={currentWeek}
+                eventType={selectedEventType}
+            />
+
+            {selectedLeague && (
+                <PickTemplateModal
+                    visible={templateEventType !== null}
+                    onClose={() => setTemplateEventType(null)}
+                    leagueId={selectedLeague}
+                    weekNumber={currentWeek}
+                    eventType={templateEventType ?? 'race'}
+                    leagues={leagues}
+                    drivers={drivers}
+                    onApply={applyPickTemplate}
+                    submitting={submitting}
+                />
+            )}
+
+            <BulkPickResultsModal
+                visible={bulkEventType !== null}
+                onClose={() => setBulkEventType(null)}
+                eventType={bulkEventType ?? 'race'}
+                results={bulkResults}
+                running={bulkRunning}
             />
         </View>
     );
@@ -116,6 +116,9 @@ function AppContent() {
       } else if (data.type === 'score_update' && data.leagueId) {
         // Navigate to league standings
         router.push(`/league/${data.leagueId}/standings`);
+      } else if ((data.type === 'join_request' || data.type === 'join_request_approved') && data.leagueId) {
+        // Owners review the request on the league page; approved members land in the league
+        router.push(`/league/${data.leagueId}`);
       } else if (data.type === 'chat_message' && data.leagueId) {
         // Navigate to league chat only if feature is enabled
         if (isChatFeatureEnabled) {
@@ -307,6 +310,10 @@ function AppContent() {
               name="join-league"
               options={getScreenOptionsWithBackground(resolvedTheme)}
             />
+            <Stack.Screen
+              name="discover-leagues"
+              options={getScreenOptionsWithBackground(resolvedTheme)}
+            />
             <Stack.Screen
               name="change-password"
               options={getScreenOptionsWithBackground(resolvedTheme)}
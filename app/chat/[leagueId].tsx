@@ -1,15 +1,29 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { View, StyleSheet, Text, TouchableOpacity, Alert, Switch, Modal } from 'react-native';
+import { View, StyleSheet, Text, TouchableOpacity, Alert, Modal } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LeagueChat } from '../../components/LeagueChat';
-import { SecureChatService } from '../../src/services/secureChatService';
+import { ChatChannelBar } from '../../components/ChatChannelBar';
+import { CreateChannelModal } from '../../components/CreateChannelModal';
+import { SecureChatService, GENERAL_CHANNEL_ID, toNotificationLevel } from '../../src/services/secureChatService';
+import { LeagueRole } from '../../src/types';
+import { ChatChannel, ChatNotificationLevel } from '../../src/types/chat';
 import { useAuth } from '../../src/context/AuthContext';
 import { useTheme } from '../../src/context/ThemeContext';
 import { useChatFeature } from '../../src/context/FeatureFlagContext';
+import { useUnreadCounts } from '../../src/context/UnreadCountContext';
 import { lightColors, darkColors } from '../../src/constants/Colors';
 import { Ionicons } from '@expo/vector-icons';
 import { chatAPI, leaguesAPI } from '../../src/services/apiService';
+import { typedF1racesAPI } from '../../src/services/apiClient';
+import { queryCache, queryKeys, staleTimes } from '../../src/services/queryCache';
+import { isLeagueOwner } from '../../utils/leaguePermissions';
+
+const notificationLevelOptions: { level: ChatNotificationLevel; label: string; description: string }[] = [
+    { level: 'all', label: 'All messages', description: 'Get notified about every message in this league' },
+    { level: 'mentions', label: 'Mentions only', description: 'Only when someone @mentions you or @everyone' },
+    { level: 'off', label: 'Off', description: 'No chat notifications from this league' },
+];
 
 export default function LeagueChatScreen() {
     const { leagueId } = useLocalSearchParams<{ leagueId: string }>();
@@ -18,12 +32,18 @@ export default function LeagueChatScreen() {
     const { resolvedTheme } = useTheme();
     const { isChatFeatureEnabled, isLoading: featureFlagLoading } = useChatFeature();
     const insets = useSafeAreaInsets();
+    const { refreshChannelUnreadCounts, getChannelUnreadCount, markChannelRead } = useUnreadCounts();
     const [leagueName, setLeagueName] = useState('League Chat');
+    const [userRole, setUserRole] = useState<LeagueRole | undefined>(undefined);
     const [hasAccess, setHasAccess] = useState(false);
     const [loading, setLoading] = useState(true);
-    const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+    const [notificationLevel, setNotificationLevel] = useState<ChatNotificationLevel>('all');
     const [loadingPreferences, setLoadingPreferences] = useState(true);
     const [showSettingsModal, setShowSettingsModal] = useState(false);
+    const [channels, setChannels] = useState<ChatChannel[]>([]);
+    const [selectedChannelId, setSelectedChannelId] = useState(GENERAL_CHANNEL_ID);
+    const [showCreateChannel, setShowCreateChannel] = useState(false);
+    const [creatingChannel, setCreatingChannel] = useState(false);
 
     // Get current theme colors
     const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
@@ -33,7 +53,7 @@ export default function LeagueChatScreen() {
             setLoadingPreferences(true);
             const response = await chatAPI.getNotificationPreferences(parseInt(leagueId));
             if (response.data.success) {
-                setNotificationsEnabled(response.data.notificationsEnabled);
+                setNotificationLevel(toNotificationLevel(response.data));
             }
         } catch (error) {
             console.error('Error loading notification preferences:', error);
@@ -42,6 +62,62 @@ export default function LeagueChatScreen() {
         }
     }, [leagueId]);
 
+    const loadChannels = useCallback(async () => {
+        let leagueChannels: ChatChannel[] = [];
+        try {
+            leagueChannels = await SecureChatService.getLeagueChannels(leagueId);
+            setChannels(leagueChannels);
+        } catch {
+            // Fall back to the main stream only
+            setChannels([]);
+        }
+        await refreshChannelUnreadCounts(parseInt(leagueId));
+
+        // The first member to open chat for a race creates its discussion channel
+        if (leagueChannels.length === 0) return;
+        const raceQuery = await queryCache.query(
+            queryKeys.currentRace(),
+            typedF1racesAPI.getCurrentRace,
+            { staleTime: staleTimes.currentRace }
+        );
+        if (!raceQuery.result.ok || !raceQuery.result.data) return;
+
+        const race = raceQuery.result.data;
+        const hasRaceChannel = leagueChannels.some(channel =>
+            channel.type === 'race-discussion' && channel.weekNumber === race.weekNumber
+        );
+        if (!hasRaceChannel) {
+            const created = await SecureChatService.ensureRaceChannel(leagueId, race.weekNumber, race.raceName);
+            if (created) {
+                // Race channels follow the main stream, newest race first
+                setChannels(prev => prev.some(channel => channel.id === created.id)
+                    ? prev
+                    : [...prev.slice(0, 1), created, ...prev.slice(1)]);
+            }
+        }
+    }, [leagueId, refreshChannelUnreadCounts]);
+
+    // Clear the open channel's badge, including once fresh counts arrive
+    useEffect(() => {
+        if (leagueId) {
+            markChannelRead(parseInt(leagueId), selectedChannelId);
+        }
+    }, [leagueId, selectedChannelId, markChannelRead]);
+
+    const handleCreateChannel = async (channel: { name: string; description?: string; type: ChatChannel['type'] }) => {
+        setCreatingChannel(true);
+        try {
+            const created = await SecureChatService.createChannel(leagueId, channel);
+            setChannels(prev => [...prev, created]);
+            setSelectedChannelId(created.id);
+            setShowCreateChannel(false);
+        } catch {
+            Alert.alert('Error', 'Failed to create channel. Please try again.');
+        } finally {
+            setCreatingChannel(false);
+        }
+    };
+
     useEffect(() => {
         // Check if chat feature is enabled
         if (!featureFlagLoading && !isChatFeatureEnabled) {
@@ -74,6 +150,7 @@ export default function LeagueChatScreen() {
                         const leagueResponse = await leaguesAPI.getLeague(parseInt(leagueId));
                         if (leagueResponse.data.success) {
                             setLeagueName(leagueResponse.data.data.name);
+                            setUserRole(leagueResponse.data.data.userRole);
                         } else {
                             setLeagueName(`League ${leagueId}`);
                         }
@@ -84,6 +161,7 @@ export default function LeagueChatScreen() {
 
                     // Load notification preferences for this league
                     await loadNotificationPreferences();
+                    await loadChannels();
                 } else {
                     setHasAccess(false);
                     Alert.alert(
@@ -101,20 +179,23 @@ export default function LeagueChatScreen() {
         };
 
         checkAccess();
-    }, [user, leagueId, router, loadNotificationPreferences, isChatFeatureEnabled, featureFlagLoading]);
+    }, [user, leagueId, router, loadNotificationPreferences, loadChannels, isChatFeatureEnabled, featureFlagLoading]);
 
-    const toggleNotifications = async () => {
+    const changeNotificationLevel = async (newLevel: ChatNotificationLevel) => {
+        if (newLevel === notificationLevel) return;
         try {
-            const newValue = !notificationsEnabled;
-            const response = await chatAPI.updateNotificationPreferences(parseInt(leagueId), newValue);
+            setLoadingPreferences(true);
+            const response = await chatAPI.updateNotificationPreferences(parseInt(leagueId), newLevel);
             if (response.data.success) {
-                setNotificationsEnabled(newValue);
+                setNotificationLevel(newLevel);
             } else {
                 Alert.alert('Error', 'Failed to update notification preferences');
             }
         } catch (error) {
             console.error('Error updating notification preferences:', error);
             Alert.alert('Error', 'Failed to update notification preferences');
+        } finally {
+            setLoadingPreferences(false);
         }
     };
 
@@ -188,6 +269,14 @@ export default function LeagueChatScreen() {
             fontSize: 14,
             lineHeight: 20,
         },
+        levelOption: {
+            paddingVertical: 10,
+            gap: 12,
+        },
+        levelLabel: {
+            fontSize: 15,
+            fontWeight: '500',
+        },
         modalFooter: {
             padding: 20,
             borderTopWidth: 1,
@@ -369,6 +458,9 @@ export default function LeagueChatScreen() {
         },
     });
 
+    // Admin channels are only listed for owners
+    const visibleChannels = channels.filter(channel => channel.type !== 'admin' || isLeagueOwner(userRole));
+
     return (
         <View style={themeStyles.container}>
             {/* Header */}
@@ -393,10 +485,33 @@ export default function LeagueChatScreen() {
                 </View>
             </View>
 
-            {/* Chat Component */}
+            {/* Channels */}
+            {visibleChannels.length > 1 || isLeagueOwner(userRole) ? (
+                <ChatChannelBar
+                    channels={visibleChannels}
+                    selectedChannelId={selectedChannelId}
+                    onSelect={(channel) => setSelectedChannelId(channel.id)}
+                    getUnreadCount={(channelId) => getChannelUnreadCount(parseInt(leagueId), channelId)}
+                    onCreatePress={isLeagueOwner(userRole) ? () => setShowCreateChannel(true) : undefined}
+                />
+            ) : null}
+
+            {/* Chat Component, remounted per channel so drafts and threads don't leak between them */}
             <LeagueChat
+                key={selectedChannelId}
                 leagueId={leagueId}
-                leagueName={leagueName}
+                leagueName={selectedChannelId === GENERAL_CHANNEL_ID
+                    ? leagueName
+                    : `#${channels.find(channel => channel.id === selectedChannelId)?.name ?? leagueName}`}
+                channelId={selectedChannelId === GENERAL_CHANNEL_ID ? undefined : selectedChannelId}
+                userRole={userRole}
+            />
+
+            <CreateChannelModal
+                visible={showCreateChannel}
+                onClose={() => setShowCreateChannel(false)}
+                onCreate={handleCreateChannel}
+                creating={creatingChannel}
             />
 
             {/* Settings Modal */}
@@ -427,23 +542,34 @@ export default function LeagueChatScreen() {
 
                         {/* Modal Body */}
                         <View style={styles.modalBody}>
-                            <View style={styles.settingRow}>
-                                <View style={{ flex: 1 }}>
-                                    <Text style={[styles.settingTitle, { color: currentColors.textPrimary }]}>
-                                        Push Notifications
-                                    </Text>
-                                    <Text style={[styles.settingDescription, { color: currentColors.textSecondary }]}>
-                                        Get notified when someone sends a message in this league
-                                    </Text>
-                                </View>
-                                <Switch
-                                    value={notificationsEnabled}
-                                    onValueChange={toggleNotifications}
-                                    disabled={loadingPreferences}
-                                    trackColor={{ false: currentColors.borderLight, true: currentColors.primary + '40' }}
-                                    thumbColor={notificationsEnabled ? currentColors.primary : currentColors.borderMedium}
-                                />
-                            </View>
+                            <Text style={[styles.settingTitle, { color: currentColors.textPrimary }]}>
+                                Push Notifications
+                            </Text>
+                            {notificationLevelOptions.map(option => {
+                                const isSelected = notificationLevel === option.level;
+                                return (
+                                    <TouchableOpacity
+                                        key={option.level}
+                                        style={[styles.settingRow, styles.levelOption]}
+                                        onPress={() => changeNotificationLevel(option.level)}
+                                        disabled={loadingPreferences}
+                                    >
+                                        <View style={{ flex: 1 }}>
+                                            <Text style={[styles.levelLabel, { color: currentColors.textPrimary }]}>
+                                                {option.label}
+                                            </Text>
+                                            <Text style={[styles.settingDescription, { color: currentColors.textSecondary }]}>
+                                                {option.description}
+                                            </Text>
+                                        </View>
+                                        <Ionicons
+                                            name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                                            size={22}
+                                            color={isSelected ? currentColors.primary : currentColors.borderMedium}
+                                        />
+                                    </TouchableOpacity>
+                                );
+                            })}
                         </View>
 
                         {/* Modal Footer */}
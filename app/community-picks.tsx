@@ -17,39 +17,7 @@ import { router } from 'expo-router';
 import { useTheme } from '../src/context/ThemeContext';
 import { communityPicksAPI, seasonsAPI } from '../src/services/apiService';
 import { lightColors, darkColors } from '../src/constants/Colors';
-
-interface CommunityWeek {
-    weekNumber: number;
-    raceName: string;
-    raceDate: string | null;
-    isScored: boolean;
-    hasSprint: boolean;
-}
-
-interface DriverPickStat {
-    driverId: number;
-    driverName: string;
-    driverTeam: string;
-    pickCount: number;
-    percentage: number;
-    isCorrect: boolean;
-}
-
-interface PositionStat {
-    position: number;
-    totalPicks: number;
-    isScored: boolean;
-    actualResult: { driverId: number; driverName: string; driverTeam: string } | null;
-    drivers: DriverPickStat[];
-}
-
-interface CommunityStats {
-    weekNumber: number;
-    raceName: string;
-    eventType: 'race' | 'sprint';
-    isScored: boolean;
-    positions: PositionStat[];
-}
+import { CommunityStats, CommunityWeek } from '../src/types';
 
 interface DropdownOption {
     label: string;
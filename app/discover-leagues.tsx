@@ -0,0 +1,437 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    TextInput,
+    TouchableOpacity,
+    ActivityIndicator,
+    FlatList,
+    ScrollView,
+    RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { seasonsAPI } from '../src/services/apiService';
+import { typedLeaguesAPI } from '../src/services/apiClient';
+import { queryCache, queryKeys, staleTimes } from '../src/services/queryCache';
+import { useAuth } from '../src/context/AuthContext';
+import { useTheme } from '../src/context/ThemeContext';
+import { lightColors, darkColors } from '../src/constants/Colors';
+import { League } from '../src/types';
+import { PublicLeagueCard } from '../components/PublicLeagueCard';
+import {
+    DEFAULT_DISCOVERY_FILTERS,
+    DISCOVERY_PAGE_SIZE,
+    LEAGUE_SIZE_OPTIONS,
+    LEAGUE_SORT_OPTIONS,
+    LeagueDiscoveryFilters,
+    LeagueSort,
+    SPRINT_FILTER_OPTIONS,
+    countActiveFilters,
+    filterLeagues,
+    getAvailablePositions,
+    sortLeagues,
+} from '../utils/leagueDiscovery';
+
+const DiscoverLeaguesScreen = () => {
+    const { user } = useAuth();
+    const { resolvedTheme } = useTheme();
+    const { seasonYear } = useLocalSearchParams<{ seasonYear?: string }>();
+    const [leagues, setLeagues] = useState<League[]>([]);
+    const [seasons, setSeasons] = useState<{ year: number; displayLabel: string }[]>([]);
+    const [filters, setFilters] = useState<LeagueDiscoveryFilters>({
+        ...DEFAULT_DISCOVERY_FILTERS,
+        seasonYear: seasonYear ? Number(seasonYear) : null,
+    });
+    const [sort, setSort] = useState<LeagueSort>('activity');
+    const [showFilters, setShowFilters] = useState(false);
+    const [page, setPage] = useState(1);
+    const [loading, setLoading] = useState(true);
+    const [refreshing, setRefreshing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Get current theme colors
+    const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+    const loadLeagues = useCallback(async (force = false) => {
+        setError(null);
+        // Guests see every public league; members only those they haven't joined
+        const result = user
+            ? (await queryCache.query(queryKeys.publicLeagues(), typedLeaguesAPI.getPublicLeagues, {
+                staleTime: staleTimes.leagues,
+                force,
+                onUpdate: setLeagues,
+            })).result
+            : await typedLeaguesAPI.getLeagues();
+
+        if (result.ok) {
+            setLeagues(result.data);
+        } else {
+            setError(result.error.kind === 'network'
+                ? 'Unable to connect to server. Please check your internet connection.'
+                : 'Failed to load leagues. Please try again.');
+        }
+        setLoading(false);
+    }, [user]);
+
+    useEffect(() => {
+        loadLeagues();
+    }, [loadLeagues]);
+
+    useEffect(() => {
+        seasonsAPI.getSeasons()
+            .then(response => {
+                if (response.data?.success && Array.isArray(response.data.data)) {
+                    setSeasons(response.data.data);
+                }
+            })
+            .catch(() => {
+                // Without seasons the season filter is just hidden
+            });
+    }, []);
+
+    // Start from the first page whenever the results change
+    useEffect(() => {
+        setPage(1);
+    }, [filters, sort]);
+
+    const results = useMemo(() => sortLeagues(filterLeagues(leagues, filters), sort), [leagues, filters, sort]);
+    const positions = useMemo(() => getAvailablePositions(leagues), [leagues]);
+    const visibleResults = results.slice(0, page * DISCOVERY_PAGE_SIZE);
+    const activeFilterCount = countActiveFilters(filters);
+
+    const updateFilters = (changes: Partial<LeagueDiscoveryFilters>) => {
+        setFilters(prev => ({ ...prev, ...changes }));
+    };
+
+    const clearFilters = () => {
+        setFilters({ ...DEFAULT_DISCOVERY_FILTERS, seasonYear: filters.seasonYear });
+    };
+
+    const onRefresh = async () => {
+        setRefreshing(true);
+        await loadLeagues(true);
+        setRefreshing(false);
+    };
+
+    const updateJoinRequestStatus = (leagueId: number, joinRequestStatus?: League['joinRequestStatus']) => {
+        setLeagues(prev => prev.map(l => (l.id === leagueId ? { ...l, joinRequestStatus } : l)));
+    };
+
+    // Create theme-aware styles
+    const styles = StyleSheet.create({
+        container: {
+            flex: 1,
+            backgroundColor: currentColors.backgroundPrimary,
+        },
+        header: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            padding: 20,
+            backgroundColor: currentColors.cardBackground,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+        },
+        backButton: {
+            padding: 8,
+            marginRight: 12,
+        },
+        headerContent: {
+            flex: 1,
+        },
+        title: {
+            fontSize: 24,
+            fontWeight: 'bold',
+            color: currentColors.textPrimary,
+            marginBottom: 4,
+        },
+        subtitle: {
+            fontSize: 14,
+            color: currentColors.textSecondary,
+        },
+        controls: {
+            paddingHorizontal: 16,
+            paddingTop: 12,
+            paddingBottom: 4,
+            backgroundColor: currentColors.cardBackground,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+        },
+        searchRow: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 8,
+        },
+        searchInputContainer: {
+            flex: 1,
+            flexDirection: 'row',
+            alignItems: 'center',
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+            borderRadius: 8,
+            paddingHorizontal: 10,
+            backgroundColor: currentColors.backgroundSecondary,
+        },
+        searchInput: {
+            flex: 1,
+            paddingVertical: 10,
+            paddingHorizontal: 6,
+            fontSize: 15,
+            color: currentColors.textPrimary,
+        },
+        filterButton: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 4,
+            paddingHorizontal: 12,
+            paddingVertical: 10,
+            borderRadius: 8,
+            backgroundColor: currentColors.backgroundTertiary,
+        },
+        filterButtonActive: {
+            backgroundColor: currentColors.primary,
+        },
+        filterButtonText: {
+            fontSize: 14,
+            fontWeight: '500',
+            color: currentColors.textPrimary,
+        },
+        filterButtonTextActive: {
+            color: currentColors.textInverse,
+        },
+        filterLabel: {
+            fontSize: 12,
+            fontWeight: '600',
+            color: currentColors.textSecondary,
+            marginTop: 12,
+            marginBottom: 6,
+        },
+        chipRow: {
+            flexDirection: 'row',
+            gap: 8,
+            paddingBottom: 8,
+        },
+        chip: {
+            paddingHorizontal: 12,
+            paddingVertical: 6,
+            borderRadius: 16,
+            backgroundColor: currentColors.backgroundTertiary,
+        },
+        chipSelected: {
+            backgroundColor: currentColors.primary,
+        },
+        chipText: {
+            fontSize: 13,
+            fontWeight: '500',
+            color: currentColors.textSecondary,
+        },
+        chipTextSelected: {
+            color: currentColors.textInverse,
+        },
+        clearFiltersText: {
+            fontSize: 14,
+            fontWeight: '500',
+            color: currentColors.primary,
+            marginTop: 4,
+            marginBottom: 8,
+        },
+        list: {
+            padding: 16,
+            paddingBottom: 40,
+            gap: 12,
+        },
+        centered: {
+            flex: 1,
+            justifyContent: 'center',
+            alignItems: 'center',
+            padding: 24,
+        },
+        emptyTitle: {
+            fontSize: 16,
+            fontWeight: '600',
+            color: currentColors.textPrimary,
+            marginTop: 12,
+            textAlign: 'center',
+        },
+        emptyText: {
+            fontSize: 14,
+            color: currentColors.textSecondary,
+            marginTop: 4,
+            textAlign: 'center',
+        },
+        footerText: {
+            fontSize: 13,
+            color: currentColors.textTertiary,
+            textAlign: 'center',
+            marginTop: 4,
+        },
+    });
+
+    const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+        <TouchableOpacity
+            key={label}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={onPress}
+        >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+        </TouchableOpacity>
+    );
+
+    const renderFilters = () => (
+        <>
+            <Text style={styles.filterLabel}>Members</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                {LEAGUE_SIZE_OPTIONS.map(option =>
+                    renderChip(option.label, filters.size === option.size, () => updateFilters({ size: option.size })))}
+            </ScrollView>
+
+            {positions.length > 0 && (
+                <>
+                    <Text style={styles.filterLabel}>Required position</Text>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                        {renderChip('Any', filters.position === null, () => updateFilters({ position: null }))}
+                        {positions.map(position =>
+                            renderChip(`P${position}`, filters.position === position, () => updateFilters({ position })))}
+                    </ScrollView>
+                </>
+            )}
+
+            <Text style={styles.filterLabel}>Sprints</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                {SPRINT_FILTER_OPTIONS.map(option =>
+                    renderChip(option.label, filters.sprints === option.sprints, () => updateFilters({ sprints: option.sprints })))}
+            </ScrollView>
+
+            {activeFilterCount > 0 && (
+                <TouchableOpacity onPress={clearFilters}>
+                    <Text style={styles.clearFiltersText}>Clear filters</Text>
+                </TouchableOpacity>
+            )}
+        </>
+    );
+
+    const renderEmpty = () => (
+        <View style={styles.centered}>
+            <Ionicons name="search" size={40} color={currentColors.textTertiary} />
+            <Text style={styles.emptyTitle}>
+                {error ?? (leagues.length === 0 ? 'No public leagues yet' : 'No leagues match your search')}
+            </Text>
+            {!error && leagues.length > 0 && (
+                <Text style={styles.emptyText}>Try another name, season or fewer filters.</Text>
+            )}
+        </View>
+    );
+
+    return (
+        <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+            <View style={styles.header}>
+                <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+                    <Ionicons name="arrow-back" size={24} color={currentColors.primary} />
+                </TouchableOpacity>
+                <View style={styles.headerContent}>
+                    <Text style={styles.title}>Discover Leagues</Text>
+                    <Text style={styles.subtitle}>
+                        {loading ? 'Finding public leagues…' : `${results.length} public league${results.length === 1 ? '' : 's'}`}
+                    </Text>
+                </View>
+            </View>
+
+            <View style={styles.controls}>
+                <View style={styles.searchRow}>
+                    <View style={styles.searchInputContainer}>
+                        <Ionicons name="search" size={18} color={currentColors.textTertiary} />
+                        <TextInput
+                            style={styles.searchInput}
+                            value={filters.query}
+                            onChangeText={query => updateFilters({ query })}
+                            placeholder="Search by league name"
+                            placeholderTextColor={currentColors.textTertiary}
+                            autoCorrect={false}
+                            returnKeyType="search"
+                        />
+                        {filters.query.length > 0 && (
+                            <TouchableOpacity onPress={() => updateFilters({ query: '' })} hitSlop={8}>
+                                <Ionicons name="close-circle" size={18} color={currentColors.textTertiary} />
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                    <TouchableOpacity
+                        style={[styles.filterButton, activeFilterCount > 0 && styles.filterButtonActive]}
+                        onPress={() => setShowFilters(!showFilters)}
+                    >
+                        <Ionicons
+                            name="options-outline"
+                            size={18}
+                            color={activeFilterCount > 0 ? currentColors.textInverse : currentColors.textPrimary}
+                        />
+                        <Text style={[styles.filterButtonText, activeFilterCount > 0 && styles.filterButtonTextActive]}>
+                            {activeFilterCount > 0 ? `Filters (${activeFilterCount})` : 'Filters'}
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+
+                <Text style={styles.filterLabel}>Sort by</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                    {LEAGUE_SORT_OPTIONS.map(option =>
+                        renderChip(option.label, sort === option.sort, () => setSort(option.sort)))}
+                </ScrollView>
+
+                {seasons.length > 0 && (
+                    <>
+                        <Text style={styles.filterLabel}>Season</Text>
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                            {renderChip('All', filters.seasonYear === null, () => updateFilters({ seasonYear: null }))}
+                            {seasons.map(season =>
+                                renderChip(
+                                    String(season.displayLabel || season.year),
+                                    filters.seasonYear === season.year,
+                                    () => updateFilters({ seasonYear: season.year })
+                                ))}
+                        </ScrollView>
+                    </>
+                )}
+
+                {showFilters && renderFilters()}
+            </View>
+
+            {loading ? (
+                <View style={styles.centered}>
+                    <ActivityIndicator size="large" color={currentColors.primary} />
+                </View>
+            ) : (
+                <FlatList
+                    data={visibleResults}
+                    keyExtractor={league => String(league.id)}
+                    renderItem={({ item }) => (
+                        <PublicLeagueCard
+                            league={item}
+                            onJoinRequestChange={updateJoinRequestStatus}
+                            onJoined={() => loadLeagues(true)}
+                        />
+                    )}
+                    contentContainerStyle={visibleResults.length === 0 ? { flexGrow: 1 } : styles.list}
+                    ListEmptyComponent={renderEmpty}
+                    ListFooterComponent={visibleResults.length > 0 ? (
+                        <Text style={styles.footerText}>
+                            {visibleResults.length < results.length
+                                ? `Showing ${visibleResults.length} of ${results.length}`
+                                : 'End of results'}
+                        </Text>
+                    ) : null}
+                    onEndReached={() => {
+                        if (visibleResults.length < results.length) {
+                            setPage(prev => prev + 1);
+                        }
+                    }}
+                    onEndReachedThreshold={0.5}
+                    keyboardShouldPersistTaps="handled"
+                    refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+                />
+            )}
+        </SafeAreaView>
+    );
+};
+
+export default DiscoverLeaguesScreen;
@@ -12,6 +12,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useLocalSearchParams } from 'expo-router';
 import { leaguesAPI } from '../src/services/apiService';
+import { queryCache, queryKeys } from '../src/services/queryCache';
 import { useSimpleToast } from '../src/context/SimpleToastContext';
 import { useTheme } from '../src/context/ThemeContext';
 import { lightColors, darkColors } from '../src/constants/Colors';
@@ -43,7 +44,12 @@ const JoinLeagueScreen = () => {
             setLoading(true);
             const response = await leaguesAPI.joinByCode(joinCode.trim());
             if (response.data.success) {
-                showToast('Successfully joined the league!', 'success', 2000);
+                queryCache.invalidate(queryKeys.allLeagues());
+                if (response.data.data?.status === 'pending') {
+                    showToast('Request sent. You\'ll be notified when it\'s approved.', 'success', 3000);
+                } else {
+                    showToast('Successfully joined the league!', 'success', 2000);
+                }
                 router.back();
             } else {
                 showToast(response.data.message || 'Failed to join league', 'error');
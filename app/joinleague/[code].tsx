@@ -12,14 +12,20 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useLocalSearchParams } from 'expo-router';
 import { leaguesAPI } from '../../src/services/apiService';
+import { queryCache, queryKeys } from '../../src/services/queryCache';
 import { useSimpleToast } from '../../src/context/SimpleToastContext';
+import { InvitePreview, InviteStatus, League } from '../../src/types';
+import { getInviteStatusMessage } from '../../utils/invites';
 
 const JoinLeagueByCodeScreen = () => {
     const { showToast } = useSimpleToast();
     const { code } = useLocalSearchParams<{ code: string }>();
     const [joinCode, setJoinCode] = useState('');
     const [loading, setLoading] = useState(false);
-    const [leagueInfo, setLeagueInfo] = useState<any>(null);
+    const [leagueInfo, setLeagueInfo] = useState<League | null>(null);
+    const [inviteStatus, setInviteStatus] = useState<InviteStatus>('valid');
+    const [expiresAt, setExpiresAt] = useState<string | null>(null);
+    const [requiresApproval, setRequiresApproval] = useState(false);
     const [fetchingLeague, setFetchingLeague] = useState(true);
 
     // Fetch league info when component mounts
@@ -35,6 +41,21 @@ const JoinLeagueByCodeScreen = () => {
     const fetchLeagueInfo = async (joinCode: string) => {
         try {
             setFetchingLeague(true);
+            // Invite lookups also explain why a code can't be used
+            try {
+                const response = await leaguesAPI.getInviteByCode(joinCode);
+                if (response.data.success) {
+                    const preview: InvitePreview = response.data.data;
+                    setLeagueInfo(preview.league);
+                    setInviteStatus(preview.status);
+                    setExpiresAt(preview.expiresAt);
+                    setRequiresApproval(!!preview.requiresApproval);
+                    return;
+                }
+            } catch (error) {
+                console.error('Error fetching invite:', error);
+            }
+
             const response = await leaguesAPI.getLeagueByCode(joinCode);
             if (response.data.success) {
                 setLeagueInfo(response.data.data);
@@ -57,7 +78,12 @@ const JoinLeagueByCodeScreen = () => {
             setLoading(true);
             const response = await leaguesAPI.joinByCode(joinCode.trim());
             if (response.data.success) {
-                showToast('Successfully joined the league!', 'success', 2000);
+                queryCache.invalidate(queryKeys.allLeagues());
+                if (response.data.data?.status === 'pending') {
+                    showToast('Request sent. You\'ll be notified when it\'s approved.', 'success', 3000);
+                } else {
+                    showToast('Successfully joined the league!', 'success', 2000);
+                }
                 // Navigate back to leagues page
                 router.push('/(tabs)/leagues');
             } else {
@@ -65,7 +91,17 @@ const JoinLeagueByCodeScreen = () => {
             }
         } catch (error: any) {
             console.error('Error joining league:', error);
-            showToast('Failed to join league. Please check the join code and try again.', 'error');
+            // The code may have expired or been revoked since the screen loaded
+            const status: InviteStatus | undefined = error.response?.data?.inviteStatus;
+            if (status && status !== 'valid') {
+                setInviteStatus(status);
+                setExpiresAt(error.response?.data?.expiresAt ?? null);
+                return;
+            }
+            showToast(
+                error.response?.data?.message || 'Failed to join league. Please check the join code and try again.',
+                'error'
+            );
         } finally {
             setLoading(false);
         }
@@ -135,17 +171,45 @@ const JoinLeagueByCodeScreen = () => {
                             </View>
 
                             {/* Join Button or Status */}
-                            <TouchableOpacity
-                                style={[styles.joinButton, loading && styles.joinButtonDisabled]}
-                                onPress={joinLeague}
-                                disabled={loading}
-                            >
-                                {loading ? (
-                                    <ActivityIndicator size="small" color="white" />
-                                ) : (
-                                    <Text style={styles.joinButtonText}>Join League</Text>
-                                )}
-                            </TouchableOpacity>
+                            {inviteStatus === 'valid' && leagueInfo?.joinRequestStatus === 'pending' ? (
+                                <View style={[styles.joinButton, styles.joinButtonDisabled]}>
+                                    <Text style={styles.joinButtonText}>Request Pending</Text>
+                                </View>
+                            ) : inviteStatus === 'valid' ? (
+                                <>
+                                    <TouchableOpacity
+                                        style={[styles.joinButton, loading && styles.joinButtonDisabled]}
+                                        onPress={joinLeague}
+                                        disabled={loading}
+                                    >
+                                        {loading ? (
+                                            <ActivityIndicator size="small" color="white" />
+                                        ) : (
+                                            <Text style={styles.joinButtonText}>
+                                                {requiresApproval ? 'Request to Join' : 'Join League'}
+                                            </Text>
+                                        )}
+                                    </TouchableOpacity>
+                                    {requiresApproval && (
+                                        <Text style={styles.approvalHint}>
+                                            A league moderator needs to approve your request before you can make picks.
+                                        </Text>
+                                    )}
+                                </>
+                            ) : (
+                                <View style={styles.statusBox}>
+                                    <Ionicons name="alert-circle" size={24} color="#b45309" />
+                                    <Text style={styles.statusTitle}>
+                                        {getInviteStatusMessage(inviteStatus, expiresAt).title}
+                                    </Text>
+                                    <Text style={styles.statusText}>
+                                        {getInviteStatusMessage(inviteStatus, expiresAt).message}
+                                    </Text>
+                                    <TouchableOpacity onPress={() => router.push('/(tabs)/leagues')}>
+                                        <Text style={styles.statusLink}>Back to Leagues</Text>
+                                    </TouchableOpacity>
+                                </View>
+                            )}
                         </View>
 
                         {/* How It Works Section */}
@@ -311,6 +375,13 @@ const styles = StyleSheet.create({
         shadowRadius: 2,
         elevation: 2,
     },
+    approvalHint: {
+        fontSize: 13,
+        color: '#6b7280',
+        textAlign: 'center',
+        marginTop: -12,
+        marginBottom: 24,
+    },
     joinButtonDisabled: {
         backgroundColor: '#9ca3af',
     },
@@ -319,6 +390,35 @@ const styles = StyleSheet.create({
         fontSize: 16,
         fontWeight: '600',
     },
+    statusBox: {
+        alignItems: 'center',
+        backgroundColor: '#fffbeb',
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 24,
+        borderWidth: 1,
+        borderColor: '#fde68a',
+    },
+    statusTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#92400e',
+        marginTop: 8,
+        textAlign: 'center',
+    },
+    statusText: {
+        fontSize: 14,
+        color: '#b45309',
+        lineHeight: 20,
+        marginTop: 4,
+        textAlign: 'center',
+    },
+    statusLink: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#2563eb',
+        marginTop: 12,
+    },
     howItWorksCard: {
         backgroundColor: 'white',
         borderRadius: 16,
@@ -13,7 +13,17 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { leaguesAPI, picksAPI, activityAPI, chatAPI } from '../../src/services/apiService';
-import { League, LeagueMember, LeagueStanding, LeagueStats, Activity } from '../../src/types';
+import { queryCache, queryKeys } from '../../src/services/queryCache';
+import {
+    League,
+    LeagueMember,
+    LeagueRole,
+    LeagueScoringRules,
+    LeagueStanding,
+    LeagueStats,
+    Activity,
+    JoinRequest,
+} from '../../src/types';
 import { router, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '../../src/context/ThemeContext';
 import { lightColors, darkColors } from '../../src/constants/Colors';
@@ -21,6 +31,19 @@ import { spacing, borderRadius, shadows, textStyles } from '../../utils/styles';
 import { useSimpleToast } from '../../src/context/SimpleToastContext';
 import { useAuth } from '../../src/context/AuthContext';
 import { useChatFeature, usePositionChanges, useMultiPositionPicks } from '../../src/context/FeatureFlagContext';
+import {
+    LEAGUE_ROLE_LABELS,
+    canDeleteLeague,
+    canManageMember,
+    canTransferOwnership,
+    getAssignableRoles,
+    isLeagueModerator,
+    isLeagueOwner,
+} from '../../utils/leaguePermissions';
+import { DEFAULT_SCORING_RULES, describeScoringRules } from '../../utils/scoring';
+import { ScoringRulesModal } from '../../components/ScoringRulesModal';
+import { LeagueInviteModal } from '../../components/LeagueInviteModal';
+import { getInviteUrl } from '../../utils/invites';
 
 const LeagueDetailScreen = () => {
     const { id } = useLocalSearchParams();
@@ -253,7 +276,7 @@ const LeagueDetailScreen = () => {
             justifyContent: 'space-between',
             alignItems: 'center',
             padding: 15,
-            backgroundColor: '#f8f9fa',
+            backgroundColor: currentColors.backgroundSecondary,
             borderRadius: 8,
             marginBottom: 10,
         },
@@ -282,16 +305,48 @@ const LeagueDetailScreen = () => {
         memberName: {
             fontSize: 16,
             fontWeight: 'bold',
-            color: '#333',
+            color: currentColors.textPrimary,
         },
         memberRole: {
             fontSize: 12,
-            color: '#666',
+            color: currentColors.textSecondary,
             marginTop: 2,
         },
         memberDate: {
             fontSize: 12,
-            color: '#999',
+            color: currentColors.textTertiary,
+        },
+        scoringButton: {
+            marginTop: spacing.sm,
+        },
+        joinRequestActions: {
+            flexDirection: 'row',
+            alignItems: 'center',
+        },
+        joinRequestCount: {
+            fontSize: 14,
+            color: currentColors.textSecondary,
+        },
+        manageMemberButton: {
+            marginLeft: spacing.sm,
+            padding: spacing.xs,
+        },
+        memberActionList: {
+            width: '100%',
+            marginBottom: spacing.md,
+        },
+        memberActionButton: {
+            paddingVertical: spacing.md,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+        },
+        memberActionText: {
+            fontSize: 16,
+            color: currentColors.textPrimary,
+            textAlign: 'center',
+        },
+        memberActionDangerText: {
+            color: currentColors.error,
         },
         standingCard: {
             flexDirection: 'row',
@@ -456,6 +511,10 @@ const LeagueDetailScreen = () => {
         bottomSpacing: {
             height: 100, // Account for fixed bottom navigation
         },
+        headerIconButtons: {
+            flexDirection: 'row',
+            gap: spacing.sm,
+        },
         shareIconButton: {
             padding: spacing.xs,
         },
@@ -755,6 +814,17 @@ const LeagueDetailScreen = () => {
     const [loadingStats, setLoadingStats] = useState(false);
     const [unreadCount, setUnreadCount] = useState(0);
 
+    // Scoring rules state
+    const [showScoringRules, setShowScoringRules] = useState(false);
+    const [savingScoringRules, setSavingScoringRules] = useState(false);
+    const [showInvite, setShowInvite] = useState(false);
+
+    // Member management state
+    const [managingMember, setManagingMember] = useState<LeagueMember | null>(null);
+    const [memberActionPending, setMemberActionPending] = useState(false);
+    const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+    const [respondingRequestId, setRespondingRequestId] = useState<number | null>(null);
+
     // Position changes state
     const [editingPositions, setEditingPositions] = useState<number[]>([]);
     const [updatingPositions, setUpdatingPositions] = useState(false);
@@ -765,6 +835,29 @@ const LeagueDetailScreen = () => {
         loadLeagueData();
     }, [leagueId, isChatFeatureEnabled]);
 
+    // Moderators review join requests while the league requires approval
+    const canReviewJoinRequests = isLeagueModerator(league?.userRole) && !!league?.requiresApproval;
+
+    useEffect(() => {
+        if (!canReviewJoinRequests) {
+            setJoinRequests([]);
+            return;
+        }
+        let isActive = true;
+
+        leaguesAPI.getJoinRequests(leagueId)
+            .then(response => {
+                if (isActive && response.data.success) {
+                    setJoinRequests(response.data.data.filter((request: JoinRequest) => request.status === 'pending'));
+                }
+            })
+            .catch(error => console.error('Error loading join requests:', error));
+
+        return () => {
+            isActive = false;
+        };
+    }, [leagueId, canReviewJoinRequests]);
+
     // Validate leagueId after all hooks
     if (!leagueId || isNaN(leagueId)) {
         return (
@@ -879,6 +972,7 @@ const LeagueDetailScreen = () => {
             const response = await leaguesAPI.updateLeague(league.id, editingName.trim());
 
             if (response.data.success) {
+                queryCache.invalidate(queryKeys.allLeagues());
                 setLeague({ ...league, name: editingName.trim() });
                 setEditingName('');
                 setShowSettings(false);
@@ -902,6 +996,7 @@ const LeagueDetailScreen = () => {
             const response = await leaguesAPI.updateLeague(league.id, league.name, isPublic);
 
             if (response.data.success) {
+                queryCache.invalidate(queryKeys.allLeagues());
                 setLeague({ ...league, isPublic });
                 Alert.alert('Success', `League is now ${isPublic ? 'public' : 'private'}`);
             } else {
@@ -923,6 +1018,7 @@ const LeagueDetailScreen = () => {
             const response = await leaguesAPI.deleteLeague(league.id);
 
             if (response.data.success) {
+                queryCache.invalidate(queryKeys.allLeagues());
                 Alert.alert('Success', 'League deleted successfully', [
                     { text: 'OK', onPress: () => router.back() }
                 ]);
@@ -946,6 +1042,7 @@ const LeagueDetailScreen = () => {
             const response = await leaguesAPI.leaveLeague(league.id);
 
             if (response.data.success) {
+                queryCache.invalidate(queryKeys.allLeagues());
                 Alert.alert('Success', 'You have left the league', [
                     { text: 'OK', onPress: () => router.back() }
                 ]);
@@ -963,6 +1060,7 @@ const LeagueDetailScreen = () => {
 
     const loadLeagueMembers = async () => {
         try {
+            setLoadingMembers(true);
             const response = await leaguesAPI.getLeagueMembers(leagueId);
             if (response.data.success) {
                 setMembers(response.data.data);
@@ -972,9 +1070,182 @@ const LeagueDetailScreen = () => {
             if (error.response?.status === 429) {
                 Alert.alert('Rate Limited', 'Too many requests. Please wait a moment and try again.');
             }
+        } finally {
+            setLoadingMembers(false);
         }
     };
 
+    const updateJoinApproval = async (requiresApproval: boolean) => {
+        if (!league) return;
+
+        try {
+            setUpdating(true);
+            const response = await leaguesAPI.updateJoinApproval(league.id, requiresApproval);
+
+            if (response.data.success) {
+                queryCache.invalidate(queryKeys.allLeagues());
+                setLeague({ ...league, requiresApproval });
+                Alert.alert(
+                    'Success',
+                    requiresApproval ? 'New members now need approval to join' : 'Anyone can now join this league'
+                );
+            } else {
+                Alert.alert('Error', response.data.message || 'Failed to update join approval');
+            }
+        } catch (error: any) {
+            console.error('Error updating join approval:', error);
+            Alert.alert('Error', 'Failed to update join approval. Please try again.');
+        } finally {
+            setUpdating(false);
+        }
+    };
+
+    const respondToJoinRequest = async (request: JoinRequest, approve: boolean) => {
+        if (!league) return;
+
+        try {
+            setRespondingRequestId(request.id);
+            const response = approve
+                ? await leaguesAPI.approveJoinRequest(league.id, request.id)
+                : await leaguesAPI.denyJoinRequest(league.id, request.id);
+
+            if (response.data.success) {
+                setJoinRequests(prev => prev.filter(r => r.id !== request.id));
+                if (approve) {
+                    queryCache.invalidate(queryKeys.allLeagues());
+                    queryCache.invalidate(queryKeys.leagueMembers(league.id));
+                    setLeague({ ...league, memberCount: (league.memberCount || 1) + 1 });
+                    if (showMembers) {
+                        loadLeagueMembers();
+                    }
+                }
+                showToast(`${request.userName} was ${approve ? 'added to the league' : 'declined'}`, 'success');
+            } else {
+                Alert.alert('Error', response.data.message || `Failed to ${approve ? 'approve' : 'decline'} request`);
+            }
+        } catch (error: any) {
+            console.error(`Error ${approve ? 'approving' : 'declining'} join request:`, error);
+            Alert.alert(
+                'Error',
+                error.response?.data?.message || `Failed to ${approve ? 'approve' : 'decline'} request. Please try again.`
+            );
+        } finally {
+            setRespondingRequestId(null);
+        }
+    };
+
+    const toggleMembers = () => {
+        if (!showMembers) {
+            loadLeagueMembers();
+        }
+        setShowMembers(!showMembers);
+    };
+
+    const changeMemberRole = async (member: LeagueMember, role: LeagueRole) => {
+        if (!league) return;
+
+        try {
+            setMemberActionPending(true);
+            const response = await leaguesAPI.updateMemberRole(league.id, member.userId, role);
+
+            if (response.data.success) {
+                queryCache.invalidate(queryKeys.leagueMembers(league.id));
+                setMembers(prev => prev.map(m => (m.userId === member.userId ? { ...m, userRole: role } : m)));
+                setManagingMember(null);
+                showToast(`${member.userName} is now ${LEAGUE_ROLE_LABELS[role].toLowerCase()}`, 'success');
+            } else {
+                Alert.alert('Error', response.data.message || 'Failed to update role');
+            }
+        } catch (error: any) {
+            console.error('Error updating member role:', error);
+            Alert.alert('Error', error.response?.data?.message || 'Failed to update role. Please try again.');
+        } finally {
+            setMemberActionPending(false);
+        }
+    };
+
+    // Banned members are removed too, and can't rejoin with the join code
+    const removeMember = async (member: LeagueMember, ban: boolean) => {
+        if (!league) return;
+
+        try {
+            setMemberActionPending(true);
+            const response = ban
+                ? await leaguesAPI.banMember(league.id, member.userId)
+                : await leaguesAPI.removeMember(league.id, member.userId);
+
+            if (response.data.success) {
+                queryCache.invalidate(queryKeys.allLeagues());
+                queryCache.invalidate(queryKeys.leagueMembers(league.id));
+                setMembers(prev => prev.filter(m => m.userId !== member.userId));
+                setLeague({ ...league, memberCount: Math.max((league.memberCount || 1) - 1, 1) });
+                setManagingMember(null);
+                showToast(`${member.userName} was ${ban ? 'banned' : 'removed'}`, 'success');
+            } else {
+                Alert.alert('Error', response.data.message || `Failed to ${ban ? 'ban' : 'remove'} member`);
+            }
+        } catch (error: any) {
+            console.error(`Error ${ban ? 'banning' : 'removing'} member:`, error);
+            Alert.alert('Error', error.response?.data?.message || `Failed to ${ban ? 'ban' : 'remove'} member. Please try again.`);
+        } finally {
+            setMemberActionPending(false);
+        }
+    };
+
+    // The current owner stays on as a co-owner
+    const transferOwnership = async (member: LeagueMember) => {
+        if (!league) return;
+
+        try {
+            setMemberActionPending(true);
+            const response = await leaguesAPI.transferOwnership(league.id, member.userId);
+
+            if (response.data.success) {
+                queryCache.invalidate(queryKeys.allLeagues());
+                queryCache.invalidate(queryKeys.leagueMembers(league.id));
+                setMembers(prev => prev.map(m => {
+                    if (m.userId === member.userId) return { ...m, userRole: 'Owner' };
+                    if (m.userId === user?.id) return { ...m, userRole: 'CoOwner' };
+                    return m;
+                }));
+                setLeague({ ...league, ownerId: member.userId, userRole: 'CoOwner' });
+                setManagingMember(null);
+                Alert.alert('Success', `${member.userName} now owns this league`);
+            } else {
+                Alert.alert('Error', response.data.message || 'Failed to transfer ownership');
+            }
+        } catch (error: any) {
+            console.error('Error transferring ownership:', error);
+            Alert.alert('Error', error.response?.data?.message || 'Failed to transfer ownership. Please try again.');
+        } finally {
+            setMemberActionPending(false);
+        }
+    };
+
+    const confirmRemoveMember = (member: LeagueMember, ban: boolean) => {
+        Alert.alert(
+            ban ? 'Ban Member' : 'Remove Member',
+            ban
+                ? `Remove ${member.userName} from the league and stop them rejoining?`
+                : `Remove ${member.userName} from the league? They can rejoin with the join code.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: ban ? 'Ban' : 'Remove', style: 'destructive', onPress: () => removeMember(member, ban) },
+            ]
+        );
+    };
+
+    const confirmTransferOwnership = (member: LeagueMember) => {
+        Alert.alert(
+            'Transfer Ownership',
+            `Make ${member.userName} the owner of this league? You will become a co-owner and can no longer delete the league.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Transfer', style: 'destructive', onPress: () => transferOwnership(member) },
+            ]
+        );
+    };
+
     const updateLeaguePositions = async (forceChange = false) => {
         if (!league || !editingPositions.length) return;
 
@@ -983,6 +1254,7 @@ const LeagueDetailScreen = () => {
             const response = await picksAPI.updateLeaguePositions(league.id, editingPositions);
 
             if (response.data.success) {
+                queryCache.invalidate(queryKeys.allLeagues());
                 setLeague({ ...league, requiredPositions: editingPositions });
                 setEditingPositions([]);
                 setShowSettings(false);
@@ -1006,6 +1278,29 @@ const LeagueDetailScreen = () => {
         }
     };
 
+    const saveScoringRules = async (scoringRules: LeagueScoringRules) => {
+        if (!league) return;
+
+        try {
+            setSavingScoringRules(true);
+            const response = await leaguesAPI.updateScoringRules(league.id, scoringRules);
+
+            if (response.data.success) {
+                queryCache.invalidate(queryKeys.allLeagues());
+                setLeague({ ...league, scoringRules });
+                setShowScoringRules(false);
+                showToast('Scoring rules updated', 'success');
+            } else {
+                Alert.alert('Error', response.data.message || 'Failed to update scoring rules');
+            }
+        } catch (error: any) {
+            console.error('Error updating scoring rules:', error);
+            Alert.alert('Error', error.response?.data?.message || 'Failed to update scoring rules. Please try again.');
+        } finally {
+            setSavingScoringRules(false);
+        }
+    };
+
     const handlePositionToggle = (position: number) => {
         setEditingPositions(prev => {
             if (prev.includes(position)) {
@@ -1019,7 +1314,7 @@ const LeagueDetailScreen = () => {
 
     const shareLeague = async () => {
         if (league?.joinCode) {
-            const shareUrl = `https://finalpoint.app/joinleague/${league.joinCode}`;
+            const shareUrl = getInviteUrl(league.joinCode);
             try {
                 await Clipboard.setString(shareUrl);
                 showToast('League link copied to clipboard!', 'success');
@@ -1183,7 +1478,7 @@ const LeagueDetailScreen = () => {
                     <TouchableOpacity
                         style={styles.settingsButton}
                         onPress={() => {
-                            if (league?.userRole === 'Owner') {
+                            if (isLeagueOwner(league?.userRole)) {
                                 setEditingName(league.name);
                                 setEditingPositions(league.requiredPositions || []);
                             }
@@ -1310,9 +1605,16 @@ const LeagueDetailScreen = () => {
                     <View style={styles.sectionHeader}>
                         <Text style={styles.sectionTitle}>League Information</Text>
                         {user && (
-                            <TouchableOpacity style={styles.shareIconButton} onPress={shareLeague}>
-                                <Ionicons name="share-outline" size={20} color={currentColors.textSecondary} />
-                            </TouchableOpacity>
+                            <View style={styles.headerIconButtons}>
+                                <TouchableOpacity style={styles.shareIconButton} onPress={() => setShowInvite(true)}>
+                                    <Ionicons name="qr-code-outline" size={20} color={currentColors.textSecondary} />
+                                </TouchableOpacity>
+                                {league.joinCode && (
+                                    <TouchableOpacity style={styles.shareIconButton} onPress={shareLeague}>
+                                        <Ionicons name="share-outline" size={20} color={currentColors.textSecondary} />
+                                    </TouchableOpacity>
+                                )}
+                            </View>
                         )}
                     </View>
                     <View style={styles.infoContainer}>
@@ -1329,7 +1631,9 @@ const LeagueDetailScreen = () => {
                         {user ? (
                             <View style={styles.infoRow}>
                                 <Text style={styles.infoLabel}>Your Role</Text>
-                                <Text style={styles.infoValue}>{league.userRole}</Text>
+                                <Text style={styles.infoValue}>
+                                    {league.userRole && LEAGUE_ROLE_LABELS[league.userRole]}
+                                </Text>
                             </View>
                         ) : (
                             <View style={styles.infoRow}>
@@ -1457,11 +1761,72 @@ const LeagueDetailScreen = () => {
                     </View>
                 </View>
 
+                {/* Join Requests - Moderators, while approval is required */}
+                {user && joinRequests.length > 0 && (
+                    <View style={styles.section}>
+                        <View style={styles.sectionHeader}>
+                            <Text style={styles.sectionTitle}>Join Requests</Text>
+                            <Text style={styles.joinRequestCount}>{joinRequests.length} pending</Text>
+                        </View>
+                        {joinRequests.map((request) => (
+                            <View key={request.id} style={styles.memberCard}>
+                                <View style={styles.memberInfo}>
+                                    <View style={styles.memberAvatar}>
+                                        <Text style={styles.memberInitial}>
+                                            {request.userName.charAt(0).toUpperCase()}
+                                        </Text>
+                                    </View>
+                                    <View style={styles.memberDetails}>
+                                        <Text style={styles.memberName}>{request.userName}</Text>
+                                        <Text style={styles.memberRole}>
+                                            Requested {new Date(request.createdAt).toLocaleDateString()}
+                                        </Text>
+                                    </View>
+                                </View>
+                                {respondingRequestId === request.id ? (
+                                    <ActivityIndicator size="small" color={currentColors.primary} />
+                                ) : (
+                                    <View style={styles.joinRequestActions}>
+                                        <TouchableOpacity
+                                            style={styles.manageMemberButton}
+                                            onPress={() => respondToJoinRequest(request, false)}
+                                            disabled={respondingRequestId !== null}
+                                            hitSlop={8}
+                                        >
+                                            <Ionicons name="close-circle-outline" size={26} color={currentColors.error} />
+                                        </TouchableOpacity>
+                                        <TouchableOpacity
+                                            style={styles.manageMemberButton}
+                                            onPress={() => respondToJoinRequest(request, true)}
+                                            disabled={respondingRequestId !== null}
+                                            hitSlop={8}
+                                        >
+                                            <Ionicons name="checkmark-circle" size={26} color={currentColors.success} />
+                                        </TouchableOpacity>
+                                    </View>
+                                )}
+                            </View>
+                        ))}
+                    </View>
+                )}
+
                 {/* League Members */}
-                {showMembers && (
+                {user && (
                     <View style={styles.section}>
-                        <Text style={styles.sectionTitle}>League Members</Text>
-                        {members.length > 0 ? (
+                        <View style={styles.sectionHeader}>
+                            <Text style={styles.sectionTitle}>League Members</Text>
+                            <TouchableOpacity style={styles.headerButton} onPress={toggleMembers}>
+                                <Ionicons
+                                    name={showMembers ? 'chevron-up' : 'people-outline'}
+                                    size={14}
+                                    color={currentColors.textSecondary}
+                                />
+                                <Text style={styles.headerButtonText}>{showMembers ? 'Hide' : 'Show'}</Text>
+                            </TouchableOpacity>
+                        </View>
+                        {showMembers && (loadingMembers && members.length === 0 ? (
+                            <ActivityIndicator size="small" color={currentColors.primary} />
+                        ) : members.length > 0 ? (
                             members.map((member) => (
                                 <View key={member.id} style={styles.memberCard}>
                                     <View style={styles.memberInfo}>
@@ -1472,17 +1837,26 @@ const LeagueDetailScreen = () => {
                                         </View>
                                         <View style={styles.memberDetails}>
                                             <Text style={styles.memberName}>{member.userName}</Text>
-                                            <Text style={styles.memberRole}>{member.userRole}</Text>
+                                            <Text style={styles.memberRole}>{LEAGUE_ROLE_LABELS[member.userRole]}</Text>
                                         </View>
                                     </View>
                                     <Text style={styles.memberDate}>
                                         {new Date(member.joinedAt).toLocaleDateString()}
                                     </Text>
+                                    {canManageMember(league.userRole, member, user.id) && (
+                                        <TouchableOpacity
+                                            style={styles.manageMemberButton}
+                                            onPress={() => setManagingMember(member)}
+                                            hitSlop={8}
+                                        >
+                                            <Ionicons name="ellipsis-horizontal" size={20} color={currentColors.textSecondary} />
+                                        </TouchableOpacity>
+                                    )}
                                 </View>
                             ))
                         ) : (
                             <Text style={styles.emptyText}>No members found</Text>
-                        )}
+                        ))}
                     </View>
                 )}
 
@@ -1515,9 +1889,9 @@ const LeagueDetailScreen = () => {
                             showsVerticalScrollIndicator={false}
                             contentContainerStyle={styles.modalContentContainer}
                         >
-                            {league?.userRole === 'Owner' ? (
+                            {isLeagueOwner(league?.userRole) && (
                                 <>
-                                    {/* Update League Name - Owner Only */}
+                                    {/* Update League Name - Owners and co-owners */}
                                     <View style={styles.settingSection}>
                                         <Text style={styles.settingLabel}>League Name</Text>
                                         <TextInput
@@ -1541,7 +1915,7 @@ const LeagueDetailScreen = () => {
                                         </TouchableOpacity>
                                     </View>
 
-                                    {/* League Visibility Toggle - Owner Only */}
+                                    {/* League Visibility Toggle - Owners and co-owners */}
                                     <View style={styles.settingSection}>
                                         <Text style={styles.settingLabel}>League Visibility</Text>
                                         <View style={styles.visibilityOptions}>
@@ -1596,7 +1970,64 @@ const LeagueDetailScreen = () => {
                                         </View>
                                     </View>
 
-                                    {/* League Position Requirements - Owner Only */}
+                                    {/* Join Approval - Owners and co-owners, public leagues only */}
+                                    {league.isPublic && (
+                                        <View style={styles.settingSection}>
+                                            <Text style={styles.settingLabel}>Joining</Text>
+                                            <View style={styles.visibilityOptions}>
+                                                <TouchableOpacity
+                                                    style={[
+                                                        styles.visibilityOption,
+                                                        !league.requiresApproval && styles.visibilityOptionSelected
+                                                    ]}
+                                                    onPress={() => updateJoinApproval(false)}
+                                                    disabled={updating}
+                                                >
+                                                    <Ionicons
+                                                        name="enter-outline"
+                                                        size={20}
+                                                        color={!league.requiresApproval ? currentColors.textInverse : currentColors.textSecondary}
+                                                    />
+                                                    <Text style={[
+                                                        styles.visibilityOptionText,
+                                                        !league.requiresApproval && styles.visibilityOptionTextSelected
+                                                    ]}>
+                                                        Open
+                                                    </Text>
+                                                </TouchableOpacity>
+                                                <TouchableOpacity
+                                                    style={[
+                                                        styles.visibilityOption,
+                                                        league.requiresApproval && styles.visibilityOptionSelected
+                                                    ]}
+                                                    onPress={() => updateJoinApproval(true)}
+                                                    disabled={updating}
+                                                >
+                                                    <Ionicons
+                                                        name="shield-checkmark-outline"
+                                                        size={20}
+                                                        color={league.requiresApproval ? currentColors.textInverse : currentColors.textSecondary}
+                                                    />
+                                                    <Text style={[
+                                                        styles.visibilityOptionText,
+                                                        league.requiresApproval && styles.visibilityOptionTextSelected
+                                                    ]}>
+                                                        Approval
+                                                    </Text>
+                                                </TouchableOpacity>
+                                            </View>
+                                            <View style={styles.visibilityDescriptionContainer}>
+                                                <Text style={styles.settingDescription}>
+                                                    {league.requiresApproval
+                                                        ? 'Joining sends a request that an owner or admin approves. Invites skip approval.'
+                                                        : 'Anyone who finds the league can join straight away.'
+                                                    }
+                                                </Text>
+                                            </View>
+                                        </View>
+                                    )}
+
+                                    {/* League Position Requirements - Owners and co-owners */}
                                     {isPositionChangesEnabled && (
                                         <View style={styles.settingSection}>
                                             <Text style={styles.settingLabel}>Position Requirements</Text>
@@ -1651,11 +2082,31 @@ const LeagueDetailScreen = () => {
                                         </View>
                                     )}
 
+
+                                    {/* Scoring Rules - Owners and co-owners */}
+                                    <View style={styles.settingSection}>
+                                        <Text style={styles.settingLabel}>Scoring</Text>
+                                        <Text style={styles.settingDescription}>
+                                            {describeScoringRules(league.scoringRules ?? DEFAULT_SCORING_RULES)}
+                                        </Text>
+                                        <TouchableOpacity
+                                            style={[styles.secondaryButton, styles.scoringButton]}
+                                            onPress={() => setShowScoringRules(true)}
+                                        >
+                                            <Text style={styles.secondaryButtonText}>Edit Scoring</Text>
+                                        </TouchableOpacity>
+                                    </View>
+                                </>
+                            )}
+
+                            {canDeleteLeague(league?.userRole) ? (
+                                <>
                                     {/* Delete League - Owner Only */}
                                     <View style={styles.settingSection}>
                                         <Text style={styles.dangerLabel}>Danger Zone</Text>
                                         <Text style={styles.settingDescription}>
                                             Once you delete a league, there is no going back. Please be certain.
+                                            To leave instead, transfer ownership from the members list first.
                                         </Text>
                                         <TouchableOpacity
                                             style={styles.dangerButton}
@@ -1667,7 +2118,7 @@ const LeagueDetailScreen = () => {
                                 </>
                             ) : (
                                 <>
-                                    {/* Leave League - Member Only */}
+                                    {/* Leave League - everyone but the owner */}
                                     <View style={styles.settingSection}>
                                         <Text style={styles.settingLabel}>Leave League</Text>
                                         <Text style={styles.settingDescription}>
@@ -1702,6 +2153,87 @@ const LeagueDetailScreen = () => {
                 </View>
             )}
 
+            <LeagueInviteModal
+                visible={showInvite}
+                leagueId={league.id}
+                leagueName={league.name}
+                joinCode={league.joinCode}
+                canManage={isLeagueOwner(league.userRole)}
+                onClose={() => setShowInvite(false)}
+                onJoinCodeChange={joinCode => {
+                    queryCache.invalidate(queryKeys.allLeagues());
+                    setLeague({ ...league, joinCode });
+                }}
+            />
+
+            <ScoringRulesModal
+                visible={showScoringRules}
+                leagueId={league.id}
+                seasonYear={league.seasonYear}
+                rules={league.scoringRules ?? DEFAULT_SCORING_RULES}
+                onClose={() => setShowScoringRules(false)}
+                onSave={saveScoringRules}
+                saving={savingScoringRules}
+            />
+
+            {/* Member Actions Modal */}
+            {managingMember && (
+                <View style={styles.modalOverlay}>
+                    <View style={styles.confirmationModal}>
+                        <Text style={styles.confirmationTitle}>{managingMember.userName}</Text>
+                        <Text style={styles.confirmationMessage}>
+                            {LEAGUE_ROLE_LABELS[managingMember.userRole]} · Joined {new Date(managingMember.joinedAt).toLocaleDateString()}
+                        </Text>
+                        <View style={styles.memberActionList}>
+                            {getAssignableRoles(league.userRole)
+                                .filter(role => role !== managingMember.userRole)
+                                .map(role => (
+                                    <TouchableOpacity
+                                        key={role}
+                                        style={styles.memberActionButton}
+                                        onPress={() => changeMemberRole(managingMember, role)}
+                                        disabled={memberActionPending}
+                                    >
+                                        <Text style={styles.memberActionText}>
+                                            {role === 'Member' ? 'Remove role' : `Make ${LEAGUE_ROLE_LABELS[role].toLowerCase()}`}
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            {canTransferOwnership(league.userRole) && (
+                                <TouchableOpacity
+                                    style={styles.memberActionButton}
+                                    onPress={() => confirmTransferOwnership(managingMember)}
+                                    disabled={memberActionPending}
+                                >
+                                    <Text style={styles.memberActionText}>Transfer ownership</Text>
+                                </TouchableOpacity>
+                            )}
+                            <TouchableOpacity
+                                style={styles.memberActionButton}
+                                onPress={() => confirmRemoveMember(managingMember, false)}
+                                disabled={memberActionPending}
+                            >
+                                <Text style={[styles.memberActionText, styles.memberActionDangerText]}>Remove from league</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={styles.memberActionButton}
+                                onPress={() => confirmRemoveMember(managingMember, true)}
+                                disabled={memberActionPending}
+                            >
+                                <Text style={[styles.memberActionText, styles.memberActionDangerText]}>Ban from league</Text>
+                            </TouchableOpacity>
+                        </View>
+                        {memberActionPending ? (
+                            <ActivityIndicator size="small" color={currentColors.primary} />
+                        ) : (
+                            <TouchableOpacity style={styles.secondaryButton} onPress={() => setManagingMember(null)}>
+                                <Text style={styles.secondaryButtonText}>Cancel</Text>
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                </View>
+            )}
+
             {/* Delete Confirmation Modal */}
             {showDeleteConfirm && (
                 <View style={styles.modalOverlay}>
@@ -21,6 +21,7 @@ import { createThemeStyles } from '../src/styles/universalStyles';
 import { spacing, borderRadius } from '../utils/styles';
 import { router } from 'expo-router';
 import { shouldEnableNotifications } from '../utils/environment';
+import { pickReminderScheduler, REMINDER_OFFSET_OPTIONS, formatReminderOffset } from '../src/services/pickReminderScheduler';
 
 const NotificationSettingsScreen = () => {
   const { user } = useAuth();
@@ -58,11 +59,22 @@ const NotificationSettingsScreen = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>([]);
 
   useEffect(() => {
     loadPreferences();
+    pickReminderScheduler.getOffsets().then(setReminderOffsets);
   }, []);
 
+  // Device reminders are stored locally, so they apply immediately rather than on save
+  const handleReminderOffsetChange = (offset: number, enabled: boolean) => {
+    const updated = enabled
+      ? [...reminderOffsets, offset]
+      : reminderOffsets.filter(existing => existing !== offset);
+    setReminderOffsets(updated);
+    pickReminderScheduler.setOffsets(updated);
+  };
+
   const loadPreferences = async () => {
     try {
       setIsLoading(true);
@@ -517,6 +529,30 @@ const NotificationSettingsScreen = () => {
             </View>
           </View>
 
+          {/* Local pick-lock reminders */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Reminders on This Device</Text>
+
+            {REMINDER_OFFSET_OPTIONS.map((offset, index) => (
+              <View
+                key={offset}
+                style={[styles.preferenceRow, index === REMINDER_OFFSET_OPTIONS.length - 1 && styles.preferenceRowLast]}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.preferenceLabel}>{formatReminderOffset(offset)} before lock</Text>
+                  <Text style={styles.preferenceDescription}>Only sent while you still have picks to make</Text>
+                </View>
+                <Switch
+                  value={reminderOffsets.includes(offset)}
+                  onValueChange={(value) => handleReminderOffsetChange(offset, value)}
+                  trackColor={{ false: currentColors.borderLight, true: currentColors.primary + '40' }}
+                  thumbColor={reminderOffsets.includes(offset) ? currentColors.primary : currentColors.borderMedium}
+                  disabled={!notificationsSupported}
+                />
+              </View>
+            ))}
+          </View>
+
           {/* Save Button */}
           <TouchableOpacity
             style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
@@ -15,31 +15,7 @@ import { useTheme } from '../src/context/ThemeContext';
 import { useAuth } from '../src/context/AuthContext';
 import { platformStandingsAPI, seasonsAPI } from '../src/services/apiService';
 import { lightColors, darkColors } from '../src/constants/Colors';
-
-interface Threshold {
-    label: string;
-    percentile: number;
-    accuracy: number;
-}
-
-interface UserLeague {
-    leagueId: number;
-    leagueName: string;
-    totalPoints: number;
-    accuracy: number;
-    platformRank: number;
-    platformPercentile: number | null;
-}
-
-interface PlatformStandings {
-    seasonYear: number;
-    totalPlayers: number;
-    thresholds: Threshold[];
-    userRank: number | null;
-    userPercentile: number | null;
-    userTotalPoints: number | null;
-    userLeagues: UserLeague[];
-}
+import { PlatformStandings } from '../src/types';
 
 const PlatformStandingsScreen = () => {
     const { resolvedTheme } = useTheme();
@@ -15,17 +15,9 @@ import { useTheme } from '../src/context/ThemeContext';
 import { useSimpleToast } from '../src/context/SimpleToastContext';
 import { statsAPI, seasonsAPI } from '../src/services/apiService';
 import { lightColors, darkColors } from '../src/constants/Colors';
+import { DriverPositionStats } from '../src/types';
 // import { createThemeStyles } from '../src/styles/universalStyles';
 
-interface DriverPositionStats {
-    driverId: number;
-    driverName: string;
-    driverTeam: string;
-    timesInPosition: number;
-    totalRaces: number;
-    percentageInPosition: number;
-}
-
 const StatsScreen = () => {
     const { resolvedTheme } = useTheme();
     const { showToast } = useSimpleToast();
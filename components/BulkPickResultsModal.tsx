@@ -0,0 +1,195 @@
+import React from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+    ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../src/context/ThemeContext';
+import { lightColors, darkColors } from '../src/constants/Colors';
+import { LeaguePickResult } from '../src/services/bulkPicks';
+
+interface BulkPickResultsModalProps {
+    visible: boolean;
+    onClose: () => void;
+    eventType: 'race' | 'sprint';
+    results: LeaguePickResult[];
+    running: boolean;
+}
+
+export const BulkPickResultsModal: React.FC<BulkPickResultsModalProps> = ({
+    visible,
+    onClose,
+    eventType,
+    results,
+    running,
+}) => {
+    const { resolvedTheme } = useTheme();
+
+    // Get current theme colors
+    const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+    // Create theme-aware styles
+    const styles = StyleSheet.create({
+        container: {
+            flex: 1,
+            backgroundColor: currentColors.backgroundPrimary,
+        },
+        header: {
+            backgroundColor: currentColors.cardBackground,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+            paddingHorizontal: 16,
+            paddingVertical: 16,
+        },
+        headerContent: {
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+        },
+        headerTitle: {
+            fontSize: 20,
+            fontWeight: 'bold',
+            color: currentColors.textPrimary,
+            flex: 1,
+        },
+        closeButton: {
+            width: 32,
+            height: 32,
+            borderRadius: 16,
+            backgroundColor: currentColors.borderLight,
+            justifyContent: 'center',
+            alignItems: 'center',
+        },
+        closeButtonText: {
+            fontSize: 16,
+            color: currentColors.textSecondary,
+            fontWeight: 'bold',
+        },
+        content: {
+            padding: 16,
+        },
+        runningText: {
+            fontSize: 14,
+            color: currentColors.textSecondary,
+            textAlign: 'center',
+            marginTop: 12,
+        },
+        resultRow: {
+            flexDirection: 'row',
+            alignItems: 'flex-start',
+            backgroundColor: currentColors.cardBackground,
+            borderRadius: 8,
+            padding: 12,
+            marginBottom: 8,
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+        },
+        resultContent: {
+            flex: 1,
+            marginLeft: 10,
+        },
+        leagueName: {
+            fontSize: 15,
+            fontWeight: '600',
+            color: currentColors.textPrimary,
+        },
+        resultDetail: {
+            fontSize: 12,
+            color: currentColors.textSecondary,
+            marginTop: 2,
+        },
+        resultError: {
+            fontSize: 12,
+            color: currentColors.error,
+            marginTop: 2,
+        },
+    });
+
+    const getStatusIcon = (result: LeaguePickResult) => {
+        switch (result.status) {
+            case 'submitted':
+                return <Ionicons name="checkmark-circle" size={20} color={currentColors.success} />;
+            case 'queued':
+                return <Ionicons name="time-outline" size={20} color={currentColors.warning} />;
+            case 'failed':
+                return <Ionicons name="close-circle" size={20} color={currentColors.error} />;
+            default:
+                return <Ionicons name="remove-circle-outline" size={20} color={currentColors.textTertiary} />;
+        }
+    };
+
+    const getStatusText = (result: LeaguePickResult) => {
+        switch (result.status) {
+            case 'submitted':
+                return `${result.submitted.length} pick${result.submitted.length === 1 ? '' : 's'} submitted`;
+            case 'queued':
+                return `${result.submitted.length} pick${result.submitted.length === 1 ? '' : 's'} waiting to be submitted`;
+            case 'failed':
+                return 'Not submitted';
+            default:
+                return 'None of these positions are scored in this league';
+        }
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            presentationStyle="pageSheet"
+            onRequestClose={onClose}
+        >
+            <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+                {/* Header */}
+                <View style={styles.header}>
+                    <View style={styles.headerContent}>
+                        <Text style={styles.headerTitle}>
+                            {eventType === 'sprint' ? 'Sprint' : 'Race'} Picks Across Leagues
+                        </Text>
+                        <TouchableOpacity
+                            style={styles.closeButton}
+                            onPress={onClose}
+                            disabled={running}
+                        >
+                            <Text style={styles.closeButtonText}>✕</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+
+                <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+                    {running ? (
+                        <>
+                            <ActivityIndicator size="large" color={currentColors.primary} />
+                            <Text style={styles.runningText}>Submitting picks to your leagues...</Text>
+                        </>
+                    ) : (
+                        results.map(result => (
+                            <View key={result.leagueId} style={styles.resultRow}>
+                                {getStatusIcon(result)}
+                                <View style={styles.resultContent}>
+                                    <Text style={styles.leagueName}>{result.leagueName}</Text>
+                                    <Text style={styles.resultDetail}>{getStatusText(result)}</Text>
+                                    {result.error && (
+                                        <Text style={styles.resultError}>{result.error}</Text>
+                                    )}
+                                    {result.skipped.length > 0 && (
+                                        <Text style={styles.resultDetail}>
+                                            Skipped {result.skipped.map(skipped => `P${skipped.position}`).join(', ')}
+                                        </Text>
+                                    )}
+                                </View>
+                            </View>
+                        ))
+                    )}
+                </ScrollView>
+            </SafeAreaView>
+        </Modal>
+    );
+};
+
+export default BulkPickResultsModal;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../src/context/ThemeContext';
+import { lightColors, darkColors } from '../src/constants/Colors';
+import { ChatChannel } from '../src/types/chat';
+
+const channelIcons: Record<ChatChannel['type'], React.ComponentProps<typeof Ionicons>['name']> = {
+    general: 'chatbubbles-outline',
+    'race-discussion': 'flag-outline',
+    picks: 'list-outline',
+    admin: 'shield-outline',
+};
+
+interface ChatChannelBarProps {
+    channels: ChatChannel[];
+    selectedChannelId: string;
+    onSelect: (channel: ChatChannel) => void;
+    getUnreadCount: (channelId: string) => number;
+    onCreatePress?: () => void; // Omit to hide the create button
+}
+
+/**
+ * Horizontal list of a league's chat channels with unread badges
+ */
+export const ChatChannelBar: React.FC<ChatChannelBarProps> = ({
+    channels,
+    selectedChannelId,
+    onSelect,
+    getUnreadCount,
+    onCreatePress,
+}) => {
+    const { resolvedTheme } = useTheme();
+
+    // Get current theme colors
+    const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+    // Create theme-aware styles
+    const styles = StyleSheet.create({
+        container: {
+            backgroundColor: currentColors.cardBackground,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+        },
+        content: {
+            paddingHorizontal: 12,
+            paddingVertical: 8,
+            gap: 8,
+        },
+        chip: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            paddingHorizontal: 12,
+            paddingVertical: 6,
+            borderRadius: 16,
+            borderWidth: 1,
+            borderColor: currentColors.borderMedium,
+            backgroundColor: currentColors.backgroundSecondary,
+        },
+        chipSelected: {
+            backgroundColor: currentColors.buttonPrimary,
+            borderColor: currentColors.buttonPrimary,
+        },
+        chipText: {
+            fontSize: 14,
+            color: currentColors.textPrimary,
+            marginLeft: 6,
+        },
+        chipTextSelected: {
+            color: 'white',
+            fontWeight: '600',
+        },
+        badge: {
+            minWidth: 18,
+            height: 18,
+            borderRadius: 9,
+            paddingHorizontal: 5,
+            marginLeft: 6,
+            backgroundColor: currentColors.error,
+            justifyContent: 'center',
+            alignItems: 'center',
+        },
+        badgeText: {
+            color: 'white',
+            fontSize: 11,
+            fontWeight: '700',
+        },
+    });
+
+    return (
+        <View style={styles.container}>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.content}>
+                {channels.map(channel => {
+                    const isSelected = channel.id === selectedChannelId;
+                    const unreadCount = isSelected ? 0 : getUnreadCount(channel.id);
+                    return (
+                        <TouchableOpacity
+                            key={channel.id}
+                            style={[styles.chip, isSelected && styles.chipSelected]}
+                            onPress={() => onSelect(channel)}
+                        >
+                            <Ionicons
+                                name={channelIcons[channel.type]}
+                                size={14}
+                                color={isSelected ? 'white' : currentColors.textSecondary}
+                            />
+                            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]} numberOfLines={1}>
+                                {channel.name}
+                            </Text>
+                            {unreadCount > 0 && (
+                                <View style={styles.badge}>
+                                    <Text style={styles.badgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+                                </View>
+                            )}
+                        </TouchableOpacity>
+                    );
+                })}
+                {onCreatePress && (
+                    <TouchableOpacity style={styles.chip} onPress={onCreatePress} accessibilityLabel="Create channel">
+                        <Ionicons name="add" size={16} color={currentColors.buttonPrimary} />
+                    </TouchableOpacity>
+                )}
+            </ScrollView>
+        </View>
+    );
+};
+
+export default ChatChannelBar;
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../src/context/ThemeContext';
+import { lightColors, darkColors } from '../src/constants/Colors';
+import { ConnectionStatus } from '../src/services/secureWebSocketService';
+
+// Brief reconnects are common (e.g. switching networks), so only show the banner if one drags on
+const SHOW_DELAY_MS = 1500;
+
+interface ConnectionStatusBannerProps {
+    status: ConnectionStatus;
+    onRetry: () => void;
+}
+
+/**
+ * Thin banner above the chat explaining why live updates have stopped
+ */
+export const ConnectionStatusBanner: React.FC<ConnectionStatusBannerProps> = ({ status, onRetry }) => {
+    const { resolvedTheme } = useTheme();
+    const [visible, setVisible] = useState(false);
+    const isDisconnected = status.state !== 'open' && status.state !== 'idle';
+
+    // Get current theme colors
+    const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+    useEffect(() => {
+        if (!isDisconnected) {
+            setVisible(false);
+            return;
+        }
+        const timer = setTimeout(() => setVisible(true), SHOW_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [isDisconnected]);
+
+    if (!visible || !isDisconnected) return null;
+
+    const message = status.state === 'offline'
+        ? "You're offline. Messages will send when you reconnect."
+        : status.state === 'backoff'
+            ? 'Connection lost. Reconnecting…'
+            : 'Connecting…';
+
+    // Create theme-aware styles
+    const styles = StyleSheet.create({
+        banner: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            paddingHorizontal: 16,
+            paddingVertical: 8,
+            backgroundColor: status.state === 'offline' ? currentColors.textSecondary : currentColors.warning,
+        },
+        message: {
+            flex: 1,
+            fontSize: 13,
+            color: 'white',
+            marginLeft: 8,
+        },
+        retryText: {
+            fontSize: 13,
+            fontWeight: '700',
+            color: 'white',
+        },
+    });
+
+    return (
+        <View style={styles.banner}>
+            <Ionicons
+                name={status.state === 'offline' ? 'cloud-offline-outline' : 'sync-outline'}
+                size={16}
+                color="white"
+            />
+            <Text style={styles.message} numberOfLines={1}>{message}</Text>
+            {status.state === 'backoff' && (
+                <TouchableOpacity onPress={onRetry} hitSlop={8}>
+                    <Text style={styles.retryText}>Retry</Text>
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+};
+
+export default ConnectionStatusBanner;
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    ActivityIndicator,
+} from 'react-native';
+import { useTheme } from '../src/context/ThemeContext';
+import { lightColors, darkColors } from '../src/constants/Colors';
+import { ChatChannel } from '../src/types/chat';
+
+// Race channels are created automatically, so owners only pick from these
+const creatableTypes: { type: ChatChannel['type']; label: string; description: string }[] = [
+    { type: 'general', label: 'Chat', description: 'Open to everyone in the league' },
+    { type: 'picks', label: 'Picks', description: 'Talk strategy for upcoming picks' },
+    { type: 'admin', label: 'Owners only', description: 'Only league owners can see it' },
+];
+
+const MAX_CHANNEL_NAME_LENGTH = 40;
+
+interface CreateChannelModalProps {
+    visible: boolean;
+    onClose: () => void;
+    onCreate: (channel: { name: string; description?: string; type: ChatChannel['type'] }) => void;
+    creating: boolean;
+}
+
+export const CreateChannelModal: React.FC<CreateChannelModalProps> = ({
+    visible,
+    onClose,
+    onCreate,
+    creating,
+}) => {
+    const { resolvedTheme } = useTheme();
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [type, setType] = useState<ChatChannel['type']>('general');
+
+    // Get current theme colors
+    const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+    // Start fresh each time the modal opens
+    useEffect(() => {
+        if (!visible) {
+            setName('');
+            setDescription('');
+            setType('general');
+        }
+    }, [visible]);
+
+    const canCreate = name.trim().length > 0 && !creating;
+
+    // Create theme-aware styles
+    const styles = StyleSheet.create({
+        overlay: {
+            flex: 1,
+            backgroundColor: 'rgba(0, 0, 0, 0.5)',
+            justifyContent: 'center',
+            alignItems: 'center',
+            padding: 20,
+        },
+        content: {
+            width: '100%',
+            maxWidth: 400,
+            borderRadius: 12,
+            backgroundColor: currentColors.cardBackground,
+            padding: 20,
+        },
+        title: {
+            fontSize: 18,
+            fontWeight: '600',
+            color: currentColors.textPrimary,
+            marginBottom: 16,
+        },
+        label: {
+            fontSize: 14,
+            fontWeight: '600',
+            color: currentColors.textSecondary,
+            marginBottom: 6,
+        },
+        input: {
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+            borderRadius: 8,
+            paddingHorizontal: 12,
+            paddingVertical: 10,
+            fontSize: 16,
+            color: currentColors.textPrimary,
+            backgroundColor: currentColors.backgroundSecondary,
+            marginBottom: 16,
+        },
+        typeOption: {
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+            borderRadius: 8,
+            padding: 12,
+            marginBottom: 8,
+        },
+        typeOptionSelected: {
+            borderColor: currentColors.buttonPrimary,
+            backgroundColor: currentColors.buttonPrimary + '15',
+        },
+        typeLabel: {
+            fontSize: 15,
+            fontWeight: '600',
+            color: currentColors.textPrimary,
+        },
+        typeDescription: {
+            fontSize: 13,
+            color: currentColors.textSecondary,
+            marginTop: 2,
+        },
+        actions: {
+            flexDirection: 'row',
+            justifyContent: 'flex-end',
+            gap: 12,
+            marginTop: 12,
+        },
+        button: {
+            paddingVertical: 10,
+            paddingHorizontal: 20,
+            borderRadius: 8,
+            alignItems: 'center',
+        },
+        cancelButtonText: {
+            fontSize: 16,
+            color: currentColors.textSecondary,
+        },
+        createButton: {
+            backgroundColor: currentColors.buttonPrimary,
+        },
+        createButtonDisabled: {
+            opacity: 0.5,
+        },
+        createButtonText: {
+            fontSize: 16,
+            fontWeight: '600',
+            color: 'white',
+        },
+    });
+
+    return (
+        <Modal
+            visible={visible}
+            transparent={true}
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <View style={styles.overlay}>
+                <View style={styles.content}>
+                    <Text style={styles.title}>New Channel</Text>
+
+                    <Text style={styles.label}>Name</Text>
+                    <TextInput
+                        style={styles.input}
+                        value={name}
+                        onChangeText={setName}
+                        placeholder="e.g. Trash talk"
+                        placeholderTextColor={currentColors.textTertiary}
+                        maxLength={MAX_CHANNEL_NAME_LENGTH}
+                        autoFocus
+                    />
+
+                    <Text style={styles.label}>Description (optional)</Text>
+                    <TextInput
+                        style={styles.input}
+                        value={description}
+                        onChangeText={setDescription}
+                        placeholder="What is this channel for?"
+                        placeholderTextColor={currentColors.textTertiary}
+                        maxLength={120}
+                    />
+
+                    <Text style={styles.label}>Type</Text>
+                    {creatableTypes.map(option => (
+                        <TouchableOpacity
+                            key={option.type}
+                            style={[styles.typeOption, type === option.type && styles.typeOptionSelected]}
+                            onPress={() => setType(option.type)}
+                        >
+                            <Text style={styles.typeLabel}>{option.label}</Text>
+                            <Text style={styles.typeDescription}>{option.description}</Text>
+                        </TouchableOpacity>
+                    ))}
+
+                    <View style={styles.actions}>
+                        <TouchableOpacity style={styles.button} onPress={onClose} disabled={creating}>
+                            <Text style={styles.cancelButtonText}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.button, styles.createButton, !canCreate && styles.createButtonDisabled]}
+                            onPress={() => onCreate({
+                                name: name.trim(),
+                                description: description.trim() || undefined,
+                                type,
+                            })}
+                            disabled={!canCreate}
+                        >
+                            {creating ? (
+                                <ActivityIndicator size="small" color="white" />
+                            ) : (
+                                <Text style={styles.createButtonText}>Create</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+export default CreateChannelModal;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
     View,
     Text,
@@ -6,6 +6,7 @@ import {
     Modal,
     TouchableOpacity,
     ScrollView,
+    TextInput,
     Dimensions,
     Platform,
 } from 'react-native';
@@ -13,6 +14,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Driver } from '../src/types';
 import { useTheme } from '../src/context/ThemeContext';
 import { lightColors, darkColors } from '../src/constants/Colors';
+import { typedCommunityPicksAPI, typedStatsAPI } from '../src/services/apiClient';
+import { queryCache, queryKeys, staleTimes } from '../src/services/queryCache';
 
 interface DriverSelectionModalProps {
     visible: boolean;
@@ -24,8 +27,41 @@ interface DriverSelectionModalProps {
     disabled?: boolean;
     submitting?: boolean;
     userPicks?: Map<number, number>; // position -> driverId mapping
+    weekNumber?: number; // With eventType, enables community pick hints
+    eventType?: 'race' | 'sprint';
 }
 
+interface DriverHint {
+    pickPercentage?: number; // Share of community picks for this position
+    timesInPosition?: number;
+    totalRaces?: number;
+    percentageInPosition?: number;
+}
+
+/**
+ * Case-insensitive match on driver name, number or team
+ */
+const matchesSearch = (driver: Driver, query: string): boolean => {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) return true;
+    return driver.name.toLowerCase().includes(normalized) ||
+        driver.team.toLowerCase().includes(normalized) ||
+        String(driver.driverNumber).startsWith(normalized.replace(/^#/, ''));
+};
+
+/**
+ * Group drivers by constructor, teams in alphabetical order
+ */
+const groupByTeam = (drivers: Driver[]): { team: string; drivers: Driver[] }[] => {
+    const groups = new Map<string, Driver[]>();
+    drivers.forEach(driver => {
+        groups.set(driver.team, [...(groups.get(driver.team) ?? []), driver]);
+    });
+    return Array.from(groups.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([team, teamDrivers]) => ({ team, drivers: teamDrivers }));
+};
+
 const { height: screenHeight } = Dimensions.get('window');
 
 export const DriverSelectionModal: React.FC<DriverSelectionModalProps> = ({
@@ -38,18 +74,146 @@ export const DriverSelectionModal: React.FC<DriverSelectionModalProps> = ({
     disabled = false,
     submitting = false,
     userPicks,
+    weekNumber,
+    eventType = 'race',
 }) => {
     const { resolvedTheme } = useTheme();
+    const [search, setSearch] = useState('');
+    const [hints, setHints] = useState<Map<number, DriverHint>>(new Map());
 
     // Get current theme colors
     const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
 
+    useEffect(() => {
+        if (!visible) {
+            setSearch('');
+        }
+    }, [visible]);
+
+    // Hints are best-effort: if either request fails the cards just show without them
+    useEffect(() => {
+        // Never show one position's hints on another, even briefly
+        setHints(new Map());
+        if (!visible || !position) return;
+
+        // Only the latest position's responses are applied
+        let cancelled = false;
+        const loadHints = async () => {
+            const [communityQuery, positionStatsQuery] = await Promise.all([
+                weekNumber
+                    ? queryCache.query(
+                        queryKeys.communityStats(weekNumber, eventType),
+                        () => typedCommunityPicksAPI.getStats(weekNumber, eventType),
+                        { staleTime: staleTimes.stats }
+                    )
+                    : null,
+                queryCache.query(
+                    queryKeys.driverPositionStats(position),
+                    () => typedStatsAPI.getDriverPositionStats(position),
+                    { staleTime: staleTimes.stats }
+                ),
+            ]);
+            if (cancelled) return;
+
+            const nextHints = new Map<number, DriverHint>();
+            const hintFor = (driverId: number) => {
+                const hint = nextHints.get(driverId) ?? {};
+                nextHints.set(driverId, hint);
+                return hint;
+            };
+
+            if (communityQuery?.result.ok) {
+                const positionStat = communityQuery.result.data.positions.find(stat => stat.position === position);
+                positionStat?.drivers.forEach(stat => {
+                    hintFor(stat.driverId).pickPercentage = stat.percentage;
+                });
+            }
+            if (positionStatsQuery.result.ok) {
+                positionStatsQuery.result.data.drivers.forEach(stat => {
+                    const hint = hintFor(stat.driverId);
+                    hint.timesInPosition = stat.timesInPosition;
+                    hint.totalRaces = stat.totalRaces;
+                    hint.percentageInPosition = stat.percentageInPosition;
+                });
+            }
+            setHints(nextHints);
+        };
+
+        loadHints();
+        return () => {
+            cancelled = true;
+        };
+    }, [visible, position, weekNumber, eventType]);
+
+    const teamGroups = useMemo(
+        () => groupByTeam(drivers.filter(driver => matchesSearch(driver, search))),
+        [drivers, search]
+    );
+
     const handleDriverPress = (driver: Driver) => {
         if (disabled || submitting) return;
         onDriverSelect(driver);
         onClose();
     };
 
+    const renderDriverCard = (driver: Driver) => {
+        const isSelected = selectedDriverId === driver.id;
+        const isAlreadyPicked = userPicks ? Array.from(userPicks.entries()).some(([pos, driverId]) =>
+            pos !== position && driverId === driver.id
+        ) : false;
+        const isDisabled = disabled || submitting || isAlreadyPicked;
+        const hint = hints.get(driver.id);
+
+        return (
+            <TouchableOpacity
+                key={driver.id}
+                style={[
+                    styles.driverCard,
+                    isSelected && styles.selectedDriverCard,
+                    isDisabled && styles.disabledDriverCard,
+                    isAlreadyPicked && styles.alreadyPickedDriverCard,
+                ]}
+                onPress={() => handleDriverPress(driver)}
+                disabled={isDisabled}
+                activeOpacity={isDisabled ? 1 : 0.7}
+            >
+                <View style={styles.driverHeader}>
+                    <Text style={styles.driverNumber}>#{driver.driverNumber}</Text>
+                    <Text style={styles.driverCountry}>{driver.country}</Text>
+                </View>
+
+                <Text style={styles.driverName} numberOfLines={2}>
+                    {driver.name}
+                </Text>
+
+                <Text style={styles.driverTeam} numberOfLines={1}>
+                    {driver.team}
+                </Text>
+
+                {hint?.pickPercentage !== undefined && (
+                    <Text style={styles.hintText}>Picked by {Math.round(hint.pickPercentage)}% for P{position}</Text>
+                )}
+                {hint?.totalRaces ? (
+                    <Text style={styles.hintText}>
+                        Finished P{position} in {hint.timesInPosition}/{hint.totalRaces} races
+                    </Text>
+                ) : null}
+
+                {isSelected && (
+                    <View style={styles.selectedIndicator}>
+                        <Text style={styles.selectedIndicatorText}>✓</Text>
+                    </View>
+                )}
+
+                {isAlreadyPicked && !isSelected && (
+                    <View style={styles.alreadyPickedIndicator}>
+                        <Text style={styles.alreadyPickedIndicatorText}>Already Picked</Text>
+                    </View>
+                )}
+            </TouchableOpacity>
+        );
+    };
+
     // Create theme-aware styles
     const styles = StyleSheet.create({
         container: {
@@ -94,11 +258,43 @@ export const DriverSelectionModal: React.FC<DriverSelectionModalProps> = ({
             padding: 16,
             paddingBottom: 100, // Extra padding for footer
         },
+        searchContainer: {
+            paddingHorizontal: 16,
+            paddingTop: 12,
+        },
+        searchInput: {
+            backgroundColor: currentColors.cardBackground,
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+            borderRadius: 8,
+            paddingHorizontal: 12,
+            paddingVertical: 10,
+            fontSize: 16,
+            color: currentColors.textPrimary,
+        },
+        teamHeader: {
+            fontSize: 13,
+            fontWeight: '600',
+            color: currentColors.textSecondary,
+            textTransform: 'uppercase',
+            marginBottom: 8,
+        },
         driversGrid: {
             flexDirection: 'row',
             flexWrap: 'wrap',
             justifyContent: 'space-between',
         },
+        hintText: {
+            fontSize: 11,
+            color: currentColors.textTertiary,
+            textAlign: 'center',
+        },
+        noResultsText: {
+            fontSize: 14,
+            color: currentColors.textSecondary,
+            textAlign: 'center',
+            marginTop: 24,
+        },
         driverCard: {
             backgroundColor: currentColors.cardBackground,
             borderRadius: 12,
@@ -224,61 +420,38 @@ export const DriverSelectionModal: React.FC<DriverSelectionModalProps> = ({
                     </View>
                 </View>
 
-                {/* Drivers Grid */}
+                {/* Search */}
+                <View style={styles.searchContainer}>
+                    <TextInput
+                        style={styles.searchInput}
+                        value={search}
+                        onChangeText={setSearch}
+                        placeholder="Search by name, number or team"
+                        placeholderTextColor={currentColors.textTertiary}
+                        autoCorrect={false}
+                        autoCapitalize="none"
+                        clearButtonMode="while-editing"
+                    />
+                </View>
+
+                {/* Drivers Grid, grouped by team */}
                 <ScrollView
                     style={styles.driversContainer}
                     contentContainerStyle={styles.driversContent}
                     showsVerticalScrollIndicator={false}
+                    keyboardShouldPersistTaps="handled"
                 >
-                    <View style={styles.driversGrid}>
-                        {drivers.map((driver) => {
-                            const isSelected = selectedDriverId === driver.id;
-                            const isAlreadyPicked = userPicks ? Array.from(userPicks.entries()).some(([pos, driverId]) =>
-                                pos !== position && driverId === driver.id
-                            ) : false;
-                            const isDisabled = disabled || submitting || isAlreadyPicked;
-
-                            return (
-                                <TouchableOpacity
-                                    key={driver.id}
-                                    style={[
-                                        styles.driverCard,
-                                        isSelected && styles.selectedDriverCard,
-                                        isDisabled && styles.disabledDriverCard,
-                                        isAlreadyPicked && styles.alreadyPickedDriverCard,
-                                    ]}
-                                    onPress={() => handleDriverPress(driver)}
-                                    disabled={isDisabled}
-                                    activeOpacity={isDisabled ? 1 : 0.7}
-                                >
-                                    <View style={styles.driverHeader}>
-                                        <Text style={styles.driverNumber}>#{driver.driverNumber}</Text>
-                                        <Text style={styles.driverCountry}>{driver.country}</Text>
-                                    </View>
-
-                                    <Text style={styles.driverName} numberOfLines={2}>
-                                        {driver.name}
-                                    </Text>
-
-                                    <Text style={styles.driverTeam} numberOfLines={1}>
-                                        {driver.team}
-                                    </Text>
-
-                                    {isSelected && (
-                                        <View style={styles.selectedIndicator}>
-                                            <Text style={styles.selectedIndicatorText}>✓</Text>
-                                        </View>
-                                    )}
-
-                                    {isAlreadyPicked && !isSelected && (
-                                        <View style={styles.alreadyPickedIndicator}>
-                                            <Text style={styles.alreadyPickedIndicatorText}>Already Picked</Text>
-                                        </View>
-                                    )}
-                                </TouchableOpacity>
-                            );
-                        })}
-                    </View>
+                    {teamGroups.length === 0 && (
+                        <Text style={styles.noResultsText}>No drivers match {`"${search}"`}</Text>
+                    )}
+                    {teamGroups.map(group => (
+                        <View key={group.team}>
+                            <Text style={styles.teamHeader}>{group.team}</Text>
+                            <View style={styles.driversGrid}>
+                                {group.drivers.map(renderDriverCard)}
+                            </View>
+                        </View>
+                    ))}
                 </ScrollView>
 
                 {/* Footer */}
@@ -1,30 +1,51 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { View, StyleSheet, Alert, Text, ScrollView, TouchableOpacity, TextInput, Dimensions, Platform, KeyboardAvoidingView, Keyboard } from 'react-native';
+import { View, StyleSheet, Alert, Text, ScrollView, TouchableOpacity, TextInput, Dimensions, Platform, KeyboardAvoidingView, Keyboard, ActivityIndicator } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { IMessage } from 'react-native-gifted-chat';
-import { SecureChatService } from '../src/services/secureChatService';
-import { ChatMessage } from '../src/types/chat';
+import { Image } from 'expo-image';
+import { CHAT_PAGE_SIZE, createClientMessageId, SecureChatService } from '../src/services/secureChatService';
+import { chatMessageStore } from '../src/services/chatMessageStore';
+import { typedLeaguesAPI } from '../src/services/apiClient';
+import { queryCache, queryKeys, staleTimes } from '../src/services/queryCache';
+import { LeagueMember, LeagueRole } from '../src/types';
+import { ChatImageAttachment, ChatMessage, DisplayChatMessage, ReadMarker, ReplyPreview } from '../src/types/chat';
 import { useAuth } from '../src/context/AuthContext';
 import { useTheme } from '../src/context/ThemeContext';
 import { lightColors, darkColors } from '../src/constants/Colors';
 import { Ionicons } from '@expo/vector-icons';
-import { chatAPI } from '../src/services/apiService';
+import { MessageActionSheet, MessageAction } from './MessageActionSheet';
+import { MessageThreadModal } from './MessageThreadModal';
+import { ConnectionStatusBanner } from './ConnectionStatusBanner';
+import { ConnectionStatus } from '../src/services/secureWebSocketService';
+import { applyReaction, hasReacted } from '../utils/chatReactions';
+import { canDeleteMessage, canEditMessage, canMuteAuthor, MUTE_DURATION_OPTIONS } from '../utils/chatPermissions';
+import { isLeagueOwner } from '../utils/leaguePermissions';
+import { pickChatImage } from '../utils/chatImages';
+import {
+    formatTypingText,
+    getMessageReaders,
+    TYPING_EXPIRY_MS,
+    TYPING_IDLE_MS,
+    TYPING_THROTTLE_MS,
+} from '../utils/chatPresence';
+import { collectMentions, getMentionQuery, getMentionSuggestions, insertMention, splitMentions } from '../utils/chatMentions';
 
 interface LeagueChatProps {
     leagueId: string;
     leagueName: string;
     channelId?: string;
+    userRole?: LeagueRole; // Owners and admins can delete messages from and mute members ranked below them
 }
 
 export const LeagueChat: React.FC<LeagueChatProps> = ({
     leagueId,
     leagueName,
-    channelId = null
+    channelId = null,
+    userRole
 }) => {
     const { user } = useAuth();
     const { resolvedTheme } = useTheme();
     const insets = useSafeAreaInsets();
-    const [messages, setMessages] = useState<IMessage[]>([]);
+    const [messages, setMessages] = useState<DisplayChatMessage[]>([]);
     const [loading, setLoading] = useState(true);
     const [onlineUsers, setOnlineUsers] = useState<any[]>([]);
     const [showOnlineUsers, setShowOnlineUsers] = useState(false);
@@ -32,6 +53,28 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
     const [isKeyboardVisible, setIsKeyboardVisible] = useState(false);
     const [, setKeyboardHeight] = useState(0);
     const messagesEndRef = useRef<ScrollView>(null);
+    const [actionMessage, setActionMessage] = useState<DisplayChatMessage | null>(null);
+    const [replyingTo, setReplyingTo] = useState<DisplayChatMessage | null>(null);
+    const [threadRoot, setThreadRoot] = useState<DisplayChatMessage | null>(null);
+    const [threadReplies, setThreadReplies] = useState<DisplayChatMessage[]>([]);
+    const [threadLoading, setThreadLoading] = useState(false);
+    const threadRootIdRef = useRef<string | null>(null); // Read from WebSocket callbacks
+    const [editingMessage, setEditingMessage] = useState<DisplayChatMessage | null>(null);
+    const [mutedUntil, setMutedUntil] = useState<Date | null>(null);
+    const [hasMoreBefore, setHasMoreBefore] = useState(false);
+    const [loadingEarlier, setLoadingEarlier] = useState(false);
+    const keepScrollPositionRef = useRef(false); // Set when older messages are prepended
+    // Other members currently typing, by user ID
+    const [typingUsers, setTypingUsers] = useState<{ [userId: string]: { name: string; expiresAt: number } }>({});
+    const [readMarkers, setReadMarkers] = useState<ReadMarker[]>([]);
+    const typingSentAtRef = useRef(0); // When typing_start was last sent; 0 while not typing
+    const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const lastMarkedReadIdRef = useRef<string | null>(null);
+    const [members, setMembers] = useState<LeagueMember[]>([]); // For @mention autocomplete and highlighting
+    const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>({ state: 'idle' });
+    // Image messages still being uploaded or sent, by tempId; kept until sent so failures can be retried
+    const pendingUploadsRef = useRef<Map<string, { attachment: ChatImageAttachment; caption: string; imageUrl?: string }>>(new Map());
+    const isOwner = isLeagueOwner(userRole);
 
     // Enhanced function to scroll to bottom with keyboard awareness
     const scrollToBottom = useCallback((animated = true) => {
@@ -98,7 +141,7 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
     });
 
     // Convert ChatMessage to IMessage format for GiftedChat
-    const convertToIMessage = (chatMessage: ChatMessage): IMessage => {
+    const convertToIMessage = (chatMessage: ChatMessage): DisplayChatMessage => {
         // Ensure createdAt is a proper Date object using safe conversion
         let createdAt: Date;
 
@@ -133,34 +176,122 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
             system: chatMessage.system,
             // Add custom data for message status (using type assertion)
             ...(chatMessage.status && { status: chatMessage.status }),
+            ...(chatMessage.uploadProgress !== undefined && { uploadProgress: chatMessage.uploadProgress }),
             ...(chatMessage.tempId && { tempId: chatMessage.tempId }),
-        } as IMessage & { status?: string; tempId?: string };
+            ...(chatMessage.clientMessageId && { clientMessageId: chatMessage.clientMessageId }),
+            reactions: chatMessage.reactions,
+            replyTo: chatMessage.replyTo,
+            threadId: chatMessage.threadId,
+            threadReplyCount: chatMessage.threadReplyCount,
+            editedAt: chatMessage.editedAt ? new Date(chatMessage.editedAt) : undefined,
+            deleted: chatMessage.deleted,
+            deletedBy: chatMessage.deletedBy,
+        };
     };
 
+    // Apply a change to a message wherever it is shown (main list or open thread)
+    const updateMessage = useCallback((messageId: string, update: (message: DisplayChatMessage) => DisplayChatMessage) => {
+        const applyUpdate = (list: DisplayChatMessage[]) =>
+            list.map(msg => (msg._id.toString() === messageId ? update(msg) : msg));
+        setMessages(applyUpdate);
+        setThreadReplies(applyUpdate);
+    }, []);
+
     // Load messages when component mounts
     useEffect(() => {
         if (!user || !leagueId) return;
 
         let unsubscribe: (() => void) | undefined;
         let isInitialLoad = true;
+        let isActive = true;
+
+        // Thread replies are shown in the thread view, not the main list, and other
+        // channels' messages arrive on the same socket
+        const belongsInList = (message: ChatMessage) =>
+            !message.threadId && (message.channelId || undefined) === (channelId || undefined);
+
+        // Merge the latest page from the server into the stored history, first fetching
+        // whatever was posted between the newest stored message and that page
+        const syncLatestMessages = async (latestMessages: ChatMessage[]) => {
+            const stored = await chatMessageStore.load(leagueId, channelId || undefined);
+            const newestStored = stored.messages[stored.messages.length - 1];
+            let fetchedMessages = latestMessages;
+
+            if (newestStored && latestMessages.length >= CHAT_PAGE_SIZE) {
+                const oldestLatest = Math.min(...latestMessages.map(message => message.createdAt.getTime()));
+                if (oldestLatest > newestStored.createdAt.getTime()) {
+                    try {
+                        const gapMessages = await SecureChatService.getAllMessagesSince(
+                            leagueId,
+                            newestStored.createdAt,
+                            channelId || undefined
+                        );
+                        fetchedMessages = [...gapMessages.filter(belongsInList), ...latestMessages];
+                    } catch (error) {
+                        // Show just the latest page rather than history with a hole in it; the gap is retried next time
+                        console.error('Failed to fill chat history gap:', error);
+                        if (!isActive) return;
+                        setMessages(latestMessages.map(convertToIMessage));
+                        setHasMoreBefore(true);
+                        return;
+                    }
+                }
+            }
+
+            const conversation = await chatMessageStore.merge(
+                leagueId,
+                channelId || undefined,
+                fetchedMessages,
+                // With nothing stored yet, a full page means there is older history to page back through
+                stored.messages.length === 0 ? { hasMoreBefore: latestMessages.length >= CHAT_PAGE_SIZE } : {}
+            );
+            if (!isActive) return;
+
+            setMessages(prevMessages => {
+                const storedIds = new Set(conversation.messages.map(message => message.id));
+                const storedClientIds = new Set(conversation.messages.map(message => message.clientMessageId));
+                // Keep messages still being sent; they aren't in the store yet
+                const pendingMessages = prevMessages.filter(msg =>
+                    msg.tempId &&
+                    !storedIds.has(msg._id.toString()) &&
+                    !(msg.clientMessageId && storedClientIds.has(msg.clientMessageId))
+                );
+                return [...conversation.messages.map(convertToIMessage), ...pendingMessages];
+            });
+            setHasMoreBefore(conversation.hasMoreBefore);
+        };
 
         const setupSubscription = async () => {
             try {
+                // Show the stored history straight away, before the network answers
+                const stored = await chatMessageStore.load(leagueId, channelId || undefined);
+                if (!isActive) return;
+                if (stored.messages.length > 0) {
+                    setMessages(stored.messages.map(convertToIMessage));
+                    setHasMoreBefore(stored.hasMoreBefore);
+                    setLoading(false);
+                }
+
                 unsubscribe = await SecureChatService.subscribeToLeagueMessages(
                     leagueId,
                     channelId || undefined,
-                    (chatMessages: ChatMessage[]) => {
+                    (incomingMessages: ChatMessage[]) => {
+                        const chatMessages = incomingMessages.filter(belongsInList);
                         if (isInitialLoad) {
-                            // Initial load - replace all messages
-                            const iMessages = chatMessages.map(convertToIMessage);
-                            // Sort messages in chronological order (oldest first) so newest appear at bottom
-                            const sortedMessages = iMessages.sort((a, b) =>
-                                new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-                            );
-                            setMessages(sortedMessages);
-                            setLoading(false);
                             isInitialLoad = false;
+                            syncLatestMessages(chatMessages).finally(() => {
+                                if (isActive) setLoading(false);
+                            });
                         } else {
+                            chatMessageStore.merge(leagueId, channelId || undefined, chatMessages);
+                            // A sent message ends its author's typing indicator
+                            setTypingUsers(prevTyping => {
+                                const authors = chatMessages.map(message => message.user._id).filter(id => id in prevTyping);
+                                if (authors.length === 0) return prevTyping;
+                                const nextTyping = { ...prevTyping };
+                                authors.forEach(id => delete nextTyping[id]);
+                                return nextTyping;
+                            });
                             // New message received - append to existing messages
                             setMessages(prevMessages => {
                                 // Check if this message already exists to avoid duplicates
@@ -173,26 +304,15 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                                     return prevMessages;
                                 }
 
-                                // Check for duplicate by content and user (for messages we just sent)
-                                // This handles the case where server message doesn't have tempId
-                                const messageExistsByContent = prevMessages.some(msg =>
-                                    msg.text === newMessage.text &&
-                                    msg.user._id === newMessage.user._id &&
-                                    Math.abs(new Date(msg.createdAt).getTime() - new Date(newMessage.createdAt).getTime()) < 5000 // Within 5 seconds
-                                );
-
-                                if (messageExistsByContent) {
-                                    // Replace the temporary message with the real one from server
+                                // Our own message coming back: replace the local copy with the server's
+                                const isOwnEcho = (msg: DisplayChatMessage) =>
+                                    !!newMessage.clientMessageId && msg.clientMessageId === newMessage.clientMessageId;
+                                if (prevMessages.some(isOwnEcho)) {
                                     const newIMessage = convertToIMessage({
                                         ...newMessage,
                                         status: 'sent' // Mark as sent when received from server
                                     });
-                                    return prevMessages.map(msg =>
-                                        msg.text === newMessage.text &&
-                                            msg.user._id === newMessage.user._id &&
-                                            Math.abs(new Date(msg.createdAt).getTime() - new Date(newMessage.createdAt).getTime()) < 5000
-                                            ? newIMessage : msg
-                                    );
+                                    return prevMessages.map(msg => (isOwnEcho(msg) ? newIMessage : msg));
                                 }
 
                                 // Convert new messages to IMessage format
@@ -204,13 +324,6 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                         }
                     }
                 );
-
-                // Mark messages as read when chat is viewed
-                try {
-                    await chatAPI.markMessagesAsRead(parseInt(leagueId));
-                } catch (error) {
-                    console.error('Failed to mark messages as read:', error);
-                }
             } catch (error) {
                 console.error('Failed to set up chat subscription:', error);
                 setLoading(false);
@@ -220,12 +333,203 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
         setupSubscription();
 
         return () => {
+            isActive = false;
             if (unsubscribe) {
                 unsubscribe();
             }
         };
     }, [leagueId, channelId, user]);
 
+    // Keep reactions and thread reply counts up to date
+    useEffect(() => {
+        if (!user || !leagueId) return;
+
+        return SecureChatService.subscribeToMessageActivity(leagueId, {
+            onReactionChanged: (event) => {
+                setMessages(prevMessages => prevMessages.map(msg =>
+                    msg._id.toString() === event.messageId
+                        ? { ...msg, reactions: applyReaction(msg.reactions, event.emoji, event.userId, event.added) }
+                        : msg
+                ));
+                chatMessageStore.updateMessage(leagueId, event.messageId, msg => ({
+                    ...msg,
+                    reactions: applyReaction(msg.reactions, event.emoji, event.userId, event.added),
+                }));
+            },
+            onThreadReply: (reply) => {
+                if (!reply.threadId) return;
+                setMessages(prevMessages => prevMessages.map(msg =>
+                    msg._id.toString() === reply.threadId
+                        ? { ...msg, threadReplyCount: (msg.threadReplyCount ?? 0) + 1 }
+                        : msg
+                ));
+                chatMessageStore.updateMessage(leagueId, reply.threadId, msg => ({
+                    ...msg,
+                    threadReplyCount: (msg.threadReplyCount ?? 0) + 1,
+                }));
+                if (threadRootIdRef.current === reply.threadId) {
+                    setThreadReplies(prevReplies => {
+                        if (prevReplies.some(msg => msg._id === reply.id)) return prevReplies;
+                        // Swap out our own local copy of this reply
+                        const withoutPending = prevReplies.filter(msg =>
+                            !(reply.clientMessageId && msg.clientMessageId === reply.clientMessageId)
+                        );
+                        return [...withoutPending, convertToIMessage(reply)];
+                    });
+                }
+            },
+            onMessageAck: (event) => {
+                // The server stored a message we sent; give our copy its real ID
+                const confirmSent = (list: DisplayChatMessage[]) => list.map(msg =>
+                    msg.tempId && msg.clientMessageId === event.clientMessageId
+                        ? { ...msg, _id: event.messageId, tempId: undefined, status: 'sent' as const, createdAt: event.createdAt }
+                        : msg
+                );
+                setMessages(confirmSent);
+                setThreadReplies(confirmSent);
+            },
+            onMessageFailed: (event) => {
+                const markFailed = (list: DisplayChatMessage[]) => list.map(msg =>
+                    msg.tempId && msg.clientMessageId === event.clientMessageId && msg.status === 'sending'
+                        ? { ...msg, status: 'failed' as const }
+                        : msg
+                );
+                setMessages(markFailed);
+                setThreadReplies(markFailed);
+            },
+            onMessageEdited: (event) => {
+                updateMessage(event.messageId, msg => ({ ...msg, text: event.text, editedAt: event.editedAt }));
+                chatMessageStore.updateMessage(leagueId, event.messageId, msg => ({ ...msg, text: event.text, editedAt: event.editedAt }));
+            },
+            onMessageDeleted: (event) => {
+                updateMessage(event.messageId, msg => ({ ...msg, text: '', deleted: true, deletedBy: event.deletedBy }));
+                chatMessageStore.updateMessage(leagueId, event.messageId, msg => ({
+                    ...msg,
+                    text: '',
+                    deleted: true,
+                    deletedBy: event.deletedBy,
+                }));
+            },
+            onUserMuted: (event) => {
+                if (event.userId !== user.id.toString()) return;
+                setMutedUntil(event.mutedUntil);
+            },
+            onTyping: (event) => {
+                if ((event.channelId || null) !== (channelId || null)) return;
+                if (event.userId === user.id.toString()) return;
+                setTypingUsers(prevTyping => {
+                    const nextTyping = { ...prevTyping };
+                    if (event.isTyping) {
+                        nextTyping[event.userId] = { name: event.userName, expiresAt: Date.now() + TYPING_EXPIRY_MS };
+                    } else {
+                        delete nextTyping[event.userId];
+                    }
+                    return nextTyping;
+                });
+            },
+            onReadReceipt: (event) => {
+                if ((event.channelId || null) !== (channelId || null)) return;
+                const { leagueId: _leagueId, channelId: _channelId, ...marker } = event;
+                setReadMarkers(prevMarkers => [...prevMarkers.filter(m => m.userId !== marker.userId), marker]);
+            },
+        });
+    }, [user, leagueId, channelId, updateMessage]);
+
+    // Track the live connection for the status banner
+    useEffect(() => SecureChatService.subscribeToConnectionStatus(setConnectionStatus), []);
+
+    // Load league members for @mentions
+    useEffect(() => {
+        if (!user || !leagueId) return;
+
+        let cancelled = false;
+        const id = parseInt(leagueId);
+        queryCache.query(
+            queryKeys.leagueMembers(id),
+            () => typedLeaguesAPI.getLeagueMembers(id),
+            {
+                staleTime: staleTimes.leagues,
+                onUpdate: (data) => {
+                    if (!cancelled) setMembers(data);
+                },
+            }
+        ).then(({ result }) => {
+            if (!cancelled && result.ok) setMembers(result.data);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [user, leagueId]);
+
+    // Load how far each member has read
+    useEffect(() => {
+        if (!user || !leagueId) return;
+        SecureChatService.getReadMarkers(leagueId, channelId || undefined).then(setReadMarkers);
+    }, [user, leagueId, channelId]);
+
+    // Drop typing indicators that weren't refreshed in time
+    useEffect(() => {
+        const expiries = Object.values(typingUsers).map(typing => typing.expiresAt);
+        if (expiries.length === 0) return;
+
+        const timer = setTimeout(() => {
+            const now = Date.now();
+            setTypingUsers(prevTyping => Object.fromEntries(
+                Object.entries(prevTyping).filter(([, typing]) => typing.expiresAt > now)
+            ));
+        }, Math.max(0, Math.min(...expiries) - Date.now()));
+        return () => clearTimeout(timer);
+    }, [typingUsers]);
+
+    // Record the newest message as read once it is shown; a burst of messages is marked in one call
+    useEffect(() => {
+        if (!user || !leagueId || loading) return;
+
+        const newestMessage = [...messages].reverse().find(msg => !msg.tempId && (!msg.status || msg.status === 'sent'));
+        const newestId = newestMessage?._id.toString();
+        if (!newestId || newestId === lastMarkedReadIdRef.current) return;
+
+        const timer = setTimeout(() => {
+            lastMarkedReadIdRef.current = newestId;
+            SecureChatService.markMessagesAsRead(leagueId, channelId || undefined, newestId).catch(() => {
+                // Logged by the service; the next message retries
+                lastMarkedReadIdRef.current = null;
+            });
+        }, 1000);
+        return () => clearTimeout(timer);
+    }, [messages, loading, user, leagueId, channelId]);
+
+    // Tell others we stopped typing when leaving the chat
+    useEffect(() => {
+        return () => {
+            if (typingIdleTimerRef.current) {
+                clearTimeout(typingIdleTimerRef.current);
+            }
+            if (typingSentAtRef.current) {
+                SecureChatService.setTyping(leagueId, false, channelId || undefined);
+            }
+        };
+    }, [leagueId, channelId]);
+
+    // Check whether a league owner has muted the current user
+    useEffect(() => {
+        if (!user || !leagueId) return;
+        SecureChatService.getMuteStatus(leagueId).then(setMutedUntil);
+    }, [user, leagueId]);
+
+    // Lift the mute locally once it runs out
+    useEffect(() => {
+        if (!mutedUntil) return;
+
+        const remaining = mutedUntil.getTime() - Date.now();
+        if (remaining <= 0) {
+            setMutedUntil(null);
+            return;
+        }
+        const timer = setTimeout(() => setMutedUntil(null), remaining);
+        return () => clearTimeout(timer);
+    }, [mutedUntil]);
+
     // Update user online status and subscribe to online users
     useEffect(() => {
         if (!user || !leagueId) return;
@@ -328,6 +632,11 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
 
     // Auto-scroll to bottom when messages are loaded or new messages arrive
     useEffect(() => {
+        if (keepScrollPositionRef.current) {
+            // Older history was added above; stay where the user is reading
+            keepScrollPositionRef.current = false;
+            return;
+        }
         if (messages.length > 0) {
             // Scroll to bottom for new messages, with longer delay if keyboard is visible
             const delay = isKeyboardVisible ? 200 : 100;
@@ -365,11 +674,50 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
         }
     }, [leagueId, user]);
 
+    const stopTyping = useCallback(() => {
+        if (typingIdleTimerRef.current) {
+            clearTimeout(typingIdleTimerRef.current);
+            typingIdleTimerRef.current = null;
+        }
+        if (typingSentAtRef.current) {
+            typingSentAtRef.current = 0;
+            SecureChatService.setTyping(leagueId, false, channelId || undefined);
+        }
+    }, [leagueId, channelId]);
+
+    // Update the input and let others know we're typing, without sending an event per keystroke
+    const handleInputChange = (text: string) => {
+        setInputText(text);
+        if (editingMessage) return;
+        if (!text.trim()) {
+            stopTyping();
+            return;
+        }
+
+        const now = Date.now();
+        if (now - typingSentAtRef.current > TYPING_THROTTLE_MS) {
+            typingSentAtRef.current = now;
+            SecureChatService.setTyping(leagueId, true, channelId || undefined);
+        }
+        if (typingIdleTimerRef.current) {
+            clearTimeout(typingIdleTimerRef.current);
+        }
+        typingIdleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+    };
+
     const sendMessage = useCallback(async () => {
         if (!user || !inputText.trim()) return;
 
         const messageText = inputText.trim();
+        const replyTo: ReplyPreview | undefined = replyingTo ? {
+            id: replyingTo._id.toString(),
+            text: replyingTo.text || (replyingTo.image ? 'Photo' : ''),
+            userName: replyingTo.user.name || 'Unknown User',
+        } : undefined;
+        const { mentions, mentionsEveryone } = collectMentions(messageText, members, isOwner);
         setInputText(''); // Clear input immediately
+        stopTyping();
+        setReplyingTo(null);
 
         try {
             const sentMessage = await SecureChatService.sendMessage(leagueId, {
@@ -381,26 +729,17 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                 },
                 leagueId,
                 channelId: channelId || undefined,
+                replyTo,
+                mentions,
+                mentionsEveryone,
             });
 
-            // Only add to local state if using REST API (not WebSocket)
-            // WebSocket messages will come back through the subscription
+            // Sent over REST, so it's already stored; over WebSocket it's matched up with the server's
+            // acknowledgement or echo by its client message ID. Failed messages stay so they can be retried.
             if (sentMessage.status === 'sent') {
-                setMessages(prevMessages => {
-                    const newMessages = [...prevMessages];
-                    const convertedMessage = convertToIMessage(sentMessage);
-                    newMessages.push(convertedMessage);
-                    return newMessages;
-                });
-            } else if (sentMessage.status === 'sending') {
-                // For WebSocket, add the temporary message
-                setMessages(prevMessages => {
-                    const newMessages = [...prevMessages];
-                    const convertedMessage = convertToIMessage(sentMessage);
-                    newMessages.push(convertedMessage);
-                    return newMessages;
-                });
+                chatMessageStore.merge(leagueId, channelId || undefined, [sentMessage]);
             }
+            setMessages(prevMessages => [...prevMessages, convertToIMessage(sentMessage)]);
 
             // Refresh online users list after sending message to ensure up-to-date status
             await refreshOnlineUsers();
@@ -413,12 +752,419 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
             console.error('Error sending message:', error);
             Alert.alert('Error', 'Failed to send message. Please try again.');
             setInputText(messageText); // Restore text on error
+            setReplyingTo(replyingTo);
+        }
+    }, [
+        user, leagueId, channelId, inputText, replyingTo, members, isOwner,
+        refreshOnlineUsers, scrollToBottom, isKeyboardVisible, stopTyping,
+    ]);
+
+    // Upload a pending image (unless a previous attempt already did) and send its message
+    const uploadAndSend = useCallback(async (tempId: string) => {
+        const pending = pendingUploadsRef.current.get(tempId);
+        if (!user || !pending) return;
+
+        const updateTemp = (update: Partial<DisplayChatMessage>) => setMessages(prevMessages => prevMessages.map(msg =>
+            msg.tempId === tempId ? { ...msg, ...update } : msg
+        ));
+
+        if (!pending.imageUrl) {
+            updateTemp({ status: 'uploading', uploadProgress: 0 });
+            try {
+                pending.imageUrl = await SecureChatService.uploadImage(
+                    leagueId,
+                    pending.attachment,
+                    (progress) => updateTemp({ uploadProgress: progress })
+                );
+            } catch {
+                updateTemp({ status: 'failed', uploadProgress: undefined });
+                return;
+            }
+        }
+
+        const sentMessage = await SecureChatService.sendMessage(leagueId, {
+            text: pending.caption,
+            user: {
+                _id: user.id.toString(),
+                name: user.name || user.email,
+                avatar: user.avatar,
+            },
+            leagueId,
+            channelId: channelId || undefined,
+            image: pending.imageUrl,
+            clientMessageId: tempId,
+        });
+
+        if (sentMessage.status === 'failed') {
+            updateTemp({ status: 'failed', uploadProgress: undefined });
+            return;
+        }
+
+        pendingUploadsRef.current.delete(tempId);
+        // Swap in the hosted image; the server's copy is matched to this one by its client message ID
+        updateTemp({
+            ...(sentMessage.status === 'sent' && { _id: sentMessage.id, tempId: undefined }),
+            image: pending.imageUrl,
+            status: sentMessage.status,
+            uploadProgress: undefined,
+            createdAt: new Date(),
+        });
+    }, [user, leagueId, channelId]);
+
+    const sendImage = async () => {
+        if (!user) return;
+
+        let result;
+        try {
+            result = await pickChatImage();
+        } catch (error) {
+            console.error('Error picking chat image:', error);
+            Alert.alert('Error', 'Could not attach that image. Please try again.');
+            return;
+        }
+
+        if (result.status === 'cancelled') return;
+        if (result.status === 'tooLarge') {
+            Alert.alert('Image Too Large', 'Images must be smaller than 5MB.');
+            return;
+        }
+
+        // Whatever is typed goes along as the caption
+        const caption = inputText.trim();
+        const tempId = createClientMessageId();
+        setInputText('');
+        pendingUploadsRef.current.set(tempId, { attachment: result.attachment, caption });
+        setMessages(prevMessages => [...prevMessages, convertToIMessage({
+            id: tempId,
+            tempId,
+            clientMessageId: tempId,
+            text: caption,
+            createdAt: new Date(),
+            user: {
+                _id: user.id.toString(),
+                name: user.name || user.email,
+                avatar: user.avatar,
+            },
+            leagueId,
+            channelId: channelId || undefined,
+            image: result.attachment.uri,
+            status: 'uploading',
+            uploadProgress: 0,
+        })]);
+
+        await uploadAndSend(tempId);
+    };
+
+    // Send a failed message again under the same client message ID, so the server drops it if the first attempt got through
+    const retryMessage = useCallback(async (message: DisplayChatMessage) => {
+        const tempId = message.tempId;
+        if (!user || !tempId) return;
+
+        if (pendingUploadsRef.current.has(tempId)) {
+            await uploadAndSend(tempId);
+            return;
+        }
+
+        // The message may be in the main list or in the open thread
+        const updateTemp = (update: Partial<DisplayChatMessage>) => {
+            const applyUpdate = (list: DisplayChatMessage[]) =>
+                list.map(msg => (msg.tempId === tempId ? { ...msg, ...update } : msg));
+            setMessages(applyUpdate);
+            setThreadReplies(applyUpdate);
+        };
+
+        updateTemp({ status: 'sending' });
+        const sentMessage = await SecureChatService.sendMessage(leagueId, {
+            text: message.text,
+            user: {
+                _id: user.id.toString(),
+                name: user.name || user.email,
+                avatar: user.avatar,
+            },
+            leagueId,
+            channelId: channelId || undefined,
+            image: message.image,
+            replyTo: message.replyTo,
+            threadId: message.threadId,
+            mentions: message.mentions,
+            mentionsEveryone: message.mentionsEveryone,
+            clientMessageId: message.clientMessageId,
+        });
+
+        if (sentMessage.status !== 'sent') {
+            updateTemp({ status: sentMessage.status });
+            return;
+        }
+
+        updateTemp({ _id: sentMessage.id, tempId: undefined, status: 'sent' });
+        if (sentMessage.threadId) {
+            // Sent over REST, so no reply_created event will bump the count
+            setMessages(prevMessages => prevMessages.map(msg =>
+                msg._id.toString() === sentMessage.threadId
+                    ? { ...msg, threadReplyCount: (msg.threadReplyCount ?? 0) + 1 }
+                    : msg
+            ));
+        } else {
+            chatMessageStore.merge(leagueId, channelId || undefined, [sentMessage]);
+        }
+    }, [user, leagueId, channelId, uploadAndSend]);
+
+    // Toggle the current user's reaction, updating the UI before the server confirms
+    const toggleReaction = async (message: DisplayChatMessage, emoji: string) => {
+        if (!user) return;
+
+        const userId = user.id.toString();
+        const messageId = message._id.toString();
+        const added = !hasReacted(message.reactions, emoji, userId);
+        const updateReaction = (isAdded: boolean) => setMessages(prevMessages => prevMessages.map(msg =>
+            msg._id === message._id
+                ? { ...msg, reactions: applyReaction(msg.reactions, emoji, userId, isAdded) }
+                : msg
+        ));
+
+        updateReaction(added);
+        const success = await SecureChatService.setReaction(leagueId, messageId, emoji, added);
+        if (!success) {
+            updateReaction(!added);
+        }
+    };
+
+    const openThread = async (message: DisplayChatMessage) => {
+        const threadId = message._id.toString();
+        threadRootIdRef.current = threadId;
+        setThreadRoot(message);
+        setThreadReplies([]);
+        setThreadLoading(true);
+
+        try {
+            const replies = await SecureChatService.getThreadMessages(leagueId, threadId);
+            if (threadRootIdRef.current === threadId) {
+                setThreadReplies(replies.map(convertToIMessage));
+            }
+        } catch (error) {
+            console.error('Error loading thread:', error);
+        } finally {
+            setThreadLoading(false);
+        }
+    };
+
+    const closeThread = () => {
+        threadRootIdRef.current = null;
+        setThreadRoot(null);
+        setThreadReplies([]);
+    };
+
+    const sendThreadReply = async (text: string) => {
+        if (!user || !threadRoot) return;
+
+        const threadId = threadRoot._id.toString();
+        const sentMessage = await SecureChatService.sendMessage(leagueId, {
+            text,
+            user: {
+                _id: user.id.toString(),
+                name: user.name || user.email,
+                avatar: user.avatar,
+            },
+            leagueId,
+            channelId: channelId || undefined,
+            threadId,
+        });
+
+        // Failed replies stay in the thread so they can be retried
+        setThreadReplies(prevReplies => [...prevReplies, convertToIMessage(sentMessage)]);
+        if (sentMessage.status === 'sent') {
+            // Sent over REST, so no reply_created event will bump the count
+            setMessages(prevMessages => prevMessages.map(msg =>
+                msg._id.toString() === threadId
+                    ? { ...msg, threadReplyCount: (msg.threadReplyCount ?? 0) + 1 }
+                    : msg
+            ));
+        }
+    };
+
+    // Fetch the page of history before the oldest message shown
+    const loadEarlierMessages = async () => {
+        const oldestMessage = messages.find(msg => !msg.tempId);
+        if (!oldestMessage || loadingEarlier) return;
+
+        setLoadingEarlier(true);
+        try {
+            const olderMessages = (await SecureChatService.getMessages(
+                leagueId,
+                channelId || undefined,
+                CHAT_PAGE_SIZE,
+                oldestMessage._id.toString()
+            )).filter(message => !message.threadId);
+            const hasMore = olderMessages.length >= CHAT_PAGE_SIZE;
+
+            chatMessageStore.merge(leagueId, channelId || undefined, olderMessages, { hasMoreBefore: hasMore });
+            keepScrollPositionRef.current = true;
+            setMessages(prevMessages => {
+                const shownIds = new Set(prevMessages.map(msg => msg._id.toString()));
+                const newMessages = olderMessages
+                    .filter(message => !shownIds.has(message.id))
+                    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+                    .map(convertToIMessage);
+                return [...newMessages, ...prevMessages];
+            });
+            setHasMoreBefore(hasMore);
+        } catch (error) {
+            console.error('Error loading earlier messages:', error);
+            Alert.alert('Error', 'Failed to load earlier messages. Please try again.');
+        } finally {
+            setLoadingEarlier(false);
+        }
+    };
+
+    const startEdit = (message: DisplayChatMessage) => {
+        setReplyingTo(null);
+        setEditingMessage(message);
+        setInputText(message.text);
+    };
+
+    const cancelEdit = () => {
+        setEditingMessage(null);
+        setInputText('');
+    };
+
+    const saveEdit = async () => {
+        if (!editingMessage) return;
+
+        const original = editingMessage;
+        const text = inputText.trim();
+        setEditingMessage(null);
+        setInputText('');
+        if (!text || text === original.text) return;
+
+        const messageId = original._id.toString();
+        updateMessage(messageId, msg => ({ ...msg, text, editedAt: new Date() }));
+        const success = await SecureChatService.editMessage(leagueId, messageId, text);
+        if (success) {
+            chatMessageStore.updateMessage(leagueId, messageId, msg => ({ ...msg, text, editedAt: new Date() }));
+        } else {
+            updateMessage(messageId, msg => ({ ...msg, text: original.text, editedAt: original.editedAt }));
+            Alert.alert('Error', 'Failed to edit message. Please try again.');
+        }
+    };
+
+    const handleSubmit = () => {
+        if (editingMessage) {
+            saveEdit();
+        } else {
+            sendMessage();
+        }
+    };
+
+    const deleteMessage = async (message: DisplayChatMessage) => {
+        const messageId = message._id.toString();
+        const deletedBy = message.user._id === user?.id.toString() ? 'author' : 'moderator';
+
+        updateMessage(messageId, msg => ({ ...msg, deleted: true, deletedBy }));
+        const success = await SecureChatService.deleteMessage(leagueId, messageId);
+        if (success) {
+            chatMessageStore.updateMessage(leagueId, messageId, msg => ({ ...msg, text: '', deleted: true, deletedBy }));
+        } else {
+            updateMessage(messageId, msg => ({ ...msg, deleted: message.deleted, deletedBy: message.deletedBy }));
+            Alert.alert('Error', 'Failed to delete message. Please try again.');
+        }
+    };
+
+    const confirmDeleteMessage = (message: DisplayChatMessage) => {
+        const isOwnMessage = message.user._id === user?.id.toString();
+        Alert.alert(
+            'Delete Message',
+            isOwnMessage
+                ? 'Delete this message for everyone?'
+                : `Remove this message from ${message.user.name || 'this member'}? Everyone will see that a league owner removed it.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Delete', style: 'destructive', onPress: () => deleteMessage(message) },
+            ]
+        );
+    };
+
+    const confirmMuteUser = (message: DisplayChatMessage) => {
+        const userName = message.user.name || 'this member';
+        const muteUser = async (minutes: number, label: string) => {
+            const success = await SecureChatService.muteUser(leagueId, message.user._id.toString(), minutes);
+            if (success) {
+                Alert.alert('Member Muted', `${userName} can't send messages in this league for ${label}.`);
+            } else {
+                Alert.alert('Error', 'Failed to mute member. Please try again.');
+            }
+        };
+
+        Alert.alert(
+            `Mute ${userName}?`,
+            'They will still be able to read the chat.',
+            [
+                ...MUTE_DURATION_OPTIONS.map(option => ({
+                    text: option.label,
+                    onPress: () => muteUser(option.minutes, option.label),
+                })),
+                { text: 'Cancel', style: 'cancel' as const },
+            ]
+        );
+    };
+
+    const getMessageActions = (message: DisplayChatMessage): MessageAction[] => {
+        const userId = user?.id.toString() ?? '';
+        const author = members.find(member => member.userId.toString() === message.user._id);
+        const actions: MessageAction[] = [
+            {
+                key: 'reply',
+                label: 'Reply',
+                icon: 'arrow-undo-outline',
+                onPress: () => setReplyingTo(message),
+            },
+            {
+                key: 'thread',
+                label: 'Reply in thread',
+                icon: 'chatbubbles-outline',
+                onPress: () => openThread(message),
+            },
+        ];
+
+        const readers = getMessageReaders(message, messages, readMarkers, userId);
+        if (readers.length > 0) {
+            actions.push({
+                key: 'seen',
+                label: `Seen by ${readers.length}`,
+                icon: 'eye-outline',
+                onPress: () => Alert.alert('Seen by', readers.map(reader => reader.userName).join('\n')),
+            });
+        }
+
+        if (canEditMessage(message, userId)) {
+            actions.push({ key: 'edit', label: 'Edit', icon: 'create-outline', onPress: () => startEdit(message) });
+        }
+        if (canDeleteMessage(message, userId, userRole, author)) {
+            actions.push({
+                key: 'delete',
+                label: 'Delete',
+                icon: 'trash-outline',
+                destructive: true,
+                onPress: () => confirmDeleteMessage(message),
+            });
+        }
+        if (canMuteAuthor(message, userId, userRole, author)) {
+            actions.push({
+                key: 'mute',
+                label: `Mute ${message.user.name || 'member'}`,
+                icon: 'volume-mute-outline',
+                destructive: true,
+                onPress: () => confirmMuteUser(message),
+            });
         }
-    }, [user, leagueId, channelId, inputText, refreshOnlineUsers, scrollToBottom, isKeyboardVisible]);
+        return actions;
+    };
 
     // Render a single message
-    const renderMessage = (message: IMessage) => {
+    const renderMessage = (message: DisplayChatMessage) => {
         const isOwnMessage = message.user._id === user?.id.toString();
+        const canInteract = !message.system && !message.tempId && !message.deleted;
+        const mentionsMe = !isOwnMessage && !!user &&
+            (!!message.mentionsEveryone || !!message.mentions?.includes(user.id.toString()));
 
         return (
             <View key={message._id} style={[
@@ -441,17 +1187,119 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                     </View>
                 )}
 
-                <View style={[
-                    dynamicStyles.bubble,
-                    isOwnMessage ? themeStyles.ownBubble : themeStyles.otherBubble
-                ]}>
-                    <Text style={[
-                        themeStyles.bubbleText,
-                        isOwnMessage ? themeStyles.ownBubbleText : themeStyles.otherBubbleText
+                {message.deleted ? (
+                    <View style={[dynamicStyles.bubble, themeStyles.tombstoneBubble]}>
+                        <Text style={[themeStyles.bubbleText, themeStyles.tombstoneText]}>
+                            {message.deletedBy === 'moderator' ? 'Message removed by a league owner' : 'This message was deleted'}
+                        </Text>
+                    </View>
+                ) : (
+                    <TouchableOpacity
+                        style={[
+                            dynamicStyles.bubble,
+                            isOwnMessage ? themeStyles.ownBubble : themeStyles.otherBubble,
+                            mentionsMe && themeStyles.mentionedBubble
+                        ]}
+                        onLongPress={canInteract ? () => setActionMessage(message) : undefined}
+                        delayLongPress={300}
+                        activeOpacity={canInteract ? 0.8 : 1}
+                    >
+                        {message.replyTo && (
+                            <View style={[themeStyles.quoteContainer, isOwnMessage && themeStyles.ownQuoteContainer]}>
+                                <Text
+                                    style={[themeStyles.quoteUserName, isOwnMessage && themeStyles.ownBubbleText]}
+                                    numberOfLines={1}
+                                >
+                                    {message.replyTo.userName}
+                                </Text>
+                                <Text
+                                    style={[themeStyles.quoteText, isOwnMessage && themeStyles.ownBubbleText]}
+                                    numberOfLines={2}
+                                >
+                                    {message.replyTo.text}
+                                </Text>
+                            </View>
+                        )}
+                        {message.image && (
+                            <View style={themeStyles.imageContainer}>
+                                <Image source={{ uri: message.image }} style={themeStyles.chatImage} contentFit="cover" />
+                                {message.status === 'uploading' && (
+                                    <View style={themeStyles.imageOverlay}>
+                                        <ActivityIndicator color="white" />
+                                        <Text style={themeStyles.imageOverlayText}>
+                                            {Math.round((message.uploadProgress ?? 0) * 100)}%
+                                        </Text>
+                                    </View>
+                                )}
+                                {message.status === 'failed' && message.tempId && (
+                                    <TouchableOpacity
+                                        style={themeStyles.imageOverlay}
+                                        onPress={() => retryMessage(message)}
+                                    >
+                                        <Ionicons name="refresh" size={24} color="white" />
+                                        <Text style={themeStyles.imageOverlayText}>Tap to retry</Text>
+                                    </TouchableOpacity>
+                                )}
+                            </View>
+                        )}
+                        {!!message.text && (
+                            <Text style={[
+                                themeStyles.bubbleText,
+                                isOwnMessage ? themeStyles.ownBubbleText : themeStyles.otherBubbleText
+                            ]}>
+                                {splitMentions(message.text, memberNames).map((segment, index) => (
+                                    segment.mention ? (
+                                        <Text
+                                            key={index}
+                                            style={isOwnMessage ? themeStyles.ownMentionText : themeStyles.mentionText}
+                                        >
+                                            {segment.text}
+                                        </Text>
+                                    ) : segment.text
+                                ))}
+                            </Text>
+                        )}
+                    </TouchableOpacity>
+                )}
+
+                {/* Reactions */}
+                {!message.deleted && message.reactions && message.reactions.length > 0 && (
+                    <View style={[
+                        themeStyles.reactionsRow,
+                        isOwnMessage ? { alignSelf: 'flex-end' } : { alignSelf: 'flex-start' }
                     ]}>
-                        {message.text}
-                    </Text>
-                </View>
+                        {message.reactions.map(reaction => {
+                            const reacted = !!user && reaction.userIds.includes(user.id.toString());
+                            return (
+                                <TouchableOpacity
+                                    key={reaction.emoji}
+                                    style={[themeStyles.reactionChip, reacted && themeStyles.reactionChipSelected]}
+                                    onPress={() => toggleReaction(message, reaction.emoji)}
+                                >
+                                    <Text style={themeStyles.reactionChipText}>
+                                        {reaction.emoji} {reaction.userIds.length}
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                )}
+
+                {/* Thread link */}
+                {!!message.threadReplyCount && (
+                    <TouchableOpacity
+                        style={[
+                            themeStyles.threadLink,
+                            isOwnMessage ? { alignSelf: 'flex-end' } : { alignSelf: 'flex-start' }
+                        ]}
+                        onPress={() => openThread(message)}
+                    >
+                        <Ionicons name="chatbubbles-outline" size={14} color={currentColors.buttonPrimary} />
+                        <Text style={themeStyles.threadLinkText}>
+                            {message.threadReplyCount} {message.threadReplyCount === 1 ? 'reply' : 'replies'}
+                        </Text>
+                    </TouchableOpacity>
+                )}
 
                 {/* Message status and time row */}
                 <View style={[
@@ -463,6 +1311,7 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                         isOwnMessage ? themeStyles.ownTimeText : themeStyles.otherTimeText
                     ]}>
                         {formatTime(message.createdAt)}
+                        {message.editedAt && !message.deleted ? ' · edited' : ''}
                     </Text>
 
                     {/* Status indicator for own messages */}
@@ -475,11 +1324,9 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                                 <Ionicons name="checkmark" size={12} color={currentColors.textSecondary} />
                             )}
                             {(message as any).status === 'failed' && (
-                                <TouchableOpacity onPress={() => {
-                                    // TODO: Implement retry functionality
-                                    console.log('Retry message:', message._id);
-                                }}>
-                                    <Ionicons name="alert-circle" size={12} color="#ff4444" />
+                                <TouchableOpacity style={themeStyles.failedStatus} onPress={() => retryMessage(message)}>
+                                    <Ionicons name="alert-circle" size={12} color={currentColors.error} />
+                                    <Text style={themeStyles.failedText}>Not sent · Tap to retry</Text>
                                 </TouchableOpacity>
                             )}
                             {(message as any).status === 'queued' && (
@@ -492,6 +1339,99 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
         );
     };
 
+    // Shown at the top of the list while the server has older history
+    const renderLoadEarlier = () => {
+        if (!hasMoreBefore || messages.length === 0) return null;
+
+        return (
+            <TouchableOpacity
+                style={themeStyles.loadEarlierButton}
+                onPress={loadEarlierMessages}
+                disabled={loadingEarlier}
+            >
+                {loadingEarlier ? (
+                    <ActivityIndicator size="small" color={currentColors.primary} />
+                ) : (
+                    <Text style={themeStyles.loadEarlierText}>Load earlier messages</Text>
+                )}
+            </TouchableOpacity>
+        );
+    };
+
+    // "Seen by" line under the newest message
+    const renderSeenBy = () => {
+        const newestMessage = messages[messages.length - 1];
+        if (!newestMessage || newestMessage.tempId || newestMessage.deleted) return null;
+
+        const readers = getMessageReaders(newestMessage, messages, readMarkers, user?.id.toString());
+        if (readers.length === 0) return null;
+
+        const names = readers.map(reader => reader.userName);
+        const shownNames = names.length > 3 ? `${names.slice(0, 3).join(', ')} +${names.length - 3}` : names.join(', ');
+        return <Text style={themeStyles.seenByText}>Seen by {shownNames}</Text>;
+    };
+
+    // Autocomplete for the @mention being typed
+    const renderMentionSuggestions = () => {
+        if (!mentionQuery || editingMessage) return null;
+
+        const suggestions = getMentionSuggestions(members, mentionQuery.query, {
+            includeEveryone: isOwner,
+            excludeUserId: user?.id.toString(),
+        });
+        if (suggestions.length === 0) return null;
+
+        return (
+            <View style={themeStyles.mentionSuggestions}>
+                {suggestions.map(name => (
+                    <TouchableOpacity
+                        key={name}
+                        style={themeStyles.mentionSuggestion}
+                        onPress={() => handleInputChange(insertMention(inputText, mentionQuery, name))}
+                    >
+                        <Text style={themeStyles.mentionSuggestionText}>@{name}</Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+        );
+    };
+
+    const renderTypingIndicator = () => {
+        const typingText = formatTypingText(Object.values(typingUsers).map(typing => typing.name));
+        if (!typingText) return null;
+
+        return <Text style={themeStyles.typingText} numberOfLines={1}>{typingText}</Text>;
+    };
+
+    // Shown above the input while replying to or editing a message
+    const renderComposerBar = () => {
+        const target = editingMessage ?? replyingTo;
+        if (!target) return null;
+
+        return (
+            <View style={themeStyles.replyBar}>
+                <View style={themeStyles.replyBarContent}>
+                    <Text style={themeStyles.replyBarTitle} numberOfLines={1}>
+                        {editingMessage ? 'Editing message' : `Replying to ${target.user.name || 'Unknown User'}`}
+                    </Text>
+                    <Text style={themeStyles.replyBarText} numberOfLines={1}>
+                        {target.text}
+                    </Text>
+                </View>
+                <TouchableOpacity onPress={editingMessage ? cancelEdit : () => setReplyingTo(null)}>
+                    <Ionicons name="close" size={20} color={currentColors.textSecondary} />
+                </TouchableOpacity>
+            </View>
+        );
+    };
+
+    const memberNames = members.map(member => member.userName);
+    const mentionQuery = getMentionQuery(inputText);
+
+    const mutedNotice = mutedUntil
+        ? `You're muted until ${mutedUntil.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}`
+        : undefined;
+
     // Create theme-aware styles
     const themeStyles = StyleSheet.create({
         container: {
@@ -527,6 +1467,64 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
         loadingText: {
             color: currentColors.textPrimary,
         },
+        mentionText: {
+            fontWeight: '600',
+            color: currentColors.buttonPrimary,
+        },
+        ownMentionText: {
+            fontWeight: '700',
+            textDecorationLine: 'underline',
+        },
+        mentionedBubble: {
+            borderLeftWidth: 3,
+            borderLeftColor: currentColors.buttonPrimary,
+        },
+        mentionSuggestions: {
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+            borderRadius: 8,
+            marginBottom: 8,
+            overflow: 'hidden',
+        },
+        mentionSuggestion: {
+            paddingHorizontal: 12,
+            paddingVertical: 10,
+            backgroundColor: currentColors.backgroundSecondary,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+        },
+        mentionSuggestionText: {
+            fontSize: 15,
+            color: currentColors.textPrimary,
+        },
+        seenByText: {
+            fontSize: 12,
+            color: currentColors.textTertiary,
+            textAlign: 'right',
+            marginTop: 2,
+            marginRight: 8,
+        },
+        typingText: {
+            fontSize: 12,
+            fontStyle: 'italic',
+            color: currentColors.textSecondary,
+            marginBottom: 6,
+        },
+        loadEarlierButton: {
+            alignSelf: 'center',
+            minHeight: 32,
+            justifyContent: 'center',
+            paddingHorizontal: 16,
+            paddingVertical: 6,
+            marginBottom: 12,
+            borderRadius: 16,
+            backgroundColor: currentColors.backgroundSecondary,
+        },
+        loadEarlierText: {
+            fontSize: 13,
+            fontWeight: '600',
+            color: currentColors.buttonPrimary,
+        },
         onlineUsersHeader: {
             backgroundColor: currentColors.cardBackground,
             borderBottomWidth: 1,
@@ -715,6 +1713,15 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
             justifyContent: 'center',
             alignItems: 'center',
         },
+        failedStatus: {
+            flexDirection: 'row',
+            alignItems: 'center',
+        },
+        failedText: {
+            fontSize: 11,
+            color: currentColors.error,
+            marginLeft: 3,
+        },
         dayContainer: {
             alignItems: 'center',
             marginVertical: 10,
@@ -769,6 +1776,113 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
             fontSize: 16,
             fontWeight: '600',
         },
+        quoteContainer: {
+            borderLeftWidth: 3,
+            borderLeftColor: currentColors.buttonPrimary,
+            paddingLeft: 8,
+            marginBottom: 6,
+            opacity: 0.85,
+        },
+        ownQuoteContainer: {
+            borderLeftColor: 'white',
+        },
+        quoteUserName: {
+            fontSize: 12,
+            fontWeight: '600',
+            color: currentColors.textSecondary,
+        },
+        quoteText: {
+            fontSize: 13,
+            color: currentColors.textSecondary,
+        },
+        reactionsRow: {
+            flexDirection: 'row',
+            flexWrap: 'wrap',
+            gap: 4,
+            marginTop: 2,
+        },
+        reactionChip: {
+            paddingHorizontal: 8,
+            paddingVertical: 2,
+            borderRadius: 12,
+            backgroundColor: currentColors.backgroundSecondary,
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+        },
+        reactionChipSelected: {
+            borderColor: currentColors.buttonPrimary,
+        },
+        reactionChipText: {
+            fontSize: 13,
+            color: currentColors.textPrimary,
+        },
+        threadLink: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            marginTop: 4,
+            paddingHorizontal: 4,
+        },
+        threadLinkText: {
+            fontSize: 12,
+            fontWeight: '600',
+            color: currentColors.buttonPrimary,
+            marginLeft: 4,
+        },
+        imageContainer: {
+            borderRadius: 12,
+            overflow: 'hidden',
+            marginBottom: 6,
+        },
+        chatImage: {
+            width: Math.min(240, bubbleMaxWidth - 32),
+            height: Math.min(240, bubbleMaxWidth - 32),
+        },
+        imageOverlay: {
+            ...StyleSheet.absoluteFillObject,
+            backgroundColor: 'rgba(0, 0, 0, 0.45)',
+            justifyContent: 'center',
+            alignItems: 'center',
+        },
+        imageOverlayText: {
+            color: 'white',
+            fontSize: 13,
+            fontWeight: '600',
+            marginTop: 6,
+        },
+        tombstoneBubble: {
+            backgroundColor: 'transparent',
+            borderWidth: 1,
+            borderStyle: 'dashed',
+            borderColor: currentColors.borderMedium,
+            shadowOpacity: 0,
+            elevation: 0,
+        },
+        tombstoneText: {
+            fontSize: 14,
+            fontStyle: 'italic',
+            color: currentColors.textSecondary,
+        },
+        replyBar: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            borderLeftWidth: 3,
+            borderLeftColor: currentColors.buttonPrimary,
+            paddingLeft: 8,
+            marginBottom: 8,
+        },
+        replyBarContent: {
+            flex: 1,
+            marginRight: 8,
+        },
+        replyBarTitle: {
+            fontSize: 12,
+            fontWeight: '600',
+            color: currentColors.buttonPrimary,
+        },
+        replyBarText: {
+            fontSize: 13,
+            color: currentColors.textSecondary,
+        },
     });
 
     if (loading) {
@@ -781,6 +1895,8 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
 
     return (
         <View style={themeStyles.container}>
+            <ConnectionStatusBanner status={connectionStatus} onRetry={SecureChatService.reconnectWebSocket} />
+
             {/* Online Users Header */}
             <View style={themeStyles.onlineUsersHeader}>
                 <TouchableOpacity
@@ -841,17 +1957,34 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                         automaticallyAdjustKeyboardInsets={false}
                         contentInsetAdjustmentBehavior="never"
                     >
+                        {renderLoadEarlier()}
                         {messages.map(renderMessage)}
+                        {renderSeenBy()}
                     </ScrollView>
 
                     {/* Input Area */}
                     <View style={themeStyles.inputArea}>
+                        {renderMentionSuggestions()}
+                        {renderTypingIndicator()}
+                        {renderComposerBar()}
                         <View style={themeStyles.inputContainer}>
+                            <TouchableOpacity
+                                onPress={sendImage}
+                                disabled={!!editingMessage || !!mutedNotice}
+                                accessibilityLabel="Send an image"
+                            >
+                                <Ionicons
+                                    name="image-outline"
+                                    size={24}
+                                    color={editingMessage || mutedNotice ? currentColors.textTertiary : currentColors.buttonPrimary}
+                                />
+                            </TouchableOpacity>
                             <TextInput
                                 style={themeStyles.textInput}
                                 value={inputText}
-                                onChangeText={setInputText}
-                                placeholder={`Message ${leagueName}...`}
+                                onChangeText={handleInputChange}
+                                placeholder={mutedNotice ?? `Message ${leagueName}...`}
+                                editable={!mutedNotice}
                                 placeholderTextColor={currentColors.textSecondary}
                                 multiline
                                 maxLength={1000}
@@ -863,7 +1996,7 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                                 }}
                                 onSubmitEditing={() => {
                                     if (inputText.trim()) {
-                                        sendMessage();
+                                        handleSubmit();
                                     }
                                 }}
                                 blurOnSubmit={false}
@@ -875,11 +2008,11 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                                     themeStyles.sendButton,
                                     inputText.trim().length > 0 ? themeStyles.sendButtonEnabled : themeStyles.sendButtonDisabled
                                 ]}
-                                onPress={inputText.trim().length > 0 ? sendMessage : undefined}
+                                onPress={inputText.trim().length > 0 ? handleSubmit : undefined}
                                 disabled={inputText.trim().length === 0}
                             >
                                 <Ionicons
-                                    name="send"
+                                    name={editingMessage ? 'checkmark' : 'send'}
                                     size={20}
                                     color={inputText.trim().length > 0 ? "white" : currentColors.textSecondary}
                                 />
@@ -899,17 +2032,34 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                         automaticallyAdjustKeyboardInsets={false}
                         contentInsetAdjustmentBehavior="never"
                     >
+                        {renderLoadEarlier()}
                         {messages.map(renderMessage)}
+                        {renderSeenBy()}
                     </ScrollView>
 
                     {/* Input Area */}
                     <View style={themeStyles.inputArea}>
+                        {renderMentionSuggestions()}
+                        {renderTypingIndicator()}
+                        {renderComposerBar()}
                         <View style={themeStyles.inputContainer}>
+                            <TouchableOpacity
+                                onPress={sendImage}
+                                disabled={!!editingMessage || !!mutedNotice}
+                                accessibilityLabel="Send an image"
+                            >
+                                <Ionicons
+                                    name="image-outline"
+                                    size={24}
+                                    color={editingMessage || mutedNotice ? currentColors.textTertiary : currentColors.buttonPrimary}
+                                />
+                            </TouchableOpacity>
                             <TextInput
                                 style={themeStyles.textInput}
                                 value={inputText}
-                                onChangeText={setInputText}
-                                placeholder={`Message ${leagueName}...`}
+                                onChangeText={handleInputChange}
+                                placeholder={mutedNotice ?? `Message ${leagueName}...`}
+                                editable={!mutedNotice}
                                 placeholderTextColor={currentColors.textSecondary}
                                 multiline
                                 maxLength={1000}
@@ -921,7 +2071,7 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                                 }}
                                 onSubmitEditing={() => {
                                     if (inputText.trim()) {
-                                        sendMessage();
+                                        handleSubmit();
                                     }
                                 }}
                                 blurOnSubmit={false}
@@ -933,11 +2083,11 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                                     themeStyles.sendButton,
                                     inputText.trim().length > 0 ? themeStyles.sendButtonEnabled : themeStyles.sendButtonDisabled
                                 ]}
-                                onPress={inputText.trim().length > 0 ? sendMessage : undefined}
+                                onPress={inputText.trim().length > 0 ? handleSubmit : undefined}
                                 disabled={inputText.trim().length === 0}
                             >
                                 <Ionicons
-                                    name="send"
+                                    name={editingMessage ? 'checkmark' : 'send'}
                                     size={20}
                                     color={inputText.trim().length > 0 ? "white" : currentColors.textSecondary}
                                 />
@@ -946,6 +2096,31 @@ export const LeagueChat: React.FC<LeagueChatProps> = ({
                     </View>
                 </View>
             )}
+
+            <MessageActionSheet
+                visible={actionMessage !== null}
+                onClose={() => setActionMessage(null)}
+                messagePreview={actionMessage?.text}
+                selectedReactions={actionMessage && user
+                    ? (actionMessage.reactions ?? [])
+                        .filter(reaction => reaction.userIds.includes(user.id.toString()))
+                        .map(reaction => reaction.emoji)
+                    : []}
+                onReact={(emoji) => actionMessage && toggleReaction(actionMessage, emoji)}
+                actions={actionMessage ? getMessageActions(actionMessage) : []}
+            />
+
+            <MessageThreadModal
+                visible={threadRoot !== null}
+                onClose={closeThread}
+                root={threadRoot}
+                replies={threadReplies}
+                loading={threadLoading}
+                currentUserId={user?.id.toString()}
+                onSend={sendThreadReply}
+                onRetry={retryMessage}
+                disabledReason={mutedNotice}
+            />
         </View>
     );
 };
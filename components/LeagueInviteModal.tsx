@@ -0,0 +1,546 @@
+import React, { useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+    TextInput,
+    ActivityIndicator,
+    Alert,
+    Clipboard,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import QRCode from 'react-native-qrcode-svg';
+import { useTheme } from '../src/context/ThemeContext';
+import { lightColors, darkColors } from '../src/constants/Colors';
+import { typedAuthAPI, typedLeaguesAPI } from '../src/services/apiClient';
+import { LeagueInvite, UserSearchResult } from '../src/types';
+import {
+    INVITE_EXPIRY_OPTIONS,
+    INVITE_USE_OPTIONS,
+    MIN_USER_SEARCH_LENGTH,
+    describeInvite,
+    getInviteUrl,
+} from '../utils/invites';
+
+interface LeagueInviteModalProps {
+    visible: boolean;
+    leagueId: number;
+    leagueName: string;
+    joinCode?: string; // Missing while the join code is turned off
+    canManage: boolean; // Owners can change the join code and create invites
+    onClose: () => void;
+    onJoinCodeChange: (joinCode?: string) => void;
+}
+
+// Wait for a pause in typing before searching for users
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Share a league as a QR code or link, and for owners manage the join code and invites
+ */
+export const LeagueInviteModal: React.FC<LeagueInviteModalProps> = ({
+    visible,
+    leagueId,
+    leagueName,
+    joinCode,
+    canManage,
+    onClose,
+    onJoinCodeChange,
+}) => {
+    const { resolvedTheme } = useTheme();
+    const [invites, setInvites] = useState<LeagueInvite[]>([]);
+    // Invite whose QR code is showing; the join code when null
+    const [selectedInvite, setSelectedInvite] = useState<LeagueInvite | null>(null);
+    const [maxUses, setMaxUses] = useState<number | null>(1);
+    const [expiresInHours, setExpiresInHours] = useState<number | null>(24 * 7);
+    const [pending, setPending] = useState(false);
+    const [copied, setCopied] = useState(false);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchResults, setSearchResults] = useState<UserSearchResult[]>([]);
+    const [searching, setSearching] = useState(false);
+
+    // Get current theme colors
+    const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+    useEffect(() => {
+        if (!visible) return;
+        setSelectedInvite(null);
+        setSearchQuery('');
+        setSearchResults([]);
+        if (!canManage) return;
+        let isActive = true;
+
+        typedLeaguesAPI.getInvites(leagueId).then(result => {
+            if (!isActive || !result.ok) return;
+            setInvites(result.data.filter(invite => invite.status === 'valid'));
+        });
+
+        return () => {
+            isActive = false;
+        };
+    }, [visible, leagueId, canManage]);
+
+    useEffect(() => {
+        const query = searchQuery.trim();
+        if (query.length < MIN_USER_SEARCH_LENGTH) {
+            setSearchResults([]);
+            setSearching(false);
+            return;
+        }
+        let isActive = true;
+
+        setSearching(true);
+        const timer = setTimeout(() => {
+            typedAuthAPI.searchUsers(query).then(result => {
+                if (!isActive) return;
+                setSearchResults(result.ok ? result.data : []);
+                setSearching(false);
+            });
+        }, SEARCH_DELAY_MS);
+
+        return () => {
+            isActive = false;
+            clearTimeout(timer);
+        };
+    }, [searchQuery]);
+
+    const shownCode = selectedInvite?.code ?? joinCode;
+
+    const copyLink = async () => {
+        if (!shownCode) return;
+        try {
+            await Clipboard.setString(getInviteUrl(shownCode));
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.error('Failed to copy to clipboard:', error);
+            Alert.alert('Error', 'Failed to copy link to clipboard');
+        }
+    };
+
+    const regenerateJoinCode = async () => {
+        setPending(true);
+        const result = await typedLeaguesAPI.regenerateJoinCode(leagueId);
+        setPending(false);
+        if (result.ok) {
+            setSelectedInvite(null);
+            onJoinCodeChange(result.data.joinCode);
+        } else {
+            Alert.alert('Error', result.error.message);
+        }
+    };
+
+    const revokeJoinCode = async () => {
+        setPending(true);
+        const result = await typedLeaguesAPI.revokeJoinCode(leagueId);
+        setPending(false);
+        if (result.ok) {
+            onJoinCodeChange(undefined);
+        } else {
+            Alert.alert('Error', result.error.message);
+        }
+    };
+
+    const confirmRegenerateJoinCode = () => {
+        Alert.alert(
+            'New Join Code',
+            'Links and QR codes with the current code will stop working. Invites you created are not affected.',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Regenerate', style: 'destructive', onPress: regenerateJoinCode },
+            ]
+        );
+    };
+
+    const confirmRevokeJoinCode = () => {
+        Alert.alert(
+            'Turn Off Join Code',
+            'Nobody will be able to join with the current code. People can still join with invites, and you can create a new code at any time.',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Turn Off', style: 'destructive', onPress: revokeJoinCode },
+            ]
+        );
+    };
+
+    const createInvite = async (user?: UserSearchResult) => {
+        setPending(true);
+        const result = await typedLeaguesAPI.createInvite(leagueId, {
+            // Invites for a specific user only ever need one use
+            maxUses: user ? 1 : maxUses,
+            expiresInHours,
+            userId: user?.id,
+        });
+        setPending(false);
+        if (!result.ok) {
+            Alert.alert('Error', result.error.message);
+            return;
+        }
+        setInvites(prev => [result.data, ...prev]);
+        if (user) {
+            setSearchQuery('');
+            Alert.alert('Invite Sent', `${user.name} has been invited to ${leagueName}.`);
+        } else {
+            setSelectedInvite(result.data);
+        }
+    };
+
+    const revokeInvite = async (invite: LeagueInvite) => {
+        const result = await typedLeaguesAPI.revokeInvite(leagueId, invite.id);
+        if (result.ok) {
+            setInvites(prev => prev.filter(i => i.id !== invite.id));
+            setSelectedInvite(current => (current?.id === invite.id ? null : current));
+        } else {
+            Alert.alert('Error', result.error.message);
+        }
+    };
+
+    // Create theme-aware styles
+    const styles = StyleSheet.create({
+        container: {
+            flex: 1,
+            backgroundColor: currentColors.backgroundPrimary,
+        },
+        header: {
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            backgroundColor: currentColors.cardBackground,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+            paddingHorizontal: 16,
+            paddingVertical: 16,
+        },
+        headerTitle: {
+            flex: 1,
+            fontSize: 20,
+            fontWeight: 'bold',
+            color: currentColors.textPrimary,
+            marginRight: 12,
+        },
+        headerButtonText: {
+            fontSize: 16,
+            fontWeight: '600',
+            color: currentColors.buttonPrimary,
+        },
+        content: {
+            padding: 16,
+            paddingBottom: 40,
+        },
+        qrCard: {
+            alignItems: 'center',
+            backgroundColor: currentColors.cardBackground,
+            borderRadius: 12,
+            padding: 20,
+        },
+        // QR codes need a light background to scan reliably, even in dark mode
+        qrBackground: {
+            padding: 12,
+            borderRadius: 8,
+            backgroundColor: 'white',
+        },
+        qrCaption: {
+            fontSize: 13,
+            color: currentColors.textSecondary,
+            marginTop: 12,
+            textAlign: 'center',
+        },
+        codeText: {
+            fontSize: 20,
+            fontWeight: 'bold',
+            letterSpacing: 2,
+            color: currentColors.textPrimary,
+            marginTop: 4,
+        },
+        copyButton: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            marginTop: 16,
+            paddingHorizontal: 16,
+            paddingVertical: 10,
+            borderRadius: 8,
+            backgroundColor: currentColors.buttonPrimary,
+        },
+        copyButtonText: {
+            fontSize: 15,
+            fontWeight: '600',
+            color: currentColors.textInverse,
+            marginLeft: 6,
+        },
+        showJoinCodeText: {
+            fontSize: 14,
+            fontWeight: '500',
+            color: currentColors.buttonPrimary,
+            marginTop: 12,
+        },
+        emptyText: {
+            fontSize: 14,
+            color: currentColors.textSecondary,
+            textAlign: 'center',
+        },
+        sectionLabel: {
+            fontSize: 14,
+            fontWeight: '600',
+            color: currentColors.textSecondary,
+            marginTop: 24,
+            marginBottom: 8,
+        },
+        linkRow: {
+            flexDirection: 'row',
+            gap: 16,
+        },
+        linkText: {
+            fontSize: 14,
+            fontWeight: '500',
+            color: currentColors.buttonPrimary,
+        },
+        destructiveLinkText: {
+            color: currentColors.error,
+        },
+        optionRow: {
+            flexDirection: 'row',
+            flexWrap: 'wrap',
+            gap: 8,
+            marginBottom: 8,
+        },
+        chip: {
+            paddingHorizontal: 12,
+            paddingVertical: 6,
+            borderRadius: 16,
+            backgroundColor: currentColors.backgroundTertiary,
+        },
+        chipSelected: {
+            backgroundColor: currentColors.buttonPrimary,
+        },
+        chipText: {
+            fontSize: 13,
+            color: currentColors.textSecondary,
+        },
+        chipTextSelected: {
+            color: currentColors.textInverse,
+            fontWeight: '600',
+        },
+        createButton: {
+            alignItems: 'center',
+            paddingVertical: 10,
+            borderRadius: 8,
+            borderWidth: 1,
+            borderColor: currentColors.buttonPrimary,
+            marginTop: 4,
+        },
+        createButtonText: {
+            fontSize: 15,
+            fontWeight: '600',
+            color: currentColors.buttonPrimary,
+        },
+        buttonDisabled: {
+            opacity: 0.5,
+        },
+        searchInput: {
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+            borderRadius: 8,
+            paddingHorizontal: 12,
+            paddingVertical: 10,
+            fontSize: 15,
+            color: currentColors.textPrimary,
+            backgroundColor: currentColors.backgroundSecondary,
+        },
+        listRow: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            paddingVertical: 10,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+        },
+        listRowSelected: {
+            backgroundColor: currentColors.buttonPrimary + '15',
+        },
+        listRowContent: {
+            flex: 1,
+            marginRight: 12,
+        },
+        listTitle: {
+            fontSize: 15,
+            fontWeight: '600',
+            color: currentColors.textPrimary,
+        },
+        listSubtitle: {
+            fontSize: 13,
+            color: currentColors.textSecondary,
+            marginTop: 2,
+        },
+        hint: {
+            fontSize: 12,
+            color: currentColors.textTertiary,
+            marginTop: 8,
+        },
+    });
+
+    const renderQrCode = () => {
+        if (!shownCode) {
+            return (
+                <View style={styles.qrCard}>
+                    <Text style={styles.emptyText}>
+                        The join code is turned off. {canManage
+                            ? 'Create an invite below or generate a new code.'
+                            : 'Ask a league owner for an invite.'}
+                    </Text>
+                </View>
+            );
+        }
+
+        return (
+            <View style={styles.qrCard}>
+                <View style={styles.qrBackground}>
+                    <QRCode value={getInviteUrl(shownCode)} size={180} />
+                </View>
+                <Text style={styles.qrCaption}>
+                    {selectedInvite ? describeInvite(selectedInvite) : 'Scan to join with the league code'}
+                </Text>
+                <Text style={styles.codeText}>{shownCode}</Text>
+                <TouchableOpacity style={styles.copyButton} onPress={copyLink}>
+                    <Ionicons name={copied ? 'checkmark' : 'copy-outline'} size={18} color={currentColors.textInverse} />
+                    <Text style={styles.copyButtonText}>{copied ? 'Copied' : 'Copy Link'}</Text>
+                </TouchableOpacity>
+                {selectedInvite && joinCode && (
+                    <TouchableOpacity onPress={() => setSelectedInvite(null)}>
+                        <Text style={styles.showJoinCodeText}>Show join code instead</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+        );
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            presentationStyle="pageSheet"
+            onRequestClose={onClose}
+        >
+            <SafeAreaView style={styles.container} edges={['top', 'left', 'right', 'bottom']}>
+                <View style={styles.header}>
+                    <Text style={styles.headerTitle} numberOfLines={1}>Invite to {leagueName}</Text>
+                    <TouchableOpacity onPress={onClose}>
+                        <Text style={styles.headerButtonText}>Done</Text>
+                    </TouchableOpacity>
+                </View>
+
+                <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                    {renderQrCode()}
+
+                    {canManage && (
+                        <>
+                            <Text style={styles.sectionLabel}>Join code</Text>
+                            <View style={styles.linkRow}>
+                                <TouchableOpacity onPress={confirmRegenerateJoinCode} disabled={pending}>
+                                    <Text style={styles.linkText}>{joinCode ? 'Regenerate' : 'Generate new code'}</Text>
+                                </TouchableOpacity>
+                                {joinCode && (
+                                    <TouchableOpacity onPress={confirmRevokeJoinCode} disabled={pending}>
+                                        <Text style={[styles.linkText, styles.destructiveLinkText]}>Turn off</Text>
+                                    </TouchableOpacity>
+                                )}
+                            </View>
+
+                            <Text style={styles.sectionLabel}>New invite</Text>
+                            <View style={styles.optionRow}>
+                                {INVITE_USE_OPTIONS.map(option => (
+                                    <TouchableOpacity
+                                        key={option.label}
+                                        style={[styles.chip, maxUses === option.maxUses && styles.chipSelected]}
+                                        onPress={() => setMaxUses(option.maxUses)}
+                                    >
+                                        <Text style={[styles.chipText, maxUses === option.maxUses && styles.chipTextSelected]}>
+                                            {option.label}
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+                            <View style={styles.optionRow}>
+                                {INVITE_EXPIRY_OPTIONS.map(option => (
+                                    <TouchableOpacity
+                                        key={option.label}
+                                        style={[styles.chip, expiresInHours === option.expiresInHours && styles.chipSelected]}
+                                        onPress={() => setExpiresInHours(option.expiresInHours)}
+                                    >
+                                        <Text style={[
+                                            styles.chipText,
+                                            expiresInHours === option.expiresInHours && styles.chipTextSelected
+                                        ]}>
+                                            {option.expiresInHours === null ? 'Never expires' : `Expires in ${option.label}`}
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+                            <TouchableOpacity
+                                style={[styles.createButton, pending && styles.buttonDisabled]}
+                                onPress={() => createInvite()}
+                                disabled={pending}
+                            >
+                                <Text style={styles.createButtonText}>Create Invite</Text>
+                            </TouchableOpacity>
+
+                            <Text style={styles.sectionLabel}>Invite by name</Text>
+                            <TextInput
+                                style={styles.searchInput}
+                                value={searchQuery}
+                                onChangeText={setSearchQuery}
+                                placeholder="Search FinalPoint users"
+                                placeholderTextColor={currentColors.textTertiary}
+                                autoCapitalize="none"
+                                autoCorrect={false}
+                            />
+                            {searching ? (
+                                <ActivityIndicator size="small" color={currentColors.primary} style={{ marginTop: 12 }} />
+                            ) : (
+                                searchResults.map(user => (
+                                    <View key={user.id} style={styles.listRow}>
+                                        <Text style={[styles.listTitle, styles.listRowContent]} numberOfLines={1}>
+                                            {user.name}
+                                        </Text>
+                                        <TouchableOpacity onPress={() => createInvite(user)} disabled={pending}>
+                                            <Text style={styles.linkText}>Invite</Text>
+                                        </TouchableOpacity>
+                                    </View>
+                                ))
+                            )}
+                            {!searching && searchQuery.trim().length >= MIN_USER_SEARCH_LENGTH && searchResults.length === 0 && (
+                                <Text style={styles.hint}>No users found.</Text>
+                            )}
+                            <Text style={styles.hint}>They get a single-use invite that only works for them.</Text>
+
+                            <Text style={styles.sectionLabel}>Active invites</Text>
+                            {invites.length === 0 ? (
+                                <Text style={styles.hint}>No active invites.</Text>
+                            ) : (
+                                invites.map(invite => (
+                                    <TouchableOpacity
+                                        key={invite.id}
+                                        style={[styles.listRow, selectedInvite?.id === invite.id && styles.listRowSelected]}
+                                        onPress={() => setSelectedInvite(invite)}
+                                    >
+                                        <View style={styles.listRowContent}>
+                                            <Text style={styles.listTitle}>{invite.code}</Text>
+                                            <Text style={styles.listSubtitle}>{describeInvite(invite)}</Text>
+                                        </View>
+                                        <TouchableOpacity onPress={() => revokeInvite(invite)} hitSlop={8}>
+                                            <Text style={[styles.linkText, styles.destructiveLinkText]}>Revoke</Text>
+                                        </TouchableOpacity>
+                                    </TouchableOpacity>
+                                ))
+                            )}
+                        </>
+                    )}
+                </ScrollView>
+            </SafeAreaView>
+        </Modal>
+    );
+};
+
+export default LeagueInviteModal;
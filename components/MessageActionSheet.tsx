@@ -0,0 +1,164 @@
+import React from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    Pressable,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../src/context/ThemeContext';
+import { lightColors, darkColors } from '../src/constants/Colors';
+import { QUICK_REACTIONS } from '../utils/chatReactions';
+
+export interface MessageAction {
+    key: string;
+    label: string;
+    icon: React.ComponentProps<typeof Ionicons>['name'];
+    onPress: () => void;
+    destructive?: boolean;
+}
+
+interface MessageActionSheetProps {
+    visible: boolean;
+    onClose: () => void;
+    messagePreview?: string;
+    selectedReactions?: string[]; // Emojis the current user already reacted with
+    onReact?: (emoji: string) => void; // Omit to hide the reaction row
+    actions: MessageAction[];
+}
+
+/**
+ * Bottom sheet shown when a chat message is long-pressed
+ */
+export const MessageActionSheet: React.FC<MessageActionSheetProps> = ({
+    visible,
+    onClose,
+    messagePreview,
+    selectedReactions = [],
+    onReact,
+    actions,
+}) => {
+    const { resolvedTheme } = useTheme();
+    const insets = useSafeAreaInsets();
+
+    // Get current theme colors
+    const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+    // Create theme-aware styles
+    const styles = StyleSheet.create({
+        backdrop: {
+            flex: 1,
+            backgroundColor: 'rgba(0, 0, 0, 0.4)',
+            justifyContent: 'flex-end',
+        },
+        sheet: {
+            backgroundColor: currentColors.cardBackground,
+            borderTopLeftRadius: 16,
+            borderTopRightRadius: 16,
+            paddingTop: 12,
+            paddingBottom: Math.max(16, insets.bottom),
+        },
+        preview: {
+            fontSize: 14,
+            color: currentColors.textSecondary,
+            paddingHorizontal: 20,
+            marginBottom: 12,
+        },
+        reactionRow: {
+            flexDirection: 'row',
+            justifyContent: 'space-around',
+            paddingHorizontal: 12,
+            paddingBottom: 12,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+        },
+        reactionButton: {
+            width: 44,
+            height: 44,
+            borderRadius: 22,
+            justifyContent: 'center',
+            alignItems: 'center',
+        },
+        reactionButtonSelected: {
+            backgroundColor: currentColors.primary + '20',
+        },
+        reactionEmoji: {
+            fontSize: 24,
+        },
+        actionRow: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            paddingHorizontal: 20,
+            paddingVertical: 14,
+        },
+        actionLabel: {
+            fontSize: 16,
+            color: currentColors.textPrimary,
+            marginLeft: 12,
+        },
+        destructiveLabel: {
+            color: currentColors.error,
+        },
+    });
+
+    const runAction = (action: MessageAction) => {
+        onClose();
+        action.onPress();
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <Pressable style={styles.backdrop} onPress={onClose}>
+                {/* Swallow presses on the sheet itself so they don't close it */}
+                <Pressable style={styles.sheet} onPress={() => { }}>
+                    {messagePreview ? (
+                        <Text style={styles.preview} numberOfLines={2}>{messagePreview}</Text>
+                    ) : null}
+
+                    {onReact && (
+                        <View style={styles.reactionRow}>
+                            {QUICK_REACTIONS.map(emoji => (
+                                <TouchableOpacity
+                                    key={emoji}
+                                    style={[
+                                        styles.reactionButton,
+                                        selectedReactions.includes(emoji) && styles.reactionButtonSelected,
+                                    ]}
+                                    onPress={() => {
+                                        onClose();
+                                        onReact(emoji);
+                                    }}
+                                >
+                                    <Text style={styles.reactionEmoji}>{emoji}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    )}
+
+                    {actions.map(action => (
+                        <TouchableOpacity key={action.key} style={styles.actionRow} onPress={() => runAction(action)}>
+                            <Ionicons
+                                name={action.icon}
+                                size={20}
+                                color={action.destructive ? currentColors.error : currentColors.textSecondary}
+                            />
+                            <Text style={[styles.actionLabel, action.destructive && styles.destructiveLabel]}>
+                                {action.label}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </Pressable>
+            </Pressable>
+        </Modal>
+    );
+};
+
+export default MessageActionSheet;
@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+    TextInput,
+    ActivityIndicator,
+    KeyboardAvoidingView,
+    Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../src/context/ThemeContext';
+import { lightColors, darkColors } from '../src/constants/Colors';
+import { DisplayChatMessage } from '../src/types/chat';
+
+interface MessageThreadModalProps {
+    visible: boolean;
+    onClose: () => void;
+    root: DisplayChatMessage | null; // Message the thread hangs off
+    replies: DisplayChatMessage[];
+    loading: boolean;
+    currentUserId?: string;
+    onSend: (text: string) => void;
+    onRetry: (message: DisplayChatMessage) => void; // Called when a reply that failed to send is tapped
+    disabledReason?: string; // Shown in place of the input placeholder when the user can't post
+}
+
+const formatTime = (date: Date | number) =>
+    new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const MessageThreadModal: React.FC<MessageThreadModalProps> = ({
+    visible,
+    onClose,
+    root,
+    replies,
+    loading,
+    currentUserId,
+    onSend,
+    onRetry,
+    disabledReason,
+}) => {
+    const { resolvedTheme } = useTheme();
+    const [inputText, setInputText] = useState('');
+
+    // Get current theme colors
+    const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+    const handleSend = () => {
+        const text = inputText.trim();
+        if (!text) return;
+        setInputText('');
+        onSend(text);
+    };
+
+    // Create theme-aware styles
+    const styles = StyleSheet.create({
+        container: {
+            flex: 1,
+            backgroundColor: currentColors.backgroundPrimary,
+        },
+        header: {
+            backgroundColor: currentColors.cardBackground,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+            paddingHorizontal: 16,
+            paddingVertical: 16,
+        },
+        headerContent: {
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+        },
+        headerTitle: {
+            fontSize: 20,
+            fontWeight: 'bold',
+            color: currentColors.textPrimary,
+            flex: 1,
+        },
+        closeButton: {
+            width: 32,
+            height: 32,
+            borderRadius: 16,
+            backgroundColor: currentColors.borderLight,
+            justifyContent: 'center',
+            alignItems: 'center',
+        },
+        closeButtonText: {
+            fontSize: 16,
+            color: currentColors.textSecondary,
+            fontWeight: 'bold',
+        },
+        content: {
+            padding: 16,
+        },
+        messageRow: {
+            marginBottom: 12,
+        },
+        rootMessage: {
+            paddingBottom: 12,
+            marginBottom: 12,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+        },
+        messageMeta: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            marginBottom: 2,
+        },
+        userName: {
+            fontSize: 13,
+            fontWeight: '600',
+            color: currentColors.textPrimary,
+        },
+        ownUserName: {
+            color: currentColors.buttonPrimary,
+        },
+        timeText: {
+            fontSize: 12,
+            color: currentColors.textTertiary,
+            marginLeft: 8,
+        },
+        messageText: {
+            fontSize: 15,
+            lineHeight: 21,
+            color: currentColors.textPrimary,
+        },
+        sendingText: {
+            color: currentColors.textSecondary,
+        },
+        failedText: {
+            fontSize: 12,
+            color: currentColors.error,
+            marginTop: 2,
+        },
+        deletedText: {
+            fontStyle: 'italic',
+            color: currentColors.textSecondary,
+        },
+        replyCount: {
+            fontSize: 13,
+            color: currentColors.textSecondary,
+            marginBottom: 12,
+        },
+        inputArea: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            backgroundColor: currentColors.cardBackground,
+            borderTopWidth: 1,
+            borderTopColor: currentColors.borderLight,
+            paddingHorizontal: 16,
+            paddingVertical: 12,
+            gap: 12,
+        },
+        textInput: {
+            flex: 1,
+            fontSize: 16,
+            backgroundColor: currentColors.backgroundSecondary,
+            color: currentColors.textPrimary,
+            paddingVertical: 10,
+            paddingHorizontal: 16,
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+            borderRadius: 20,
+            maxHeight: 100,
+        },
+        sendButton: {
+            width: 40,
+            height: 40,
+            borderRadius: 20,
+            justifyContent: 'center',
+            alignItems: 'center',
+            backgroundColor: currentColors.buttonPrimary,
+        },
+        sendButtonDisabled: {
+            backgroundColor: currentColors.backgroundSecondary,
+        },
+    });
+
+    const renderMessage = (message: DisplayChatMessage, isRoot = false) => {
+        const isOwnMessage = message.user._id === currentUserId;
+        return (
+            <View key={message._id} style={[styles.messageRow, isRoot && styles.rootMessage]}>
+                <View style={styles.messageMeta}>
+                    <Text style={[styles.userName, isOwnMessage && styles.ownUserName]}>
+                        {message.user.name || 'Unknown User'}
+                    </Text>
+                    <Text style={styles.timeText}>
+                        {formatTime(message.createdAt)}
+                        {message.editedAt && !message.deleted ? ' · edited' : ''}
+                    </Text>
+                </View>
+                {message.deleted ? (
+                    <Text style={[styles.messageText, styles.deletedText]}>
+                        {message.deletedBy === 'moderator' ? 'Message removed by a league owner' : 'This message was deleted'}
+                    </Text>
+                ) : (
+                    <Text style={[styles.messageText, message.status === 'sending' && styles.sendingText]}>
+                        {message.text}
+                    </Text>
+                )}
+                {message.status === 'failed' && (
+                    <TouchableOpacity onPress={() => onRetry(message)}>
+                        <Text style={styles.failedText}>Not sent · Tap to retry</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+        );
+    };
+
+    const canSend = inputText.trim().length > 0 && !disabledReason;
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            presentationStyle="pageSheet"
+            onRequestClose={onClose}
+        >
+            <SafeAreaView style={styles.container} edges={['top', 'left', 'right', 'bottom']}>
+                {/* Header */}
+                <View style={styles.header}>
+                    <View style={styles.headerContent}>
+                        <Text style={styles.headerTitle}>Thread</Text>
+                        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+                            <Text style={styles.closeButtonText}>✕</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+
+                <KeyboardAvoidingView
+                    style={styles.container}
+                    behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+                >
+                    <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                        {root && renderMessage(root, true)}
+                        {loading ? (
+                            <ActivityIndicator size="small" color={currentColors.primary} />
+                        ) : (
+                            <>
+                                <Text style={styles.replyCount}>
+                                    {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+                                </Text>
+                                {replies.map(reply => renderMessage(reply))}
+                            </>
+                        )}
+                    </ScrollView>
+
+                    <View style={styles.inputArea}>
+                        <TextInput
+                            style={styles.textInput}
+                            value={inputText}
+                            onChangeText={setInputText}
+                            placeholder={disabledReason ?? 'Reply in thread...'}
+                            editable={!disabledReason}
+                            placeholderTextColor={currentColors.textSecondary}
+                            multiline
+                            maxLength={1000}
+                        />
+                        <TouchableOpacity
+                            style={[styles.sendButton, !canSend && styles.sendButtonDisabled]}
+                            onPress={handleSend}
+                            disabled={!canSend}
+                        >
+                            <Ionicons name="send" size={20} color={canSend ? 'white' : currentColors.textSecondary} />
+                        </TouchableOpacity>
+                    </View>
+                </KeyboardAvoidingView>
+            </SafeAreaView>
+        </Modal>
+    );
+};
+
+export default MessageThreadModal;
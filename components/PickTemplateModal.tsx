@@ -0,0 +1,343 @@
+import React, { useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+    ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Driver, League, PickV2 } from '../src/types';
+import { typedPicksAPI } from '../src/services/apiClient';
+import { useTheme } from '../src/context/ThemeContext';
+import { lightColors, darkColors } from '../src/constants/Colors';
+import { buildPickTemplate, PickTemplate, SkippedPickReason } from '../utils/pickTemplates';
+
+type TemplateSource = 'lastWeek' | number; // number = league ID to copy from
+
+interface PickTemplateModalProps {
+    visible: boolean;
+    onClose: () => void;
+    leagueId: number;
+    weekNumber: number;
+    eventType: 'race' | 'sprint';
+    leagues: League[]; // The user's leagues; the current one is left out of the sources
+    drivers: Driver[];
+    onApply: (picks: PickV2[]) => void;
+    submitting?: boolean;
+}
+
+const skippedReasonText: Record<SkippedPickReason, string> = {
+    inactiveDriver: 'driver no longer racing',
+    positionNotScored: 'position not scored in this league',
+};
+
+export const PickTemplateModal: React.FC<PickTemplateModalProps> = ({
+    visible,
+    onClose,
+    leagueId,
+    weekNumber,
+    eventType,
+    leagues,
+    drivers,
+    onApply,
+    submitting = false,
+}) => {
+    const { resolvedTheme } = useTheme();
+    const [source, setSource] = useState<TemplateSource | null>(null);
+    const [template, setTemplate] = useState<PickTemplate | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Get current theme colors
+    const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+    const otherLeagues = leagues.filter(league => league.id !== leagueId);
+    const eventLabel = eventType === 'sprint' ? 'Sprint' : 'Race';
+
+    // Start fresh each time the modal opens
+    useEffect(() => {
+        if (!visible) {
+            setSource(null);
+            setTemplate(null);
+            setError(null);
+        }
+    }, [visible]);
+
+    useEffect(() => {
+        if (!visible || source === null) return;
+
+        let cancelled = false;
+        const loadTemplate = async () => {
+            setLoading(true);
+            setError(null);
+            setTemplate(null);
+
+            const [sourceResult, positionsResult] = await Promise.all([
+                source === 'lastWeek'
+                    ? typedPicksAPI.getUserPicksForWeekForEvent(leagueId, weekNumber - 1, eventType)
+                    : typedPicksAPI.getUserPicksForWeekForEvent(source, weekNumber, eventType),
+                typedPicksAPI.getLeaguePositionsForWeek(leagueId, weekNumber),
+            ]);
+            if (cancelled) return;
+
+            if (!sourceResult.ok || !positionsResult.ok) {
+                const failure = !sourceResult.ok ? sourceResult.error : !positionsResult.ok ? positionsResult.error : null;
+                console.error('Error loading pick template:', failure);
+                setError(failure?.message ?? 'Failed to load picks');
+            } else {
+                const sourcePicks = sourceResult.data.map(pick => ({ position: pick.position, driverId: pick.driverId }));
+                setTemplate(buildPickTemplate(sourcePicks, positionsResult.data, drivers));
+            }
+            setLoading(false);
+        };
+
+        loadTemplate();
+        return () => {
+            cancelled = true;
+        };
+    }, [visible, source, leagueId, weekNumber, eventType, drivers]);
+
+    const getDriver = (driverId: number) => drivers.find(driver => driver.id === driverId);
+
+    // Create theme-aware styles
+    const styles = StyleSheet.create({
+        container: {
+            flex: 1,
+            backgroundColor: currentColors.backgroundPrimary,
+        },
+        header: {
+            backgroundColor: currentColors.cardBackground,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+            paddingHorizontal: 16,
+            paddingVertical: 16,
+        },
+        headerContent: {
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+        },
+        headerTitle: {
+            fontSize: 20,
+            fontWeight: 'bold',
+            color: currentColors.textPrimary,
+            flex: 1,
+        },
+        closeButton: {
+            width: 32,
+            height: 32,
+            borderRadius: 16,
+            backgroundColor: currentColors.borderLight,
+            justifyContent: 'center',
+            alignItems: 'center',
+        },
+        closeButtonText: {
+            fontSize: 16,
+            color: currentColors.textSecondary,
+            fontWeight: 'bold',
+        },
+        content: {
+            padding: 16,
+            paddingBottom: 100, // Extra padding for footer
+        },
+        sectionLabel: {
+            fontSize: 14,
+            fontWeight: '600',
+            color: currentColors.textSecondary,
+            marginBottom: 8,
+        },
+        sourceList: {
+            flexDirection: 'row',
+            flexWrap: 'wrap',
+            marginBottom: 16,
+        },
+        sourceChip: {
+            paddingHorizontal: 12,
+            paddingVertical: 8,
+            borderRadius: 16,
+            borderWidth: 1,
+            borderColor: currentColors.borderMedium,
+            backgroundColor: currentColors.cardBackground,
+            marginRight: 8,
+            marginBottom: 8,
+        },
+        sourceChipSelected: {
+            backgroundColor: currentColors.primary + '20',
+            borderColor: currentColors.primary,
+        },
+        sourceChipText: {
+            fontSize: 14,
+            color: currentColors.textPrimary,
+        },
+        previewRow: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            backgroundColor: currentColors.cardBackground,
+            borderRadius: 8,
+            padding: 12,
+            marginBottom: 8,
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+        },
+        previewPosition: {
+            width: 44,
+            fontSize: 16,
+            fontWeight: 'bold',
+            color: currentColors.textPrimary,
+        },
+        previewDriverName: {
+            fontSize: 14,
+            fontWeight: '600',
+            color: currentColors.textPrimary,
+        },
+        previewDriverTeam: {
+            fontSize: 12,
+            color: currentColors.textSecondary,
+        },
+        skippedText: {
+            fontSize: 12,
+            color: currentColors.warning,
+            marginBottom: 4,
+        },
+        messageText: {
+            fontSize: 14,
+            color: currentColors.textSecondary,
+            textAlign: 'center',
+            marginTop: 16,
+        },
+        errorText: {
+            fontSize: 14,
+            color: currentColors.error,
+            textAlign: 'center',
+            marginTop: 16,
+        },
+        footer: {
+            backgroundColor: currentColors.cardBackground,
+            borderTopWidth: 1,
+            borderTopColor: currentColors.borderLight,
+            padding: 16,
+        },
+        footerText: {
+            fontSize: 12,
+            color: currentColors.textSecondary,
+            textAlign: 'center',
+            marginBottom: 8,
+        },
+        applyButton: {
+            backgroundColor: currentColors.primary,
+            borderRadius: 8,
+            paddingVertical: 12,
+            alignItems: 'center',
+        },
+        applyButtonDisabled: {
+            opacity: 0.5,
+        },
+        applyButtonText: {
+            color: currentColors.textInverse,
+            fontSize: 16,
+            fontWeight: '600',
+        },
+    });
+
+    const canApply = !!template && template.picks.length > 0 && !loading && !submitting;
+
+    const renderSourceChip = (key: TemplateSource, label: string) => (
+        <TouchableOpacity
+            key={String(key)}
+            style={[styles.sourceChip, source === key && styles.sourceChipSelected]}
+            onPress={() => setSource(key)}
+            disabled={submitting}
+        >
+            <Text style={styles.sourceChipText}>{label}</Text>
+        </TouchableOpacity>
+    );
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            presentationStyle="pageSheet"
+            onRequestClose={onClose}
+        >
+            <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+                {/* Header */}
+                <View style={styles.header}>
+                    <View style={styles.headerContent}>
+                        <Text style={styles.headerTitle}>Copy {eventLabel} Picks</Text>
+                        <TouchableOpacity
+                            style={styles.closeButton}
+                            onPress={onClose}
+                            disabled={submitting}
+                        >
+                            <Text style={styles.closeButtonText}>✕</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+
+                <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+                    <Text style={styles.sectionLabel}>Copy from</Text>
+                    <View style={styles.sourceList}>
+                        {weekNumber > 1 && renderSourceChip('lastWeek', 'My picks last week')}
+                        {otherLeagues.map(league => renderSourceChip(league.id, league.name))}
+                    </View>
+
+                    {source === null ? (
+                        <Text style={styles.messageText}>Choose where to copy your picks from</Text>
+                    ) : loading ? (
+                        <ActivityIndicator size="small" color={currentColors.primary} />
+                    ) : error ? (
+                        <Text style={styles.errorText}>{error}</Text>
+                    ) : template && (
+                        <>
+                            {template.picks.length === 0 && (
+                                <Text style={styles.messageText}>No picks to copy from here</Text>
+                            )}
+                            {template.picks.map(pick => {
+                                const driver = getDriver(pick.driverId);
+                                return (
+                                    <View key={pick.position} style={styles.previewRow}>
+                                        <Text style={styles.previewPosition}>P{pick.position}</Text>
+                                        <View>
+                                            <Text style={styles.previewDriverName}>{driver?.name}</Text>
+                                            <Text style={styles.previewDriverTeam}>{driver?.team}</Text>
+                                        </View>
+                                    </View>
+                                );
+                            })}
+                            {template.skipped.map(skipped => (
+                                <Text key={`skipped-${skipped.position}`} style={styles.skippedText}>
+                                    P{skipped.position} skipped: {skippedReasonText[skipped.reason]}
+                                </Text>
+                            ))}
+                        </>
+                    )}
+                </ScrollView>
+
+                {/* Footer */}
+                <View style={styles.footer}>
+                    <Text style={styles.footerText}>
+                        Copied picks replace your current {eventLabel.toLowerCase()} picks for those positions
+                    </Text>
+                    <TouchableOpacity
+                        style={[styles.applyButton, !canApply && styles.applyButtonDisabled]}
+                        onPress={() => template && onApply(template.picks)}
+                        disabled={!canApply}
+                    >
+                        {submitting ? (
+                            <ActivityIndicator size="small" color={currentColors.textInverse} />
+                        ) : (
+                            <Text style={styles.applyButtonText}>
+                                Apply {template?.picks.length ?? 0} pick{template?.picks.length === 1 ? '' : 's'}
+                            </Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+            </SafeAreaView>
+        </Modal>
+    );
+};
+
+export default PickTemplateModal;
@@ -0,0 +1,301 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { router } from 'expo-router';
+import { useAuth } from '../src/context/AuthContext';
+import { useSimpleToast } from '../src/context/SimpleToastContext';
+import { useTheme } from '../src/context/ThemeContext';
+import { lightColors, darkColors } from '../src/constants/Colors';
+import { leaguesAPI } from '../src/services/apiService';
+import { queryCache, queryKeys } from '../src/services/queryCache';
+import { League } from '../src/types';
+
+interface PublicLeagueCardProps {
+    league: League;
+    onJoinRequestChange: (leagueId: number, joinRequestStatus?: League['joinRequestStatus']) => void;
+    onJoined: () => void;
+}
+
+/**
+ * Limited preview of a public league the user isn't in, with a way to join or ask to join
+ */
+export const PublicLeagueCard: React.FC<PublicLeagueCardProps> = ({ league, onJoinRequestChange, onJoined }) => {
+    const { user } = useAuth();
+    const { showToast } = useSimpleToast();
+    const { resolvedTheme } = useTheme();
+
+    // Get current theme colors
+    const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+    // Leagues that require approval get a join request rather than a membership
+    const requestToJoin = async () => {
+        try {
+            const response = await leaguesAPI.joinLeague(league.id);
+            if (response.data.success) {
+                queryCache.invalidate(queryKeys.allLeagues());
+                if (response.data.data?.status === 'pending') {
+                    onJoinRequestChange(league.id, 'pending');
+                    showToast('Request sent. You\'ll be notified when it\'s approved.', 'success', 3000);
+                } else {
+                    showToast('Successfully joined the league!', 'success', 2000);
+                    onJoined();
+                }
+            } else {
+                showToast(response.data.message || 'Failed to send join request', 'error');
+            }
+        } catch (error: any) {
+            console.error('Error requesting to join league:', error);
+            showToast(error.response?.data?.message || 'Failed to send join request. Please try again.', 'error');
+        }
+    };
+
+    const cancelJoinRequest = async () => {
+        try {
+            const response = await leaguesAPI.cancelJoinRequest(league.id);
+            if (response.data.success) {
+                queryCache.invalidate(queryKeys.publicLeagues());
+                onJoinRequestChange(league.id, undefined);
+                showToast('Join request cancelled', 'success');
+            } else {
+                showToast(response.data.message || 'Failed to cancel join request', 'error');
+            }
+        } catch (error: any) {
+            console.error('Error cancelling join request:', error);
+            showToast('Failed to cancel join request. Please try again.', 'error');
+        }
+    };
+
+    // Create theme-aware styles
+    const styles = StyleSheet.create({
+        leagueCard: {
+            backgroundColor: currentColors.cardBackground,
+            borderRadius: 12,
+            padding: 16,
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+        },
+        leagueCardHeader: {
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: 8,
+        },
+        leagueName: {
+            fontSize: 18,
+            fontWeight: '600',
+            color: currentColors.textPrimary,
+            flex: 1,
+            minWidth: 0,
+            marginRight: 16,
+        },
+        headerActions: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 8,
+            flexShrink: 0,
+        },
+        visibilityBadge: {
+            paddingHorizontal: 8,
+            paddingVertical: 4,
+            borderRadius: 12,
+        },
+        visibilityText: {
+            fontSize: 12,
+            fontWeight: '500',
+            color: currentColors.textInverse,
+        },
+        leagueStats: {
+            gap: 8,
+        },
+        statRow: {
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+        },
+        statLabel: {
+            fontSize: 14,
+            color: currentColors.textSecondary,
+        },
+        statValue: {
+            fontSize: 14,
+            fontWeight: '500',
+            color: currentColors.textPrimary,
+        },
+        positionsContainer: {
+            marginTop: 6,
+            marginBottom: 4,
+        },
+        positionsRow: {
+            flexDirection: 'row',
+            flexWrap: 'wrap',
+            gap: 4,
+            marginTop: 2,
+        },
+        eventTypeLabel: {
+            fontSize: 12,
+            fontWeight: '600',
+            color: currentColors.textSecondary,
+            marginBottom: 4,
+            marginTop: 2,
+        },
+        positionBadge: {
+            paddingHorizontal: 8,
+            paddingVertical: 4,
+            borderRadius: 12,
+            backgroundColor: currentColors.secondary,
+            marginRight: 4,
+            marginBottom: 4,
+        },
+        positionText: {
+            fontSize: 11,
+            fontWeight: '700',
+            color: currentColors.textInverse,
+        },
+        joinButton: {
+            backgroundColor: currentColors.primary,
+            paddingHorizontal: 16,
+            paddingVertical: 8,
+            borderRadius: 8,
+            alignItems: 'center',
+            marginTop: 12,
+        },
+        joinButtonText: {
+            color: currentColors.textInverse,
+            fontSize: 14,
+            fontWeight: '500',
+        },
+        joinRequestText: {
+            fontSize: 13,
+            color: currentColors.textSecondary,
+            marginTop: 12,
+        },
+    });
+
+    const positions = [...(league.requiredPositions ?? [])].sort((a, b) => a - b);
+    const recentActivity = league.lastTwoRaceWeeksActivity || 0;
+
+    const renderPositions = (eventType: 'race' | 'sprint') => (
+        <View style={styles.positionsContainer}>
+            <Text style={styles.eventTypeLabel}>{eventType === 'sprint' ? 'Sprint' : 'Race'}</Text>
+            <View style={styles.positionsRow}>
+                {positions.map((position) => (
+                    <View key={`${eventType}-${position}`} style={styles.positionBadge}>
+                        <Text style={styles.positionText}>P{position}</Text>
+                    </View>
+                ))}
+            </View>
+        </View>
+    );
+
+    const renderAction = () => {
+        if (league.seasonEnded) {
+            return (
+                <View style={[styles.joinButton, { backgroundColor: currentColors.backgroundTertiary, opacity: 0.8 }]}>
+                    <Text style={[styles.joinButtonText, { color: currentColors.textSecondary }]}>Season ended</Text>
+                </View>
+            );
+        }
+        if (user && league.joinRequestStatus === 'pending') {
+            return (
+                <>
+                    <Text style={styles.joinRequestText}>
+                        Waiting for a league moderator to approve your request.
+                    </Text>
+                    <TouchableOpacity
+                        style={[styles.joinButton, { backgroundColor: currentColors.backgroundTertiary, marginTop: 8 }]}
+                        onPress={cancelJoinRequest}
+                    >
+                        <Text style={[styles.joinButtonText, { color: currentColors.textPrimary }]}>Cancel Request</Text>
+                    </TouchableOpacity>
+                </>
+            );
+        }
+        if (user && league.joinRequestStatus === 'denied') {
+            return (
+                <View style={[styles.joinButton, { backgroundColor: currentColors.backgroundTertiary, opacity: 0.8 }]}>
+                    <Text style={[styles.joinButtonText, { color: currentColors.textSecondary }]}>Request declined</Text>
+                </View>
+            );
+        }
+        if (user && league.requiresApproval) {
+            return (
+                <TouchableOpacity style={styles.joinButton} onPress={requestToJoin}>
+                    <Text style={styles.joinButtonText}>Request to Join</Text>
+                </TouchableOpacity>
+            );
+        }
+        return (
+            <TouchableOpacity
+                style={styles.joinButton}
+                onPress={() => {
+                    if (user) {
+                        router.push(`/joinleague/${league.joinCode}` as any);
+                    } else {
+                        router.push(`/league/${league.id}` as any);
+                    }
+                }}
+            >
+                <Text style={styles.joinButtonText}>
+                    {user ? 'Join League' : 'Preview League'}
+                </Text>
+            </TouchableOpacity>
+        );
+    };
+
+    return (
+        <View style={styles.leagueCard}>
+            <View style={styles.leagueCardHeader}>
+                <Text style={styles.leagueName} numberOfLines={1}>
+                    {league.name}
+                </Text>
+                <View style={styles.headerActions}>
+                    <View style={[styles.visibilityBadge, { backgroundColor: currentColors.backgroundTertiary }]}>
+                        <Text style={[styles.visibilityText, { color: currentColors.textPrimary }]}>{league.seasonYear}</Text>
+                    </View>
+                    {league.joinRequestStatus === 'pending' ? (
+                        <View style={[styles.visibilityBadge, { backgroundColor: currentColors.warning }]}>
+                            <Text style={styles.visibilityText}>Pending</Text>
+                        </View>
+                    ) : (
+                        <View style={[styles.visibilityBadge, { backgroundColor: currentColors.success }]}>
+                            <Text style={styles.visibilityText}>Public</Text>
+                        </View>
+                    )}
+                </View>
+            </View>
+
+            {/* Limited League Info for Public Leagues */}
+            <View style={styles.leagueStats}>
+                <View style={styles.statRow}>
+                    <Text style={styles.statLabel}>Members:</Text>
+                    <Text style={styles.statValue}>{league.memberCount || 1}</Text>
+                </View>
+
+                {/* Required Positions; sprint positions only on sprint weekends */}
+                {positions.length > 0 && (
+                    <View style={{ marginTop: 6 }}>
+                        {league.positionStatus?.hasSprint && renderPositions('sprint')}
+                        {renderPositions('race')}
+                    </View>
+                )}
+
+                {/* Activity Level Indicator (vague) */}
+                <View style={styles.statRow}>
+                    <Text style={styles.statLabel}>Activity Level:</Text>
+                    <Text style={[
+                        styles.statValue,
+                        {
+                            color: recentActivity > 15 ? currentColors.success :
+                                recentActivity > 8 ? currentColors.warning : currentColors.textSecondary
+                        }
+                    ]}>
+                        {recentActivity > 15 ? 'Very Active' : recentActivity > 8 ? 'Active' : 'Quiet'}
+                    </Text>
+                </View>
+            </View>
+
+            {renderAction()}
+        </View>
+    );
+};
+
+export default PublicLeagueCard;
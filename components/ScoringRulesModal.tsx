@@ -0,0 +1,476 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+    TextInput,
+    ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../src/context/ThemeContext';
+import { lightColors, darkColors } from '../src/constants/Colors';
+import { typedF1racesAPI, typedPicksAPI } from '../src/services/apiClient';
+import { F1Race, LeagueScoringRules, RaceResultV2, ScoringScheme } from '../src/types';
+import {
+    MAX_SCORED_DIFFERENCE,
+    SCORING_PRESETS,
+    SCORING_SCHEME_OPTIONS,
+    ScoringPreviewRow,
+    previewScoring,
+    validateScoringRules,
+} from '../utils/scoring';
+
+interface ScoringRulesModalProps {
+    visible: boolean;
+    leagueId: number;
+    seasonYear: number;
+    rules: LeagueScoringRules; // Rules the league uses now
+    onClose: () => void;
+    onSave: (rules: LeagueScoringRules) => void;
+    saving: boolean;
+}
+
+const differenceLabel = (difference: number) =>
+    difference === 0 ? 'Exact' : `${difference} off`;
+
+/**
+ * Edit a league's scoring and see how a past race would have scored under the new rules before saving
+ */
+export const ScoringRulesModal: React.FC<ScoringRulesModalProps> = ({
+    visible,
+    leagueId,
+    seasonYear,
+    rules,
+    onClose,
+    onSave,
+    saving,
+}) => {
+    const { resolvedTheme } = useTheme();
+    const [scheme, setScheme] = useState(rules.scheme);
+    // Inputs are kept as typed so a half-entered number doesn't jump around
+    const [tableText, setTableText] = useState<string[]>([]);
+    const [multiplierText, setMultiplierText] = useState('');
+    const [bonusText, setBonusText] = useState('');
+    const [scoredRaces, setScoredRaces] = useState<F1Race[]>([]);
+    const [previewWeek, setPreviewWeek] = useState<number | null>(null);
+    const [previewResults, setPreviewResults] = useState<RaceResultV2[]>([]);
+    const [previewLoading, setPreviewLoading] = useState(false);
+    const [previewError, setPreviewError] = useState<string | null>(null);
+
+    // Get current theme colors
+    const currentColors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+    // Start from the league's rules each time the modal opens
+    useEffect(() => {
+        if (!visible) return;
+        setScheme(rules.scheme);
+        setTableText(rules.pointsByDifference.map(String));
+        setMultiplierText(String(rules.sprintMultiplier));
+        setBonusText(String(rules.allCorrectBonus));
+    }, [visible, rules]);
+
+    // Races with results to preview against, most recent first
+    useEffect(() => {
+        if (!visible) return;
+        let isActive = true;
+
+        typedF1racesAPI.getAllRaces(seasonYear).then(result => {
+            if (!isActive || !result.ok) return;
+            const races = result.data.filter(race => race.isScored).sort((a, b) => b.weekNumber - a.weekNumber);
+            setScoredRaces(races);
+            setPreviewWeek(current => current ?? races[0]?.weekNumber ?? null);
+        });
+
+        return () => {
+            isActive = false;
+        };
+    }, [visible, seasonYear]);
+
+    useEffect(() => {
+        if (!visible || previewWeek === null) return;
+        let isActive = true;
+
+        setPreviewLoading(true);
+        setPreviewError(null);
+        typedPicksAPI.getRaceResultsV2(leagueId, previewWeek).then(result => {
+            if (!isActive) return;
+            if (result.ok) {
+                setPreviewResults(result.data);
+            } else {
+                setPreviewResults([]);
+                setPreviewError(result.error.message);
+            }
+            setPreviewLoading(false);
+        });
+
+        return () => {
+            isActive = false;
+        };
+    }, [visible, leagueId, previewWeek]);
+
+    const proposedRules: LeagueScoringRules = useMemo(() => ({
+        scheme,
+        pointsByDifference: tableText.map(text => (text.trim() === '' ? NaN : Number(text))),
+        sprintMultiplier: multiplierText.trim() === '' ? NaN : Number(multiplierText),
+        allCorrectBonus: bonusText.trim() === '' ? NaN : Number(bonusText),
+    }), [scheme, tableText, multiplierText, bonusText]);
+
+    const validationError = validateScoringRules(proposedRules);
+    const preview: ScoringPreviewRow[] = validationError ? [] : previewScoring(previewResults, proposedRules);
+
+    // A custom table starts from the preset that was showing
+    const changeScheme = (nextScheme: ScoringScheme) => {
+        setScheme(nextScheme);
+        if (nextScheme !== 'custom') {
+            setTableText(SCORING_PRESETS[nextScheme].map(String));
+        }
+    };
+
+    const updateTableEntry = (index: number, text: string) => {
+        setTableText(prev => prev.map((entry, i) => (i === index ? text.replace(/[^0-9]/g, '') : entry)));
+    };
+
+    // Create theme-aware styles
+    const styles = StyleSheet.create({
+        container: {
+            flex: 1,
+            backgroundColor: currentColors.backgroundPrimary,
+        },
+        header: {
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            backgroundColor: currentColors.cardBackground,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+            paddingHorizontal: 16,
+            paddingVertical: 16,
+        },
+        headerTitle: {
+            fontSize: 20,
+            fontWeight: 'bold',
+            color: currentColors.textPrimary,
+        },
+        headerButtonText: {
+            fontSize: 16,
+            color: currentColors.textSecondary,
+        },
+        saveButtonText: {
+            fontSize: 16,
+            fontWeight: '600',
+            color: currentColors.buttonPrimary,
+        },
+        saveButtonDisabled: {
+            opacity: 0.4,
+        },
+        content: {
+            padding: 16,
+            paddingBottom: 40,
+        },
+        sectionLabel: {
+            fontSize: 14,
+            fontWeight: '600',
+            color: currentColors.textSecondary,
+            marginTop: 16,
+            marginBottom: 8,
+        },
+        schemeOption: {
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+            borderRadius: 8,
+            padding: 12,
+            marginBottom: 8,
+            backgroundColor: currentColors.cardBackground,
+        },
+        schemeOptionSelected: {
+            borderColor: currentColors.buttonPrimary,
+            backgroundColor: currentColors.buttonPrimary + '15',
+        },
+        schemeLabel: {
+            fontSize: 15,
+            fontWeight: '600',
+            color: currentColors.textPrimary,
+        },
+        schemeDescription: {
+            fontSize: 13,
+            color: currentColors.textSecondary,
+            marginTop: 2,
+        },
+        tableRow: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            paddingVertical: 6,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+        },
+        tableLabel: {
+            fontSize: 15,
+            color: currentColors.textPrimary,
+        },
+        tableValue: {
+            fontSize: 15,
+            fontWeight: '600',
+            color: currentColors.textPrimary,
+        },
+        numberInput: {
+            minWidth: 64,
+            borderWidth: 1,
+            borderColor: currentColors.borderLight,
+            borderRadius: 8,
+            paddingHorizontal: 10,
+            paddingVertical: 6,
+            fontSize: 15,
+            textAlign: 'right',
+            color: currentColors.textPrimary,
+            backgroundColor: currentColors.backgroundSecondary,
+        },
+        tableActions: {
+            flexDirection: 'row',
+            gap: 16,
+            marginTop: 8,
+        },
+        linkText: {
+            fontSize: 14,
+            fontWeight: '500',
+            color: currentColors.buttonPrimary,
+        },
+        linkTextDisabled: {
+            color: currentColors.textTertiary,
+        },
+        hint: {
+            fontSize: 12,
+            color: currentColors.textTertiary,
+            marginTop: 4,
+        },
+        errorText: {
+            fontSize: 13,
+            color: currentColors.error,
+            marginTop: 12,
+        },
+        weekChip: {
+            paddingHorizontal: 12,
+            paddingVertical: 6,
+            borderRadius: 16,
+            marginRight: 8,
+            backgroundColor: currentColors.backgroundTertiary,
+        },
+        weekChipSelected: {
+            backgroundColor: currentColors.buttonPrimary,
+        },
+        weekChipText: {
+            fontSize: 13,
+            color: currentColors.textSecondary,
+        },
+        weekChipTextSelected: {
+            color: currentColors.textInverse,
+            fontWeight: '600',
+        },
+        previewHeader: {
+            flexDirection: 'row',
+            marginTop: 12,
+            paddingBottom: 6,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+        },
+        previewHeaderText: {
+            fontSize: 12,
+            fontWeight: '600',
+            color: currentColors.textTertiary,
+        },
+        previewRow: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            paddingVertical: 8,
+            borderBottomWidth: 1,
+            borderBottomColor: currentColors.borderLight,
+        },
+        previewName: {
+            flex: 1,
+            fontSize: 14,
+            color: currentColors.textPrimary,
+        },
+        previewPoints: {
+            width: 64,
+            textAlign: 'right',
+            fontSize: 14,
+            color: currentColors.textSecondary,
+        },
+        previewNewPoints: {
+            fontWeight: '600',
+            color: currentColors.textPrimary,
+        },
+        emptyText: {
+            fontSize: 13,
+            color: currentColors.textSecondary,
+            marginTop: 12,
+        },
+    });
+
+    const renderPreview = () => {
+        if (scoredRaces.length === 0) {
+            return <Text style={styles.emptyText}>No races have been scored yet this season.</Text>;
+        }
+
+        return (
+            <>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    {scoredRaces.map(race => (
+                        <TouchableOpacity
+                            key={race.weekNumber}
+                            style={[styles.weekChip, race.weekNumber === previewWeek && styles.weekChipSelected]}
+                            onPress={() => setPreviewWeek(race.weekNumber)}
+                        >
+                            <Text style={[
+                                styles.weekChipText,
+                                race.weekNumber === previewWeek && styles.weekChipTextSelected
+                            ]}>
+                                {race.raceName}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </ScrollView>
+
+                {previewLoading ? (
+                    <ActivityIndicator size="small" color={currentColors.primary} style={{ marginTop: 12 }} />
+                ) : previewError ? (
+                    <Text style={styles.errorText}>{previewError}</Text>
+                ) : validationError ? (
+                    <Text style={styles.emptyText}>Fix the rules above to see a preview.</Text>
+                ) : preview.length === 0 ? (
+                    <Text style={styles.emptyText}>Nobody made picks for this race.</Text>
+                ) : (
+                    <>
+                        <View style={styles.previewHeader}>
+                            <Text style={[styles.previewHeaderText, { flex: 1 }]}>MEMBER</Text>
+                            <Text style={[styles.previewHeaderText, styles.previewPoints]}>NOW</Text>
+                            <Text style={[styles.previewHeaderText, styles.previewPoints]}>NEW</Text>
+                        </View>
+                        {preview.map(row => (
+                            <View key={row.userId} style={styles.previewRow}>
+                                <Text style={styles.previewName} numberOfLines={1}>{row.userName}</Text>
+                                <Text style={styles.previewPoints}>{row.currentPoints}</Text>
+                                <Text style={[styles.previewPoints, styles.previewNewPoints]}>{row.previewPoints}</Text>
+                            </View>
+                        ))}
+                    </>
+                )}
+            </>
+        );
+    };
+
+    const canSave = !validationError && !saving;
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            presentationStyle="pageSheet"
+            onRequestClose={onClose}
+        >
+            <SafeAreaView style={styles.container} edges={['top', 'left', 'right', 'bottom']}>
+                <View style={styles.header}>
+                    <TouchableOpacity onPress={onClose} disabled={saving}>
+                        <Text style={styles.headerButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <Text style={styles.headerTitle}>Scoring</Text>
+                    <TouchableOpacity onPress={() => onSave(proposedRules)} disabled={!canSave}>
+                        {saving ? (
+                            <ActivityIndicator size="small" color={currentColors.buttonPrimary} />
+                        ) : (
+                            <Text style={[styles.saveButtonText, !canSave && styles.saveButtonDisabled]}>Save</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+
+                <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                    <Text style={styles.sectionLabel}>Points per pick</Text>
+                    {SCORING_SCHEME_OPTIONS.map(option => (
+                        <TouchableOpacity
+                            key={option.scheme}
+                            style={[styles.schemeOption, scheme === option.scheme && styles.schemeOptionSelected]}
+                            onPress={() => changeScheme(option.scheme)}
+                        >
+                            <Text style={styles.schemeLabel}>{option.label}</Text>
+                            <Text style={styles.schemeDescription}>{option.description}</Text>
+                        </TouchableOpacity>
+                    ))}
+
+                    {tableText.map((text, difference) => (
+                        <View key={difference} style={styles.tableRow}>
+                            <Text style={styles.tableLabel}>{differenceLabel(difference)}</Text>
+                            {scheme === 'custom' ? (
+                                <TextInput
+                                    style={styles.numberInput}
+                                    value={text}
+                                    onChangeText={value => updateTableEntry(difference, value)}
+                                    keyboardType="number-pad"
+                                    maxLength={3}
+                                />
+                            ) : (
+                                <Text style={styles.tableValue}>{text} pts</Text>
+                            )}
+                        </View>
+                    ))}
+                    {scheme === 'custom' && (
+                        <View style={styles.tableActions}>
+                            <TouchableOpacity
+                                onPress={() => setTableText(prev => [...prev, '0'])}
+                                disabled={tableText.length > MAX_SCORED_DIFFERENCE}
+                            >
+                                <Text style={[
+                                    styles.linkText,
+                                    tableText.length > MAX_SCORED_DIFFERENCE && styles.linkTextDisabled
+                                ]}>
+                                    Add row
+                                </Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                onPress={() => setTableText(prev => prev.slice(0, -1))}
+                                disabled={tableText.length <= 1}
+                            >
+                                <Text style={[styles.linkText, tableText.length <= 1 && styles.linkTextDisabled]}>
+                                    Remove last row
+                                </Text>
+                            </TouchableOpacity>
+                        </View>
+                    )}
+                    <Text style={styles.hint}>Picks further off than the last row score nothing.</Text>
+
+                    <Text style={styles.sectionLabel}>Extras</Text>
+                    <View style={styles.tableRow}>
+                        <Text style={styles.tableLabel}>Sprint multiplier</Text>
+                        <TextInput
+                            style={styles.numberInput}
+                            value={multiplierText}
+                            onChangeText={value => setMultiplierText(value.replace(/[^0-9.]/g, ''))}
+                            keyboardType="decimal-pad"
+                            maxLength={4}
+                        />
+                    </View>
+                    <View style={styles.tableRow}>
+                        <Text style={styles.tableLabel}>Bonus when every pick is exact</Text>
+                        <TextInput
+                            style={styles.numberInput}
+                            value={bonusText}
+                            onChangeText={value => setBonusText(value.replace(/[^0-9]/g, ''))}
+                            keyboardType="number-pad"
+                            maxLength={3}
+                        />
+                    </View>
+                    <Text style={styles.hint}>Sprint points are multiplied and rounded to the nearest point.</Text>
+
+                    {validationError && <Text style={styles.errorText}>{validationError}</Text>}
+
+                    <Text style={styles.sectionLabel}>Preview</Text>
+                    {renderPreview()}
+                </ScrollView>
+            </SafeAreaView>
+        </Modal>
+    );
+};
+
+export default ScoringRulesModal;
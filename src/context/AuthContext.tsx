@@ -1,7 +1,12 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
-import { apiService, authAPI } from '../services/apiService';
+import { apiService, authAPI, addTokenRefreshListener, addSessionExpiredListener } from '../services/apiService';
+import { queryCache } from '../services/queryCache';
+import { credentialStore } from '../services/credentialStore';
+import { pickOutbox } from '../services/pickOutbox';
+import { pickReminderScheduler } from '../services/pickReminderScheduler';
+import { chatMessageStore } from '../services/chatMessageStore';
 import { User } from '../types';
 
 
@@ -74,6 +79,22 @@ export const useAuth = () => {
     }
 };
 
+const clearStoredAuth = async () => {
+    try {
+        await Promise.all([
+            AsyncStorage.removeItem('user'),
+            credentialStore.clear(),
+            // Cached league and stats data, queued offline picks, pick reminders and chat history belong to this user
+            queryCache.clear(),
+            pickOutbox.clear(),
+            pickReminderScheduler.clear(),
+            chatMessageStore.clear()
+        ]);
+    } catch (error) {
+        console.error('Error clearing stored auth:', error);
+    }
+};
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const [user, setUser] = useState<User | null>(null);
     const [isLoading, setIsLoading] = useState(false);
@@ -303,7 +324,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 setIsLoading(true);
                 const [storedUser, storedToken] = await Promise.all([
                     AsyncStorage.getItem('user'),
-                    AsyncStorage.getItem('token')
+                    credentialStore.getToken()
                 ]);
 
                 if (storedUser && storedToken) {
@@ -322,14 +343,27 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                                 // Fallback to cached data if API fails
                                 setUser(userData);
                             }
-                        } catch (refreshError) {
+                        } catch (refreshError: any) {
+                            // Cached data only covers being offline or server trouble. A 401 means the
+                            // token couldn't be renewed, so the stale session isn't restored.
+                            if (refreshError?.response?.status === 401) {
+                                setUser(null);
+                                return;
+                            }
                             setUser(userData);
                         }
 
+                        // The session can still expire while the profile request is refreshing the token
+                        const currentToken = await credentialStore.getToken();
+                        if (!currentToken) {
+                            setUser(null);
+                            return;
+                        }
+
                         // Initialize WebSocket connection for chat
                         try {
                             const { SecureChatService } = await import('../services/secureChatService');
-                            SecureChatService.updateWebSocketToken(storedToken);
+                            SecureChatService.updateWebSocketToken(currentToken);
                             await SecureChatService.initializeWebSocket();
                         } catch (wsError) {
                             console.error('Could not initialize WebSocket for existing user:', wsError);
@@ -366,6 +400,35 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         initializeAuth();
     }, []);
 
+    // Keep the chat socket on the latest access token and drop the user once the session can't be refreshed
+    useEffect(() => {
+        const removeRefreshListener = addTokenRefreshListener(async (token) => {
+            try {
+                const { SecureChatService } = await import('../services/secureChatService');
+                SecureChatService.updateWebSocketToken(token);
+            } catch (wsError) {
+                console.error('Could not update WebSocket token after refresh:', wsError);
+            }
+        });
+
+        const removeExpiredListener = addSessionExpiredListener(async () => {
+            // Same teardown as logging out, so the next account starts clean
+            await clearStoredAuth();
+            setUser(null);
+            try {
+                const { SecureChatService } = await import('../services/secureChatService');
+                SecureChatService.disconnectWebSocket();
+            } catch (wsError) {
+                console.error('Could not disconnect WebSocket after session expired:', wsError);
+            }
+        });
+
+        return () => {
+            removeRefreshListener();
+            removeExpiredListener();
+        };
+    }, []);
+
     const validateToken = async (): Promise<boolean> => {
         try {
             // Make a simple API call to validate the token
@@ -377,17 +440,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
     };
 
-    const clearStoredAuth = async () => {
-        try {
-            await Promise.all([
-                AsyncStorage.removeItem('user'),
-                AsyncStorage.removeItem('token')
-            ]);
-        } catch (error) {
-            console.error('Error clearing stored auth:', error);
-        }
-    };
-
     const login = async (email: string, password: string): Promise<{ success: boolean; message?: string; error?: string }> => {
         try {
             setIsAuthenticating(true);
@@ -419,7 +471,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 const userData = response.data.user;
                 setUser(userData);
                 await AsyncStorage.setItem('user', JSON.stringify(userData));
-                await AsyncStorage.setItem('token', response.data.token);
+                await credentialStore.setTokens(response.data.token, response.data.refreshToken);
 
                 // Initialize WebSocket connection for chat
                 try {
@@ -486,7 +538,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 const userData = response.data.user;
                 setUser(userData);
                 await AsyncStorage.setItem('user', JSON.stringify(userData));
-                await AsyncStorage.setItem('token', response.data.token);
+                await credentialStore.setTokens(response.data.token, response.data.refreshToken);
 
                 // Register push token with server after successful signup
                 if (signupData.pushToken) {
@@ -565,7 +617,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         try {
             const [storedUser, storedToken] = await Promise.all([
                 AsyncStorage.getItem('user'),
-                AsyncStorage.getItem('token')
+                credentialStore.getToken()
             ]);
 
             if (storedUser && storedToken) {
@@ -769,7 +821,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 const userData = response.data.user;
                 setUser(userData);
                 await AsyncStorage.setItem('user', JSON.stringify(userData));
-                await AsyncStorage.setItem('token', response.data.token);
+                await credentialStore.setTokens(response.data.token, response.data.refreshToken);
 
                 // Initialize WebSocket connection for chat
                 try {
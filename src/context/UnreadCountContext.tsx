@@ -1,16 +1,23 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react';
+import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect, useRef } from 'react';
 import { AppState } from 'react-native';
 import { useAuth } from './AuthContext';
 import { useFeatureFlags } from './FeatureFlagContext';
 import { chatAPI } from '../services/apiService';
+import { SecureChatService } from '../services/secureChatService';
 
 interface UnreadCountContextType {
     unreadCounts: { [leagueId: number]: number };
     isLoading: boolean;
     refreshUnreadCounts: () => Promise<void>;
     getUnreadCount: (leagueId: number) => number;
+    refreshChannelUnreadCounts: (leagueId: number) => Promise<void>;
+    getChannelUnreadCount: (leagueId: number, channelId: string) => number;
+    markChannelRead: (leagueId: number, channelId: string) => void;
 }
 
+// Wait for a burst of live messages to settle (and for an open chat to mark them read) before refetching
+const LIVE_REFRESH_DELAY_MS = 2000;
+
 const UnreadCountContext = createContext<UnreadCountContextType | undefined>(undefined);
 
 interface UnreadCountProviderProps {
@@ -19,13 +26,19 @@ interface UnreadCountProviderProps {
 
 export const UnreadCountProvider: React.FC<UnreadCountProviderProps> = ({ children }) => {
     const [unreadCounts, setUnreadCounts] = useState<{ [leagueId: number]: number }>({});
+    const [channelUnreadCounts, setChannelUnreadCounts] = useState<{ [leagueId: number]: { [channelId: string]: number } }>({});
     const [isLoading, setIsLoading] = useState(false);
     const { user } = useAuth();
     const { isChatFeatureEnabled } = useFeatureFlags();
+    const liveRefreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const liveRefreshLeaguesRef = useRef<Set<number>>(new Set());
+    // Leagues whose channel counts are loaded; only these are worth refetching on live updates
+    const channelCountLeaguesRef = useRef<Set<number>>(new Set());
 
     const refreshUnreadCounts = useCallback(async () => {
         if (!user || !isChatFeatureEnabled) {
             setUnreadCounts({});
+            setChannelUnreadCounts({});
             return;
         }
 
@@ -51,6 +64,29 @@ export const UnreadCountProvider: React.FC<UnreadCountProviderProps> = ({ childr
         return unreadCounts[leagueId] || 0;
     }, [unreadCounts]);
 
+    const refreshChannelUnreadCounts = useCallback(async (leagueId: number) => {
+        if (!user || !isChatFeatureEnabled) return;
+
+        const counts = await SecureChatService.getChannelUnreadCounts(leagueId.toString());
+        channelCountLeaguesRef.current.add(leagueId);
+        setChannelUnreadCounts(prev => ({ ...prev, [leagueId]: counts }));
+    }, [user, isChatFeatureEnabled]);
+
+    const getChannelUnreadCount = useCallback((leagueId: number, channelId: string): number => {
+        return channelUnreadCounts[leagueId]?.[channelId] || 0;
+    }, [channelUnreadCounts]);
+
+    /**
+     * Clear a channel's count locally once it has been viewed, and take it off the league total
+     */
+    const markChannelRead = useCallback((leagueId: number, channelId: string) => {
+        const channelCount = channelUnreadCounts[leagueId]?.[channelId] || 0;
+        if (channelCount === 0) return;
+
+        setChannelUnreadCounts(prev => ({ ...prev, [leagueId]: { ...prev[leagueId], [channelId]: 0 } }));
+        setUnreadCounts(prev => ({ ...prev, [leagueId]: Math.max(0, (prev[leagueId] || 0) - channelCount) }));
+    }, [channelUnreadCounts]);
+
     // Auto-refresh unread counts when app becomes active
     useEffect(() => {
         const handleAppStateChange = (nextAppState: string) => {
@@ -69,11 +105,53 @@ export const UnreadCountProvider: React.FC<UnreadCountProviderProps> = ({ childr
         return () => subscription?.remove();
     }, [user, isChatFeatureEnabled, refreshUnreadCounts]);
 
+    // Keep badges current from the chat WebSocket, alongside any open chat screen
+    useEffect(() => {
+        if (!user || !isChatFeatureEnabled) return;
+
+        const scheduleRefresh = (leagueId?: number) => {
+            if (leagueId !== undefined) {
+                liveRefreshLeaguesRef.current.add(leagueId);
+            }
+            if (liveRefreshTimerRef.current) return;
+
+            liveRefreshTimerRef.current = setTimeout(() => {
+                liveRefreshTimerRef.current = null;
+                const leagueIds = Array.from(liveRefreshLeaguesRef.current);
+                liveRefreshLeaguesRef.current.clear();
+
+                refreshUnreadCounts();
+                leagueIds
+                    .filter(leagueId => channelCountLeaguesRef.current.has(leagueId))
+                    .forEach(leagueId => refreshChannelUnreadCounts(leagueId));
+            }, LIVE_REFRESH_DELAY_MS);
+        };
+
+        const unsubscribeMessages = SecureChatService.subscribeToEvent('message', (message) => {
+            if (message.user._id === user.id.toString()) return;
+            scheduleRefresh(parseInt(message.leagueId));
+        });
+        // Messages may have arrived while the socket was down
+        const unsubscribeConnected = SecureChatService.subscribeToEvent('connected', () => scheduleRefresh());
+
+        return () => {
+            unsubscribeMessages();
+            unsubscribeConnected();
+            if (liveRefreshTimerRef.current) {
+                clearTimeout(liveRefreshTimerRef.current);
+                liveRefreshTimerRef.current = null;
+            }
+        };
+    }, [user, isChatFeatureEnabled, refreshUnreadCounts, refreshChannelUnreadCounts]);
+
     const value: UnreadCountContextType = {
         unreadCounts,
         isLoading,
         refreshUnreadCounts,
         getUnreadCount,
+        refreshChannelUnreadCounts,
+        getChannelUnreadCount,
+        markChannelRead,
     };
 
     return (
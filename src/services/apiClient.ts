@@ -0,0 +1,374 @@
+import { AxiosResponse } from 'axios';
+import {
+    authAPI,
+    adminAPI,
+    leaguesAPI,
+    chatAPI,
+    picksAPI,
+    platformStandingsAPI,
+    communityPicksAPI,
+    driversAPI,
+    statsAPI,
+    seasonsAPI,
+    f1racesAPI,
+    activityAPI,
+    notificationsAPI,
+} from './apiService';
+import * as s from './apiValidation';
+import { Schema, ApiValidationError } from './apiValidation';
+import {
+    userSchema,
+    leagueSchema,
+    driverSchema,
+    userPickV2Schema,
+    raceResultV2Schema,
+    positionResultV2Schema,
+    memberPicksV2Schema,
+    notificationPreferencesSchema,
+    activitySchema,
+    userStatsSchema,
+    globalStatsSchema,
+    adminUserSchema,
+    adminStatsSchema,
+    f1RaceSchema,
+    leagueMemberSchema,
+    leagueStandingSchema,
+    leagueStatsSchema,
+    seasonSchema,
+    communityWeekSchema,
+    communityStatsSchema,
+    driverPositionStatsSchema,
+    platformStandingsSchema,
+    leagueInviteSchema,
+    invitePreviewSchema,
+    userSearchResultSchema,
+    joinRequestSchema,
+    joinResultSchema,
+} from './apiSchemas';
+import {
+    PickV2,
+    NotificationPreferences,
+    DriverPositionStats,
+    LeagueRole,
+    LeagueScoringRules,
+    CreateInviteOptions,
+} from '../types';
+import { ChatNotificationLevel } from '../types/chat';
+
+/**
+ * Why a typed API call failed:
+ * - network: no response was received
+ * - timeout: the request exceeded the client timeout
+ * - http: the server answered with a non-2xx status
+ * - server: the server answered 2xx but with `success: false`
+ * - validation: the payload did not match the declared schema
+ */
+export type ApiErrorKind = 'network' | 'timeout' | 'http' | 'server' | 'validation';
+
+export interface ApiError {
+    kind: ApiErrorKind;
+    message: string;
+    status?: number;
+    path?: string;
+}
+
+export type ApiResult<T> = { ok: true; data: T } | { ok: false; error: ApiError };
+
+/** Payload of mutations that only acknowledge success. */
+export interface ApiAck {
+    message?: string;
+}
+
+interface ApiEnvelope {
+    success?: boolean;
+    data?: unknown;
+    message?: string;
+    error?: string;
+    errors?: { message?: string }[];
+    [key: string]: unknown;
+}
+
+const ackSchema = s.object<ApiAck>({
+    message: s.optional(s.string),
+});
+
+/**
+ * Pull the most specific error message out of a backend error body
+ * (ErrorClass `errors` array first, then `error`, then `message`).
+ */
+const getEnvelopeMessage = (body: unknown): string | undefined => {
+    if (typeof body !== 'object' || body === null) return undefined;
+    const envelope = body as ApiEnvelope;
+    if (Array.isArray(envelope.errors) && envelope.errors.length > 0 && envelope.errors[0]?.message) {
+        return envelope.errors[0].message;
+    }
+    if (typeof envelope.error === 'string') return envelope.error;
+    if (typeof envelope.message === 'string') return envelope.message;
+    return undefined;
+};
+
+/**
+ * Convert a thrown axios error into an ApiError
+ */
+export const toApiError = (error: any): ApiError => {
+    if (error?.response) {
+        return {
+            kind: 'http',
+            status: error.response.status,
+            message: getEnvelopeMessage(error.response.data) || `Request failed with status ${error.response.status}`,
+        };
+    }
+    if (error?.code === 'ECONNABORTED' || error?.message?.includes('timeout')) {
+        return { kind: 'timeout', message: 'Request timed out. Please try again.' };
+    }
+    if (error?.code === 'NETWORK_ERROR' || error?.message?.includes('Network Error')) {
+        return { kind: 'network', message: 'Unable to connect to server. Please check your internet connection.' };
+    }
+    return { kind: 'network', message: error?.message || 'An unexpected error occurred. Please try again.' };
+};
+
+/**
+ * Run an apiService call, check the `{ success, data }` envelope and validate the
+ * selected payload against a schema. Never throws.
+ * @param call - Function performing the axios request
+ * @param schema - Schema the payload must satisfy
+ * @param select - Picks the payload out of the envelope (defaults to `data`)
+ */
+export const request = async <T>(
+    call: () => Promise<AxiosResponse>,
+    schema: Schema<T>,
+    select: (body: ApiEnvelope) => unknown = (body) => body.data
+): Promise<ApiResult<T>> => {
+    let response: AxiosResponse;
+    try {
+        response = await call();
+    } catch (error) {
+        return { ok: false, error: toApiError(error) };
+    }
+
+    const body = response.data;
+    if (typeof body !== 'object' || body === null) {
+        return {
+            ok: false,
+            error: { kind: 'validation', message: 'Unexpected response from server.', path: 'response' },
+        };
+    }
+
+    if ((body as ApiEnvelope).success !== true) {
+        return {
+            ok: false,
+            error: {
+                kind: 'server',
+                status: response.status,
+                message: getEnvelopeMessage(body) || 'Operation failed. Please try again.',
+            },
+        };
+    }
+
+    try {
+        return { ok: true, data: schema(select(body as ApiEnvelope), 'response') };
+    } catch (error) {
+        if (error instanceof ApiValidationError) {
+            console.error('API response validation failed:', {
+                url: response.config?.url,
+                path: error.path,
+                message: error.message,
+            });
+            return {
+                ok: false,
+                error: { kind: 'validation', message: 'Unexpected response from server.', path: error.path },
+            };
+        }
+        throw error;
+    }
+};
+
+const ack = (call: () => Promise<AxiosResponse>) => request(call, ackSchema, (body) => body);
+
+// Typed, validated counterparts of the apiService modules
+
+export const typedAuthAPI = {
+    login: (email: string, password: string) =>
+        request(() => authAPI.login(email, password), s.object({ user: userSchema, token: s.string }), (body) => body),
+    signup: (email: string, password: string, name: string) =>
+        request(() => authAPI.signup(email, password, name), s.object({ user: userSchema, token: s.string }), (body) => body),
+    forgotPassword: (email: string) => ack(() => authAPI.forgotPassword(email)),
+    resetPassword: (token: string, newPassword: string) => ack(() => authAPI.resetPassword(token, newPassword)),
+    deleteAccount: (data: { password: string }) => ack(() => authAPI.deleteAccount(data)),
+    getProfile: () => request(() => authAPI.getProfile(), userSchema),
+    getUserStats: (seasonYear?: number | 'all' | null) =>
+        request(() => authAPI.getUserStats(seasonYear), userStatsSchema),
+    getGlobalStats: (seasonYear?: number | 'all' | null) =>
+        request(() => authAPI.getGlobalStats(seasonYear), globalStatsSchema),
+    updateProfile: (data: { name: string }) => ack(() => authAPI.updateProfile(data)),
+    updateAvatar: (data: FormData) =>
+        request(() => authAPI.updateAvatar(data), s.object({ avatar: s.string }), (body) => body),
+    changePassword: (data: { currentPassword: string; newPassword: string }) =>
+        ack(() => authAPI.changePassword(data)),
+    searchUsers: (query: string) => request(() => authAPI.searchUsers(query), s.array(userSearchResultSchema)),
+};
+
+export const typedAdminAPI = {
+    getDashboardStats: (seasonYear?: number | null) =>
+        request(() => adminAPI.getDashboardStats(seasonYear), adminStatsSchema),
+    getAllUsers: () => request(() => adminAPI.getAllUsers(), s.array(adminUserSchema)),
+    updateUserRole: (userId: number, role: 'user' | 'admin') => ack(() => adminAPI.updateUserRole(userId, role)),
+    getAllLeagues: () => request(() => adminAPI.getAllLeagues(), s.array(leagueSchema)),
+};
+
+export const typedLeaguesAPI = {
+    getLeagues: () => request(() => leaguesAPI.getLeagues(), s.array(leagueSchema)),
+    getPublicLeagues: () => request(() => leaguesAPI.getPublicLeagues(), s.array(leagueSchema)),
+    createLeague: (name: string, positions: number[] = [], isPublic: boolean = false) =>
+        request(() => leaguesAPI.createLeague(name, positions, isPublic), leagueSchema),
+    getLeague: (leagueId: number) => request(() => leaguesAPI.getLeague(leagueId), leagueSchema),
+    joinLeague: (leagueId: number) => request(() => leaguesAPI.joinLeague(leagueId), joinResultSchema),
+    joinByCode: (joinCode: string) => request(() => leaguesAPI.joinByCode(joinCode), joinResultSchema),
+    getLeagueByCode: (joinCode: string) => request(() => leaguesAPI.getLeagueByCode(joinCode), leagueSchema),
+    getLeagueMembers: (leagueId: number) =>
+        request(() => leaguesAPI.getLeagueMembers(leagueId), s.array(leagueMemberSchema)),
+    getDetailedLeagueStandings: (leagueId: number) =>
+        request(() => leaguesAPI.getDetailedLeagueStandings(leagueId), s.array(leagueStandingSchema)),
+    getLeagueStats: (leagueId: number) => request(() => leaguesAPI.getLeagueStats(leagueId), leagueStatsSchema),
+    updateLeague: (leagueId: number, name: string, isPublic?: boolean) =>
+        ack(() => leaguesAPI.updateLeague(leagueId, name, isPublic)),
+    updateScoringRules: (leagueId: number, scoringRules: LeagueScoringRules) =>
+        ack(() => leaguesAPI.updateScoringRules(leagueId, scoringRules)),
+    deleteLeague: (leagueId: number) => ack(() => leaguesAPI.deleteLeague(leagueId)),
+    leaveLeague: (leagueId: number) => ack(() => leaguesAPI.leaveLeague(leagueId)),
+    removeMember: (leagueId: number, userId: number) => ack(() => leaguesAPI.removeMember(leagueId, userId)),
+    banMember: (leagueId: number, userId: number) => ack(() => leaguesAPI.banMember(leagueId, userId)),
+    updateMemberRole: (leagueId: number, userId: number, role: LeagueRole) =>
+        ack(() => leaguesAPI.updateMemberRole(leagueId, userId, role)),
+    transferOwnership: (leagueId: number, userId: number) => ack(() => leaguesAPI.transferOwnership(leagueId, userId)),
+    regenerateJoinCode: (leagueId: number) =>
+        request(() => leaguesAPI.regenerateJoinCode(leagueId), s.object({ joinCode: s.string })),
+    revokeJoinCode: (leagueId: number) => ack(() => leaguesAPI.revokeJoinCode(leagueId)),
+    getInvites: (leagueId: number) => request(() => leaguesAPI.getInvites(leagueId), s.array(leagueInviteSchema)),
+    createInvite: (leagueId: number, options: CreateInviteOptions) =>
+        request(() => leaguesAPI.createInvite(leagueId, options), leagueInviteSchema),
+    revokeInvite: (leagueId: number, inviteId: number) => ack(() => leaguesAPI.revokeInvite(leagueId, inviteId)),
+    getInviteByCode: (code: string) => request(() => leaguesAPI.getInviteByCode(code), invitePreviewSchema),
+    updateJoinApproval: (leagueId: number, requiresApproval: boolean) =>
+        ack(() => leaguesAPI.updateJoinApproval(leagueId, requiresApproval)),
+    getJoinRequests: (leagueId: number) =>
+        request(() => leaguesAPI.getJoinRequests(leagueId), s.array(joinRequestSchema)),
+    approveJoinRequest: (leagueId: number, requestId: number) =>
+        ack(() => leaguesAPI.approveJoinRequest(leagueId, requestId)),
+    denyJoinRequest: (leagueId: number, requestId: number) =>
+        ack(() => leaguesAPI.denyJoinRequest(leagueId, requestId)),
+    cancelJoinRequest: (leagueId: number) => ack(() => leaguesAPI.cancelJoinRequest(leagueId)),
+};
+
+export const typedChatAPI = {
+    markMessagesAsRead: (leagueId: number) => ack(() => chatAPI.markMessagesAsRead(leagueId)),
+    getUnreadCount: (leagueId: number) =>
+        request(() => chatAPI.getUnreadCount(leagueId), s.number, (body) => body.unreadCount ?? 0),
+    getAllUnreadCounts: () =>
+        request(
+            () => chatAPI.getAllUnreadCounts(),
+            s.array(s.object<{ leagueId: number; leagueName: string; unreadCount: number }>({
+                leagueId: s.number,
+                leagueName: s.string,
+                unreadCount: s.number,
+            })),
+            (body) => body.unreadCounts ?? []
+        ),
+    getNotificationPreferences: (leagueId: number) =>
+        request(
+            () => chatAPI.getNotificationPreferences(leagueId),
+            s.literal('all', 'mentions', 'off'),
+            (body) => body.notificationLevel ?? (body.notificationsEnabled === false ? 'off' : 'all')
+        ),
+    updateNotificationPreferences: (leagueId: number, notificationLevel: ChatNotificationLevel) =>
+        ack(() => chatAPI.updateNotificationPreferences(leagueId, notificationLevel)),
+    updateStatus: (isOnline: boolean) => ack(() => chatAPI.updateStatus(isOnline)),
+};
+
+export const typedPicksAPI = {
+    makePickV2: (leagueId: number, weekNumber: number, picks: PickV2[]) =>
+        ack(() => picksAPI.makePickV2(leagueId, weekNumber, picks)),
+    removePickV2: (leagueId: number, weekNumber: number, position: number) =>
+        ack(() => picksAPI.removePickV2(leagueId, weekNumber, position)),
+    makeSprintPickV2: (leagueId: number, weekNumber: number, picks: PickV2[]) =>
+        ack(() => picksAPI.makeSprintPickV2(leagueId, weekNumber, picks)),
+    removeSprintPickV2: (leagueId: number, weekNumber: number, position: number) =>
+        ack(() => picksAPI.removeSprintPickV2(leagueId, weekNumber, position)),
+    getUserPicksV2: (leagueId: number) =>
+        request(() => picksAPI.getUserPicksV2(leagueId), s.array(userPickV2Schema)),
+    getRaceResultsV2: (leagueId: number, weekNumber: number, eventType: 'race' | 'sprint' = 'race') =>
+        request(
+            () => picksAPI.getRaceResultsV2(leagueId, weekNumber, eventType),
+            s.array(raceResultV2Schema),
+            (body) => (body.data as { results?: unknown } | undefined)?.results
+        ),
+    getResultsByPositionV2: (leagueId: number, weekNumber: number, position: number, eventType: 'race' | 'sprint' = 'race') =>
+        request(() => picksAPI.getResultsByPositionV2(leagueId, weekNumber, position, eventType), positionResultV2Schema),
+    getMemberPicksV2: (leagueId: number, weekNumber: number, userId: number, eventType: 'race' | 'sprint' = 'race') =>
+        request(() => picksAPI.getMemberPicksV2(leagueId, weekNumber, userId, eventType), memberPicksV2Schema),
+    getLeaguePositions: (leagueId: number) =>
+        request(() => picksAPI.getLeaguePositions(leagueId), s.array(s.number)),
+    updateLeaguePositions: (leagueId: number, positions: number[]) =>
+        ack(() => picksAPI.updateLeaguePositions(leagueId, positions)),
+    getLeaguePositionsForWeek: (leagueId: number, weekNumber: number) =>
+        request(() => picksAPI.getLeaguePositionsForWeek(leagueId, weekNumber), s.array(s.number)),
+    getUserPicksForEvent: (leagueId: number, eventType: 'race' | 'sprint') =>
+        request(() => picksAPI.getUserPicksForEvent(leagueId, eventType), s.array(userPickV2Schema)),
+    getUserPicksForWeekForEvent: (leagueId: number, weekNumber: number, eventType: 'race' | 'sprint') =>
+        request(() => picksAPI.getUserPicksForWeekForEvent(leagueId, weekNumber, eventType), s.array(userPickV2Schema)),
+};
+
+export const typedPlatformStandingsAPI = {
+    getStandings: (seasonYear?: number | null) =>
+        request(() => platformStandingsAPI.getStandings(seasonYear), platformStandingsSchema),
+};
+
+export const typedCommunityPicksAPI = {
+    getAvailableWeeks: (seasonYear?: number) =>
+        request(() => communityPicksAPI.getAvailableWeeks(seasonYear), s.array(communityWeekSchema)),
+    getStats: (weekNumber: number, eventType: 'race' | 'sprint' = 'race', seasonYear?: number) =>
+        request(() => communityPicksAPI.getStats(weekNumber, eventType, seasonYear), communityStatsSchema),
+};
+
+export const typedDriversAPI = {
+    getDrivers: () => request(() => driversAPI.getDrivers(), s.array(driverSchema)),
+};
+
+export const typedStatsAPI = {
+    getDriverPositionStats: (position: number, seasonYear?: number | 'all' | null) =>
+        request(
+            () => statsAPI.getDriverPositionStats(position, seasonYear),
+            s.object<{ position: number; drivers: DriverPositionStats[] }>({
+                position: s.number,
+                drivers: s.array(driverPositionStatsSchema),
+            })
+        ),
+};
+
+export const typedSeasonsAPI = {
+    getSeasons: () => request(() => seasonsAPI.getSeasons(), s.array(seasonSchema)),
+    getCurrentSeason: () => request(() => seasonsAPI.getCurrentSeason(), seasonSchema),
+};
+
+export const typedF1racesAPI = {
+    getCurrentRace: () => request(() => f1racesAPI.getCurrentRace(), f1RaceSchema),
+    getAllRaces: (seasonYear?: number) => request(() => f1racesAPI.getAllRaces(seasonYear), s.array(f1RaceSchema)),
+    getRaceByWeek: (weekNumber: number, seasonYear?: number) =>
+        request(() => f1racesAPI.getRaceByWeek(weekNumber, seasonYear), f1RaceSchema),
+};
+
+export const typedActivityAPI = {
+    getLeagueActivity: (leagueId: number, limit = 20) =>
+        request(() => activityAPI.getLeagueActivity(leagueId, limit), s.array(activitySchema)),
+    getRecentActivity: (leagueId: number, limit = 10) =>
+        request(() => activityAPI.getRecentActivity(leagueId, limit), s.array(activitySchema)),
+};
+
+export const typedNotificationsAPI = {
+    getPreferences: () => request(() => notificationsAPI.getPreferences(), notificationPreferencesSchema),
+    updatePreferences: (preferences: NotificationPreferences) =>
+        ack(() => notificationsAPI.updatePreferences(preferences)),
+    registerPushToken: (token: string, platform: 'web' | 'ios' | 'android') =>
+        ack(() => notificationsAPI.registerPushToken(token, platform)),
+    unregisterPushToken: (token: string) => ack(() => notificationsAPI.unregisterPushToken(token)),
+};
@@ -0,0 +1,481 @@
+import * as s from './apiValidation';
+import {
+    User,
+    League,
+    LeagueInvite,
+    LeagueScoringRules,
+    InvitePreview,
+    JoinRequest,
+    JoinResult,
+    UserSearchResult,
+    PositionStatus,
+    PositionPickStatus,
+    EventPositionStatus,
+    Driver,
+    UserPickV2,
+    RaceResultV2,
+    PositionResultV2,
+    MemberPicksV2,
+    NotificationPreferences,
+    Activity,
+    UserStats,
+    GlobalStats,
+    AdminUser,
+    AdminStats,
+    F1Race,
+    LeagueMember,
+    LeagueStanding,
+    LeagueStats,
+    Season,
+    CommunityWeek,
+    CommunityStats,
+    DriverPositionStats,
+    PlatformStandings,
+} from '../types';
+
+// Response schemas for the interfaces in src/types. Each schema must declare every
+// field of its interface, so adding a field to a type without updating the schema
+// is a compile error.
+
+export const userSchema = s.object<User>({
+    id: s.number,
+    email: s.string,
+    name: s.string,
+    avatar: s.optional(s.string),
+    role: s.optional(s.literal('user', 'admin')),
+    chatFeatureEnabled: s.optional(s.boolean),
+    positionChangesEnabled: s.optional(s.boolean),
+    multiPositionPicksEnabled: s.optional(s.boolean),
+});
+
+const positionPickStatusSchema = s.object<PositionPickStatus>({
+    position: s.number,
+    hasPick: s.boolean,
+});
+
+const eventPositionStatusSchema = s.object<EventPositionStatus>({
+    positions: s.array(positionPickStatusSchema),
+});
+
+export const positionStatusSchema = s.object<PositionStatus>({
+    weekNumber: s.optional(s.number),
+    hasSprint: s.optional(s.boolean),
+    race: s.optional(eventPositionStatusSchema),
+    sprint: s.optional(eventPositionStatusSchema),
+    positions: s.optional(s.array(positionPickStatusSchema)),
+});
+
+const leagueRoleSchema = s.literal('Owner', 'CoOwner', 'Admin', 'Member');
+
+const leagueScoringRulesSchema = s.object<LeagueScoringRules>({
+    scheme: s.literal('exactOnly', 'distanceDecay', 'custom'),
+    pointsByDifference: s.array(s.number),
+    sprintMultiplier: s.number,
+    allCorrectBonus: s.number,
+});
+
+export const leagueSchema = s.object<League>({
+    id: s.number,
+    name: s.string,
+    ownerId: s.number,
+    seasonYear: s.number,
+    joinCode: s.optional(s.string),
+    memberCount: s.optional(s.number),
+    isMember: s.optional(s.boolean),
+    userRole: s.optional(leagueRoleSchema),
+    requiredPositions: s.optional(s.array(s.number)),
+    isPublic: s.optional(s.boolean),
+    requiresApproval: s.optional(s.boolean),
+    joinRequestStatus: s.optional(s.literal('pending', 'denied')),
+    scoringRules: s.optional(leagueScoringRulesSchema),
+    seasonActivity: s.optional(s.number),
+    lastTwoRaceWeeksActivity: s.optional(s.number),
+    seasonPicks: s.optional(s.number),
+    lastTwoRaceWeeksPicks: s.optional(s.number),
+    totalPicks: s.optional(s.number),
+    totalActivity: s.optional(s.number),
+    activityScore: s.optional(s.number),
+    positionStatus: s.optional(positionStatusSchema),
+    seasonEnded: s.optional(s.boolean),
+});
+
+const inviteStatusSchema = s.literal('valid', 'expired', 'revoked', 'used');
+
+export const leagueInviteSchema = s.object<LeagueInvite>({
+    id: s.number,
+    leagueId: s.number,
+    code: s.string,
+    createdAt: s.string,
+    expiresAt: s.nullable(s.string),
+    maxUses: s.nullable(s.number),
+    uses: s.number,
+    status: inviteStatusSchema,
+    invitedUserId: s.optional(s.number),
+    invitedUserName: s.optional(s.string),
+});
+
+export const invitePreviewSchema = s.object<InvitePreview>({
+    league: leagueSchema,
+    status: inviteStatusSchema,
+    expiresAt: s.nullable(s.string),
+    requiresApproval: s.optional(s.boolean),
+});
+
+export const joinRequestSchema = s.object<JoinRequest>({
+    id: s.number,
+    leagueId: s.number,
+    userId: s.number,
+    userName: s.string,
+    userAvatar: s.optional(s.string),
+    createdAt: s.string,
+    status: s.literal('pending', 'approved', 'denied'),
+});
+
+export const joinResultSchema = s.object<JoinResult>({
+    status: s.literal('joined', 'pending'),
+});
+
+export const userSearchResultSchema = s.object<UserSearchResult>({
+    id: s.number,
+    name: s.string,
+    avatar: s.optional(s.string),
+});
+
+export const driverSchema = s.object<Driver>({
+    id: s.number,
+    name: s.string,
+    team: s.string,
+    driverNumber: s.number,
+    country: s.string,
+    isActive: s.optional(s.boolean),
+});
+
+export const userPickV2Schema = s.object<UserPickV2>({
+    id: s.number,
+    leagueId: s.number,
+    userId: s.number,
+    weekNumber: s.number,
+    position: s.number,
+    driverId: s.number,
+    driverName: s.string,
+    driverTeam: s.string,
+    isLocked: s.boolean,
+    isScored: s.boolean,
+    points: s.number,
+});
+
+export const raceResultV2Schema = s.object<RaceResultV2>({
+    userId: s.number,
+    userName: s.string,
+    userAvatar: s.optional(s.string),
+    picks: s.array(s.object<RaceResultV2['picks'][number]>({
+        position: s.number,
+        driverId: s.nullable(s.number),
+        driverName: s.nullable(s.string),
+        driverTeam: s.nullable(s.string),
+        actualDriverId: s.number,
+        actualDriverName: s.string,
+        actualDriverTeam: s.string,
+        positionDifference: s.nullable(s.number),
+        isCorrect: s.boolean,
+        points: s.number,
+    })),
+    totalPoints: s.number,
+    totalCorrect: s.number,
+    hasMadeAllPicks: s.boolean,
+});
+
+const resultDriverSchema = s.object<{ driverId: number; driverName: string; driverTeam: string }>({
+    driverId: s.number,
+    driverName: s.string,
+    driverTeam: s.string,
+});
+
+export const positionResultV2Schema = s.object<PositionResultV2>({
+    leagueId: s.number,
+    weekNumber: s.number,
+    position: s.number,
+    picks: s.array(s.object<PositionResultV2['picks'][number]>({
+        userId: s.number,
+        userName: s.string,
+        driverId: s.number,
+        driverName: s.string,
+        driverTeam: s.string,
+        position: s.number,
+        isCorrect: s.nullable(s.boolean),
+        points: s.nullable(s.number),
+        actualDriverId: s.nullable(s.number),
+        actualDriverName: s.nullable(s.string),
+        actualDriverTeam: s.nullable(s.string),
+        actualFinishPosition: s.nullable(s.number),
+    })),
+    actualResult: s.nullable(resultDriverSchema),
+    totalParticipants: s.number,
+    correctPicks: s.number,
+});
+
+export const memberPicksV2Schema = s.object<MemberPicksV2>({
+    leagueId: s.number,
+    weekNumber: s.number,
+    userId: s.number,
+    userName: s.string,
+    picks: s.array(s.object<MemberPicksV2['picks'][number]>({
+        position: s.number,
+        driverId: s.number,
+        driverName: s.string,
+        driverTeam: s.string,
+        isCorrect: s.nullable(s.boolean),
+        points: s.nullable(s.number),
+        actualDriverId: s.nullable(s.number),
+        actualDriverName: s.nullable(s.string),
+        actualDriverTeam: s.nullable(s.string),
+        actualFinishPosition: s.nullable(s.number),
+    })),
+    totalPoints: s.number,
+    correctPicks: s.number,
+    totalPicks: s.number,
+    accuracy: s.string,
+});
+
+export const notificationPreferencesSchema = s.object<NotificationPreferences>({
+    emailReminders: s.boolean,
+    emailScoreUpdates: s.boolean,
+    pushReminders: s.boolean,
+    pushScoreUpdates: s.boolean,
+    emailReminder5Days: s.boolean,
+    emailReminder3Days: s.boolean,
+    emailReminder1Day: s.boolean,
+    emailReminder1Hour: s.boolean,
+    pushReminder5Days: s.boolean,
+    pushReminder3Days: s.boolean,
+    pushReminder1Day: s.boolean,
+    pushReminder1Hour: s.boolean,
+    emailOther: s.boolean,
+    pushOther: s.boolean,
+    pushChatMessages: s.boolean,
+});
+
+export const activitySchema = s.object<Activity>({
+    id: s.number,
+    leagueId: s.number,
+    userId: s.nullable(s.number),
+    userName: s.nullable(s.string),
+    userAvatar: s.optional(s.string),
+    activityType: s.string,
+    weekNumber: s.nullable(s.number),
+    driverId: s.nullable(s.number),
+    driverName: s.nullable(s.string),
+    driverTeam: s.nullable(s.string),
+    previousDriverId: s.nullable(s.number),
+    previousDriverName: s.nullable(s.string),
+    previousDriverTeam: s.nullable(s.string),
+    position: s.nullable(s.number),
+    raceName: s.nullable(s.string),
+    leagueName: s.nullable(s.string),
+    createdAt: s.string,
+    primaryMessage: s.optional(s.string),
+    secondaryMessage: s.optional(s.string),
+    activityData: s.optional(s.string),
+});
+
+export const userStatsSchema = s.object<UserStats>({
+    totalPicks: s.number,
+    correctPicks: s.number,
+    totalPoints: s.number,
+    averagePoints: s.number,
+    accuracy: s.number,
+    avgDistance: s.number,
+    perfectPicksRate: s.number,
+});
+
+export const globalStatsSchema = s.object<GlobalStats>({
+    totalUsers: s.number,
+    totalLeagues: s.number,
+    totalPicks: s.number,
+    correctPicks: s.number,
+    accuracy: s.number,
+    averagePoints: s.number,
+    averageDistanceFromTarget: s.number,
+    lifetimeAccuracy: s.number,
+    lifetimeAvgDistance: s.number,
+    weekAccuracy: s.number,
+    weekAvgDistance: s.number,
+});
+
+export const adminUserSchema = s.object<AdminUser>({
+    id: s.number,
+    email: s.string,
+    name: s.string,
+    role: s.literal('user', 'admin'),
+    createdAt: s.string,
+    lastLogin: s.optional(s.string),
+});
+
+export const adminStatsSchema = s.object<AdminStats>({
+    users: s.object<AdminStats['users']>({
+        totalUsers: s.number,
+        adminUsers: s.number,
+        regularUsers: s.number,
+    }),
+    leagues: s.object<AdminStats['leagues']>({
+        totalLeagues: s.number,
+        activeLeagues: s.number,
+        archivedLeagues: s.number,
+        averageMembersPerLeague: s.number,
+    }),
+    picks: s.object<AdminStats['picks']>({
+        totalPicks: s.number,
+        scoredPicks: s.number,
+        lockedPicks: s.number,
+        totalPoints: s.number,
+        averagePoints: s.number,
+        correctPicks: s.number,
+        accuracy: s.number,
+    }),
+});
+
+export const f1RaceSchema = s.object<F1Race>({
+    id: s.number,
+    raceName: s.string,
+    raceDate: s.string,
+    weekNumber: s.number,
+    seasonYear: s.number,
+    isLocked: s.boolean,
+    isScored: s.boolean,
+    status: s.optional(s.string),
+    picksLocked: s.optional(s.boolean),
+    lockTime: s.optional(s.string),
+    timeUntilLock: s.optional(s.string),
+    timeUntilQualifying: s.optional(s.string),
+    lockMessage: s.optional(s.string),
+    showCountdown: s.optional(s.boolean),
+    qualifyingDate: s.optional(s.string),
+    circuitName: s.optional(s.string),
+    country: s.optional(s.string),
+    hasSprint: s.optional(s.boolean),
+    sprintPicksLocked: s.optional(s.boolean),
+    sprintLockTime: s.nullable(s.string),
+    racePicksLocked: s.optional(s.boolean),
+    raceLockTime: s.optional(s.string),
+});
+
+export const leagueMemberSchema = s.object<LeagueMember>({
+    id: s.number,
+    userId: s.number,
+    userName: s.string,
+    userAvatar: s.optional(s.string),
+    userRole: leagueRoleSchema,
+    joinedAt: s.string,
+    totalPoints: s.number,
+    correctPicks: s.number,
+    accuracy: s.number,
+});
+
+export const leagueStandingSchema = s.object<LeagueStanding>({
+    id: s.string,
+    name: s.string,
+    avatar: s.optional(s.nullable(s.string)),
+    totalPoints: s.number,
+    correctPicks: s.number,
+    totalPicks: s.number,
+    accuracy: s.nullable(s.number),
+    averagePoints: s.number,
+    averageDistanceFromCorrect: s.optional(s.number),
+    avgDistance: s.optional(s.number),
+    racesParticipated: s.optional(s.number),
+    averagePointsPerRace: s.optional(s.number),
+    newAccuracy: s.optional(s.number),
+    correctPicksByPosition: s.optional(s.nullable(s.object<NonNullable<LeagueStanding['correctPicksByPosition']>>({
+        userId: s.number,
+        userName: s.string,
+        positions: s.record(s.object({
+            position: s.number,
+            totalPicks: s.number,
+            correctPicks: s.number,
+        })),
+    }))),
+});
+
+export const leagueStatsSchema = s.object<LeagueStats>({
+    totalMembers: s.number,
+    totalPicks: s.number,
+    correctPicks: s.number,
+    accuracy: s.number,
+    avgDistance: s.optional(s.number),
+    averagePoints: s.number,
+    totalPoints: s.number,
+    mostActiveMember: s.object<LeagueStats['mostActiveMember']>({
+        userId: s.number,
+        userName: s.string,
+        picksCount: s.number,
+    }),
+    topPerformer: s.object<LeagueStats['topPerformer']>({
+        userId: s.number,
+        userName: s.string,
+        totalPoints: s.number,
+    }),
+});
+
+export const seasonSchema = s.object<Season>({
+    year: s.number,
+    displayLabel: s.string,
+});
+
+export const communityWeekSchema = s.object<CommunityWeek>({
+    weekNumber: s.number,
+    raceName: s.string,
+    raceDate: s.nullable(s.string),
+    isScored: s.boolean,
+    hasSprint: s.boolean,
+});
+
+export const communityStatsSchema = s.object<CommunityStats>({
+    weekNumber: s.number,
+    raceName: s.string,
+    eventType: s.literal('race', 'sprint'),
+    isScored: s.boolean,
+    positions: s.array(s.object<CommunityStats['positions'][number]>({
+        position: s.number,
+        totalPicks: s.number,
+        isScored: s.boolean,
+        actualResult: s.nullable(resultDriverSchema),
+        drivers: s.array(s.object<CommunityStats['positions'][number]['drivers'][number]>({
+            driverId: s.number,
+            driverName: s.string,
+            driverTeam: s.string,
+            pickCount: s.number,
+            percentage: s.number,
+            isCorrect: s.boolean,
+        })),
+    })),
+});
+
+export const driverPositionStatsSchema = s.object<DriverPositionStats>({
+    driverId: s.number,
+    driverName: s.string,
+    driverTeam: s.string,
+    timesInPosition: s.number,
+    totalRaces: s.number,
+    percentageInPosition: s.number,
+});
+
+export const platformStandingsSchema = s.object<PlatformStandings>({
+    seasonYear: s.number,
+    totalPlayers: s.number,
+    thresholds: s.array(s.object<PlatformStandings['thresholds'][number]>({
+        label: s.string,
+        percentile: s.number,
+        accuracy: s.number,
+    })),
+    userRank: s.nullable(s.number),
+    userPercentile: s.nullable(s.number),
+    userTotalPoints: s.nullable(s.number),
+    userLeagues: s.array(s.object<PlatformStandings['userLeagues'][number]>({
+        leagueId: s.number,
+        leagueName: s.string,
+        totalPoints: s.number,
+        accuracy: s.number,
+        platformRank: s.number,
+        platformPercentile: s.nullable(s.number),
+    })),
+});
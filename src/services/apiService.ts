@@ -1,6 +1,16 @@
-import axios from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { PickV2, NotificationPreferences } from '../types';
+import axios, { AxiosProgressEvent, AxiosRequestConfig } from 'axios';
+import { PickV2, NotificationPreferences, LeagueRole, LeagueScoringRules, CreateInviteOptions } from '../types';
+import { ChatNotificationLevel } from '../types/chat';
+import { credentialStore } from './credentialStore';
+import {
+    RetryableRequestConfig,
+    IDEMPOTENCY_HEADER,
+    getRetryPolicy,
+    needsIdempotencyKey,
+    createIdempotencyKey,
+    isRetryableError,
+    getRetryDelay,
+} from './retryPolicy';
 
 // API URL configuration
 export const getApiBaseUrl = () => {
@@ -60,17 +70,121 @@ export const apiService = axios.create({
     timeoutErrorMessage: 'Request timed out. Please try again.',
 });
 
+type TokenRefreshListener = (token: string) => void;
+type SessionExpiredListener = () => void | Promise<void>;
+
+const tokenRefreshListeners = new Set<TokenRefreshListener>();
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+// Set while a token refresh is running; other requests wait on it instead of starting their own
+let refreshPromise: Promise<string> | null = null;
+
+// Endpoints where a 401 means bad credentials rather than an expired access token
+const AUTH_ENDPOINTS = ['/users/login', '/users/signup', '/users/google-auth', '/users/refresh-token'];
+
+const isAuthEndpoint = (url?: string) => AUTH_ENDPOINTS.some(endpoint => url?.startsWith(endpoint));
+
+/**
+ * Listen for access tokens issued by a refresh. Returns an unsubscribe function.
+ */
+export const addTokenRefreshListener = (listener: TokenRefreshListener) => {
+    tokenRefreshListeners.add(listener);
+    return () => {
+        tokenRefreshListeners.delete(listener);
+    };
+};
+
+/**
+ * Listen for the session ending because the token could not be refreshed. Returns an unsubscribe function.
+ */
+export const addSessionExpiredListener = (listener: SessionExpiredListener) => {
+    sessionExpiredListeners.add(listener);
+    return () => {
+        sessionExpiredListeners.delete(listener);
+    };
+};
+
+/**
+ * The server refused the refresh token (or there is none), so the session can't be recovered
+ */
+class RefreshRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RefreshRejectedError';
+    }
+}
+
+/**
+ * Exchange the stored refresh token for a new access token. Concurrent callers share one refresh.
+ * Rejects with RefreshRejectedError only when the refresh token itself is no good; timeouts,
+ * lost connections and server errors reject with the original error.
+ */
+const refreshAccessToken = (): Promise<string> => {
+    if (!refreshPromise) {
+        refreshPromise = (async () => {
+            const refreshToken = await credentialStore.getRefreshToken();
+            if (!refreshToken) {
+                throw new RefreshRejectedError('No refresh token available');
+            }
+
+            // Plain axios so the refresh call itself never goes through these interceptors
+            const response = await axios.post(`${API_BASE_URL}/users/refresh-token`, { refreshToken }, { timeout: 30000 })
+                .catch(error => {
+                    const status = error.response?.status;
+                    if (status === 400 || status === 401) {
+                        throw new RefreshRejectedError('Refresh token was rejected');
+                    }
+                    throw error;
+                });
+            const { token, refreshToken: newRefreshToken } = response.data ?? {};
+            if (!response.data?.success || !token) {
+                throw new RefreshRejectedError('Token refresh was rejected');
+            }
+
+            await credentialStore.setTokens(token, newRefreshToken);
+            tokenRefreshListeners.forEach(listener => listener(token));
+            return token as string;
+        })().finally(() => {
+            refreshPromise = null;
+        });
+    }
+    return refreshPromise;
+};
+
+/**
+ * Tell listeners the session ended after a failed refresh; the auth context clears everything stored for the user
+ */
+const expireSession = async () => {
+    await Promise.all(Array.from(sessionExpiredListeners, listener => listener()));
+};
+
 // Request interceptor to add auth token
 apiService.interceptors.request.use(
     async (config) => {
         try {
-            const token = await AsyncStorage.getItem('token');
+            // Hold requests while a refresh is in flight so they go out with the new token
+            if (refreshPromise) {
+                await refreshPromise.catch(() => undefined);
+            } else if (!isAuthEndpoint(config.url) && await credentialStore.isTokenExpiring() && await credentialStore.getRefreshToken()) {
+                // Refresh ahead of expiry rather than waiting for a 401; on failure the 401 path takes over
+                await refreshAccessToken().catch(() => undefined);
+            }
+            const token = await credentialStore.getToken();
             if (token) {
                 config.headers.Authorization = `Bearer ${token}`;
             }
         } catch (error) {
             console.error('Error getting token:', error);
         }
+
+        // Retries reuse this config, so the key is generated once per logical request
+        if (needsIdempotencyKey(config) && !config.headers[IDEMPOTENCY_HEADER]) {
+            config.headers[IDEMPOTENCY_HEADER] = createIdempotencyKey();
+        }
+        const { timeout } = getRetryPolicy(config);
+        if (timeout) {
+            config.timeout = timeout;
+        }
         return config;
     },
     (error) => {
@@ -84,13 +198,25 @@ apiService.interceptors.response.use(
         // Check if the response contains a new token
         const newToken = response.headers['x-new-token'];
         if (newToken) {
-            AsyncStorage.setItem('token', newToken).catch(error => {
+            credentialStore.setToken(newToken).catch(error => {
                 console.error('Error storing new token:', error);
             });
         }
         return response;
     },
     async (error) => {
+        // Retry transient failures according to the endpoint's policy
+        const retryConfig: RetryableRequestConfig | undefined = error.config;
+        if (retryConfig && isRetryableError(error)) {
+            const policy = getRetryPolicy(retryConfig);
+            const attempt = retryConfig._retryCount ?? 0;
+            if (attempt < policy.retries) {
+                retryConfig._retryCount = attempt + 1;
+                await new Promise(resolve => setTimeout(resolve, getRetryDelay(policy, attempt)));
+                return apiService(retryConfig);
+            }
+        }
+
         // Enhanced error logging
         if (error.response) {
             // Server responded with error status
@@ -117,13 +243,23 @@ apiService.interceptors.response.use(
         }
 
         // Handle specific error types
-        if (error.response?.status === 401) {
-            // Token expired or invalid, clear storage
-            await AsyncStorage.removeItem('token');
-            await AsyncStorage.removeItem('user');
-
-            // Let the app's navigation logic handle redirects
-            // The AuthContext and route protection will automatically redirect to login when needed
+        const originalRequest: (AxiosRequestConfig & { _retry?: boolean }) | undefined = error.config;
+        if (error.response?.status === 401 && originalRequest && !originalRequest._retry && !isAuthEndpoint(originalRequest.url)) {
+            // Access token expired: refresh once, then replay the request with the new token
+            originalRequest._retry = true;
+            try {
+                const token = await refreshAccessToken();
+                originalRequest.headers = { ...originalRequest.headers, Authorization: `Bearer ${token}` };
+                return apiService(originalRequest);
+            } catch (refreshError) {
+                console.error('Token refresh failed:', refreshError);
+                // Only a rejected refresh token ends the session; being offline or a server
+                // hiccup just fails this request. The AuthContext and route protection then
+                // redirect to login when needed.
+                if (refreshError instanceof RefreshRejectedError) {
+                    await expireSession();
+                }
+            }
         }
 
         return Promise.reject(error);
@@ -156,6 +292,7 @@ export const authAPI = {
     }),
     changePassword: (data: { currentPassword: string; newPassword: string }) =>
         apiService.put('/users/password', data),
+    searchUsers: (query: string) => apiService.get('/users/search', { params: { q: query } }),
 };
 
 export const adminAPI = {
@@ -178,6 +315,7 @@ export const leaguesAPI = {
     createLeague: (name: string, positions: number[] = [], isPublic: boolean = false) =>
         apiService.post('/leagues/create', { name, positions, isPublic }),
     getLeague: (leagueId: number) => apiService.get(`/leagues/get/${leagueId}`),
+    // Both respond with a JoinResult; leagues that require approval get a pending join request instead
     joinLeague: (leagueId: number) => apiService.post(`/leagues/${leagueId}/join`),
     joinByCode: (joinCode: string) => apiService.post('/leagues/join-by-code', { joinCode }),
     getLeagueByCode: (joinCode: string) => apiService.get(`/leagues/code/${joinCode}`),
@@ -188,21 +326,82 @@ export const leaguesAPI = {
     getLeagueStats: (leagueId: number) => apiService.get(`/leagues/${leagueId}/stats`),
     updateLeague: (leagueId: number, name: string, isPublic?: boolean) =>
         apiService.put(`/leagues/${leagueId}`, { name, isPublic }),
+    updateScoringRules: (leagueId: number, scoringRules: LeagueScoringRules) =>
+        apiService.put(`/leagues/${leagueId}/scoring`, scoringRules),
     deleteLeague: (leagueId: number) => apiService.delete(`/leagues/${leagueId}`),
     leaveLeague: (leagueId: number) => apiService.post(`/leagues/${leagueId}/leave`),
+    removeMember: (leagueId: number, userId: number) => apiService.delete(`/leagues/${leagueId}/members/${userId}`),
+    // Removes the member and stops them rejoining
+    banMember: (leagueId: number, userId: number) => apiService.post(`/leagues/${leagueId}/members/${userId}/ban`),
+    updateMemberRole: (leagueId: number, userId: number, role: LeagueRole) =>
+        apiService.put(`/leagues/${leagueId}/members/${userId}/role`, { role }),
+    // The current owner becomes a co-owner
+    transferOwnership: (leagueId: number, userId: number) =>
+        apiService.post(`/leagues/${leagueId}/transfer-ownership`, { userId }),
+    // Replaces the join code; links with the old one stop working
+    regenerateJoinCode: (leagueId: number) => apiService.post(`/leagues/${leagueId}/join-code/regenerate`),
+    // Turns the join code off until it is regenerated, leaving only invites
+    revokeJoinCode: (leagueId: number) => apiService.delete(`/leagues/${leagueId}/join-code`),
+    getInvites: (leagueId: number) => apiService.get(`/leagues/${leagueId}/invites`),
+    createInvite: (leagueId: number, options: CreateInviteOptions) =>
+        apiService.post(`/leagues/${leagueId}/invites`, options),
+    revokeInvite: (leagueId: number, inviteId: number) => apiService.delete(`/leagues/${leagueId}/invites/${inviteId}`),
+    // Works for both join codes and invite codes, including ones that can no longer be used
+    getInviteByCode: (code: string) => apiService.get(`/leagues/invites/${code}`),
+    updateJoinApproval: (leagueId: number, requiresApproval: boolean) =>
+        apiService.put(`/leagues/${leagueId}/join-approval`, { requiresApproval }),
+    getJoinRequests: (leagueId: number) => apiService.get(`/leagues/${leagueId}/join-requests`),
+    approveJoinRequest: (leagueId: number, requestId: number) =>
+        apiService.post(`/leagues/${leagueId}/join-requests/${requestId}/approve`),
+    denyJoinRequest: (leagueId: number, requestId: number) =>
+        apiService.post(`/leagues/${leagueId}/join-requests/${requestId}/deny`),
+    // Withdraws the current user's pending request
+    cancelJoinRequest: (leagueId: number) => apiService.delete(`/leagues/${leagueId}/join-requests/mine`),
 };
 
 export const chatAPI = {
     validateAccess: (leagueId: number) => apiService.get(`/chat/validate/${leagueId}`),
-    markMessagesAsRead: (leagueId: number) => apiService.post(`/chat/mark-read/${leagueId}`),
+    markMessagesAsRead: (leagueId: number, channelId?: string, lastReadMessageId?: string) =>
+        apiService.post(
+            `/chat/mark-read/${leagueId}`,
+            channelId || lastReadMessageId ? { channelId, lastReadMessageId } : undefined
+        ),
+    getReadMarkers: (leagueId: number, channelId?: string) =>
+        apiService.get(`/chat/read-markers/${leagueId}`, { params: { channelId } }),
     getUnreadCount: (leagueId: number) => apiService.get(`/chat/unread-count/${leagueId}`),
     getAllUnreadCounts: () => apiService.get('/chat/unread-counts'),
+    getChannelUnreadCounts: (leagueId: number) => apiService.get(`/chat/unread-counts/${leagueId}/channels`),
+    getChannels: (leagueId: number) => apiService.get(`/chat/channels/${leagueId}`),
+    createChannel: (leagueId: number, data: { name: string; description?: string; type: string }) =>
+        apiService.post(`/chat/channels/${leagueId}`, data),
+    ensureRaceChannel: (leagueId: number, weekNumber: number, raceName: string) =>
+        apiService.post(`/chat/channels/${leagueId}/race`, { weekNumber, raceName }),
     getNotificationPreferences: (leagueId: number) => apiService.get(`/chat/notification-preferences/${leagueId}`),
-    updateNotificationPreferences: (leagueId: number, notificationsEnabled: boolean) =>
-        apiService.put(`/chat/notification-preferences/${leagueId}`, { notificationsEnabled }),
+    updateNotificationPreferences: (leagueId: number, notificationLevel: ChatNotificationLevel) =>
+        apiService.put(`/chat/notification-preferences/${leagueId}`, { notificationLevel }),
     getAllNotificationPreferences: () => apiService.get('/chat/notification-preferences'),
     getOnlineUsers: (leagueId: number) => apiService.get(`/chat/online-users/${leagueId}`),
     updateStatus: (isOnline: boolean) => apiService.post('/chat/update-status', { isOnline }),
+    addReaction: (leagueId: number, messageId: string, emoji: string) =>
+        apiService.post(`/chat/messages/${messageId}/reactions`, { leagueId, emoji }),
+    removeReaction: (leagueId: number, messageId: string, emoji: string) =>
+        apiService.delete(`/chat/messages/${messageId}/reactions`, { data: { leagueId, emoji } }),
+    getThread: (leagueId: number, threadId: string) =>
+        apiService.get(`/chat/messages/${threadId}/thread`, { params: { leagueId } }),
+    editMessage: (leagueId: number, messageId: string, text: string) =>
+        apiService.put(`/chat/messages/${messageId}`, { leagueId, text }),
+    deleteMessage: (leagueId: number, messageId: string) =>
+        apiService.delete(`/chat/messages/${messageId}`, { data: { leagueId } }),
+    muteUser: (leagueId: number, userId: number, durationMinutes: number) =>
+        apiService.post(`/chat/mute/${leagueId}`, { userId, durationMinutes }),
+    getMuteStatus: (leagueId: number) => apiService.get(`/chat/mute-status/${leagueId}`),
+    uploadImage: (data: FormData, onUploadProgress?: (event: AxiosProgressEvent) => void) =>
+        apiService.post('/chat/upload-image', data, {
+            headers: {
+                'Content-Type': 'multipart/form-data',
+            },
+            onUploadProgress,
+        }),
 };
 
 export const picksAPI = {
@@ -0,0 +1,91 @@
+/**
+ * Minimal runtime schema helpers for validating API payloads.
+ * A schema is a function that either returns the value narrowed to T or throws an
+ * ApiValidationError describing the first field that did not match.
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export class ApiValidationError extends Error {
+    path: string;
+
+    constructor(path: string, expected: string, received: unknown) {
+        const receivedType = received === null ? 'null' : Array.isArray(received) ? 'array' : typeof received;
+        super(`Invalid response at ${path}: expected ${expected}, received ${receivedType}`);
+        this.name = 'ApiValidationError';
+        this.path = path;
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string: Schema<string> = (value, path) => {
+    if (typeof value !== 'string') throw new ApiValidationError(path, 'string', value);
+    return value;
+};
+
+/**
+ * Accepts numbers and numeric strings (MySQL DECIMAL columns arrive as strings).
+ */
+export const number: Schema<number> = (value, path) => {
+    if (typeof value === 'number' && !isNaN(value)) return value;
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+    throw new ApiValidationError(path, 'number', value);
+};
+
+/**
+ * Accepts booleans and the 0/1 integers the backend uses for TINYINT flags.
+ */
+export const boolean: Schema<boolean> = (value, path) => {
+    if (typeof value === 'boolean') return value;
+    if (value === 0 || value === 1) return value === 1;
+    throw new ApiValidationError(path, 'boolean', value);
+};
+
+export const unknown: Schema<unknown> = (value) => value;
+
+export const literal = <T extends string | number>(...allowed: T[]): Schema<T> => (value, path) => {
+    if (!allowed.includes(value as T)) {
+        throw new ApiValidationError(path, allowed.map(a => JSON.stringify(a)).join(' | '), value);
+    }
+    return value as T;
+};
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+    value === undefined || value === null ? undefined : schema(value, path);
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => (value, path) =>
+    value === undefined || value === null ? null : schema(value, path);
+
+export const array = <T>(schema: Schema<T>): Schema<T[]> => (value, path) => {
+    if (!Array.isArray(value)) throw new ApiValidationError(path, 'array', value);
+    return value.map((item, index) => schema(item, `${path}[${index}]`));
+};
+
+export const record = <T>(schema: Schema<T>): Schema<{ [key: string]: T }> => (value, path) => {
+    if (!isRecord(value)) throw new ApiValidationError(path, 'object', value);
+    const result: { [key: string]: T } = {};
+    Object.keys(value).forEach(key => {
+        result[key] = schema(value[key], `${path}.${key}`);
+    });
+    return result;
+};
+
+/**
+ * Validates every declared field of T. Fields the backend sends that the interface
+ * does not declare are passed through untouched so screens keep working while the
+ * types catch up.
+ */
+export const object = <T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => (value, path) => {
+    if (!isRecord(value)) throw new ApiValidationError(path, 'object', value);
+    const result: Record<string, unknown> = { ...value };
+    (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+        const parsed = shape[key](value[key], `${path}.${key}`);
+        if (parsed === undefined) {
+            delete result[key];
+        } else {
+            result[key] = parsed;
+        }
+    });
+    return result as T;
+};
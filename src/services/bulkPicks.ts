@@ -0,0 +1,76 @@
+import { Driver, League, PickV2 } from '../types';
+import { typedPicksAPI } from './apiClient';
+import { pickOutbox } from './pickOutbox';
+import { buildPickTemplate, SkippedPick } from '../../utils/pickTemplates';
+
+export interface LeaguePickResult {
+    leagueId: number;
+    leagueName: string;
+    status: 'submitted' | 'queued' | 'failed' | 'nothingToApply';
+    submitted: PickV2[]; // Sent now, or queued in the pick outbox when status is 'queued'
+    skipped: SkippedPick[];
+    error?: string;
+}
+
+interface ApplyPicksOptions {
+    leagues: League[];
+    weekNumber: number;
+    eventType: 'race' | 'sprint';
+    lockTime?: string; // Stored with queued picks so they are never replayed after it
+    picks: PickV2[];
+    drivers: Driver[];
+}
+
+/**
+ * Apply one set of position -> driver choices to several leagues.
+ * Each league only gets the positions it scores that week; leagues are submitted one at a
+ * time so a failure in one doesn't stop the rest. Picks go through the pick outbox, so they
+ * queue behind (and replace) pending offline picks for the same slots.
+ */
+export const applyPicksToLeagues = async ({
+    leagues,
+    weekNumber,
+    eventType,
+    lockTime,
+    picks,
+    drivers,
+}: ApplyPicksOptions): Promise<LeaguePickResult[]> => {
+    const results: LeaguePickResult[] = [];
+
+    for (const league of leagues.filter(l => l.seasonEnded !== true)) {
+        const result: LeaguePickResult = {
+            leagueId: league.id,
+            leagueName: league.name,
+            status: 'nothingToApply',
+            submitted: [],
+            skipped: [],
+        };
+        results.push(result);
+
+        const positionsResult = await typedPicksAPI.getLeaguePositionsForWeek(league.id, weekNumber);
+        if (!positionsResult.ok) {
+            result.status = 'failed';
+            result.error = positionsResult.error.message;
+            continue;
+        }
+
+        const template = buildPickTemplate(picks, positionsResult.data, drivers);
+        result.skipped = template.skipped;
+        if (template.picks.length === 0) continue;
+
+        const submitResult = await pickOutbox.submitPicks(
+            { leagueId: league.id, weekNumber, eventType, lockTime },
+            template.picks
+        );
+        if (submitResult.ok) {
+            result.status = submitResult.queued ? 'queued' : 'submitted';
+            result.submitted = template.picks;
+        } else {
+            console.error(`Error applying picks to league ${league.id}:`, submitResult.error);
+            result.status = 'failed';
+            result.error = submitResult.error.message;
+        }
+    }
+
+    return results;
+};
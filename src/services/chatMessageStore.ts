@@ -0,0 +1,167 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ChatMessage } from '../types/chat';
+
+const STORAGE_PREFIX = 'chatMessages:';
+
+// Oldest messages are dropped past this; they can still be paged back in from the server
+const MAX_STORED_MESSAGES = 500;
+
+// Writes are batched so a burst of incoming messages only hits storage once
+const PERSIST_DELAY_MS = 500;
+
+export interface StoredConversation {
+    messages: ChatMessage[]; // Oldest first
+    hasMoreBefore: boolean; // Whether the server has older messages than the oldest stored one
+}
+
+const byCreatedAt = (a: ChatMessage, b: ChatMessage) => a.createdAt.getTime() - b.createdAt.getTime();
+
+const reviveMessage = (message: any): ChatMessage => ({
+    ...message,
+    createdAt: new Date(message.createdAt),
+    editedAt: message.editedAt ? new Date(message.editedAt) : undefined,
+});
+
+/**
+ * Persistent per league/channel store of chat messages received from the server.
+ * LeagueChat renders from it before the network answers, and merges every page it fetches into it.
+ */
+export class ChatMessageStore {
+    private conversations: Map<string, StoredConversation> = new Map();
+    private loading: Map<string, Promise<StoredConversation>> = new Map();
+    private persistTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+    private getKey(leagueId: string, channelId?: string): string {
+        return `${leagueId}:${channelId || 'general'}`;
+    }
+
+    /**
+     * Get a conversation, reading it from storage the first time it is asked for
+     */
+    load(leagueId: string, channelId?: string): Promise<StoredConversation> {
+        const key = this.getKey(leagueId, channelId);
+        const cached = this.conversations.get(key);
+        if (cached) {
+            return Promise.resolve(cached);
+        }
+
+        let pending = this.loading.get(key);
+        if (!pending) {
+            pending = AsyncStorage.getItem(STORAGE_PREFIX + key)
+                .then(stored => {
+                    const parsed = stored ? JSON.parse(stored) : null;
+                    return {
+                        messages: parsed ? parsed.messages.map(reviveMessage) : [],
+                        hasMoreBefore: parsed ? parsed.hasMoreBefore : true,
+                    };
+                })
+                .catch(error => {
+                    console.error('Error loading stored chat messages:', error);
+                    return { messages: [], hasMoreBefore: true };
+                })
+                .then(conversation => {
+                    // Keep anything merged in while the read was in flight
+                    const merged = this.conversations.get(key) ?? conversation;
+                    this.conversations.set(key, merged);
+                    this.loading.delete(key);
+                    return merged;
+                });
+            this.loading.set(key, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * Add or replace messages in a conversation. Pass hasMoreBefore when the fetch that
+     * produced the messages tells us whether older history exists.
+     */
+    async merge(
+        leagueId: string,
+        channelId: string | undefined,
+        messages: ChatMessage[],
+        options: { hasMoreBefore?: boolean } = {}
+    ): Promise<StoredConversation> {
+        const key = this.getKey(leagueId, channelId);
+        const existing = await this.load(leagueId, channelId);
+
+        const byId = new Map(existing.messages.map(message => [message.id, message]));
+        messages.forEach(message => {
+            // Only keep what the server has confirmed; pending sends live in component state
+            if (message.tempId && message.id === message.tempId) return;
+            const { status: _status, uploadProgress: _uploadProgress, ...confirmed } = message;
+            byId.set(message.id, confirmed);
+        });
+
+        let merged = Array.from(byId.values()).sort(byCreatedAt);
+        let hasMoreBefore = options.hasMoreBefore ?? existing.hasMoreBefore;
+        if (merged.length > MAX_STORED_MESSAGES) {
+            merged = merged.slice(merged.length - MAX_STORED_MESSAGES);
+            hasMoreBefore = true;
+        }
+
+        const conversation = { messages: merged, hasMoreBefore };
+        this.conversations.set(key, conversation);
+        this.schedulePersist(key);
+        return conversation;
+    }
+
+    /**
+     * Apply a change to a stored message, e.g. an edit, delete or reaction.
+     * Looks through every loaded conversation of the league since events don't say which channel they belong to.
+     */
+    updateMessage(leagueId: string, messageId: string, update: (message: ChatMessage) => ChatMessage): void {
+        this.conversations.forEach((conversation, key) => {
+            if (!key.startsWith(`${leagueId}:`)) return;
+            if (!conversation.messages.some(message => message.id === messageId)) return;
+
+            this.conversations.set(key, {
+                ...conversation,
+                messages: conversation.messages.map(message => (message.id === messageId ? update(message) : message)),
+            });
+            this.schedulePersist(key);
+        });
+    }
+
+    private schedulePersist(key: string): void {
+        if (this.persistTimers.has(key)) return;
+
+        this.persistTimers.set(key, setTimeout(() => {
+            this.persistTimers.delete(key);
+            this.persist(key);
+        }, PERSIST_DELAY_MS));
+    }
+
+    private async persist(key: string): Promise<void> {
+        const conversation = this.conversations.get(key);
+        if (!conversation) return;
+
+        try {
+            await AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(conversation));
+        } catch (error) {
+            console.error('Error persisting chat messages:', error);
+        }
+    }
+
+    /**
+     * Forget all stored conversations (e.g. on logout)
+     */
+    async clear(): Promise<void> {
+        this.persistTimers.forEach(timer => clearTimeout(timer));
+        this.persistTimers.clear();
+        this.conversations.clear();
+        this.loading.clear();
+
+        try {
+            const keys = await AsyncStorage.getAllKeys();
+            const storedKeys = keys.filter(key => key.startsWith(STORAGE_PREFIX));
+            if (storedKeys.length > 0) {
+                await AsyncStorage.multiRemove(storedKeys);
+            }
+        } catch (error) {
+            console.error('Error clearing stored chat messages:', error);
+        }
+    }
+}
+
+// Export singleton instance
+export const chatMessageStore = new ChatMessageStore();
@@ -0,0 +1,203 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+// Refresh this long before the access token actually expires
+const DEFAULT_EXPIRY_MARGIN = 60 * 1000;
+
+/**
+ * Key/value storage for credentials
+ */
+export interface CredentialBackend {
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+    removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Keychain (iOS) / Keystore-encrypted storage (Android)
+ */
+export class SecureStoreBackend implements CredentialBackend {
+    getItem(key: string): Promise<string | null> {
+        return SecureStore.getItemAsync(key);
+    }
+
+    setItem(key: string, value: string): Promise<void> {
+        return SecureStore.setItemAsync(key, value);
+    }
+
+    removeItem(key: string): Promise<void> {
+        return SecureStore.deleteItemAsync(key);
+    }
+}
+
+/**
+ * AsyncStorage, for web where there is no secure store
+ */
+export class AsyncStorageBackend implements CredentialBackend {
+    getItem(key: string): Promise<string | null> {
+        return AsyncStorage.getItem(key);
+    }
+
+    setItem(key: string, value: string): Promise<void> {
+        return AsyncStorage.setItem(key, value);
+    }
+
+    removeItem(key: string): Promise<void> {
+        return AsyncStorage.removeItem(key);
+    }
+}
+
+/**
+ * Process memory only, for tests
+ */
+export class MemoryBackend implements CredentialBackend {
+    private items: Map<string, string> = new Map();
+
+    async getItem(key: string): Promise<string | null> {
+        return this.items.get(key) ?? null;
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        this.items.set(key, value);
+    }
+
+    async removeItem(key: string): Promise<void> {
+        this.items.delete(key);
+    }
+}
+
+const decodeBase64Url = (input: string): string => {
+    const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    return atob(padded);
+};
+
+/**
+ * Read the `exp` claim of a JWT as a millisecond timestamp. The signature is not checked;
+ * this is only used to decide when to refresh.
+ */
+export const getTokenExpiry = (token: string): number | null => {
+    try {
+        const payload = JSON.parse(decodeBase64Url(token.split('.')[1] ?? ''));
+        return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Single place the access and refresh tokens are read and written.
+ * Values are cached in memory so the request path doesn't hit the keychain every time.
+ */
+export class CredentialStore {
+    private backend: CredentialBackend;
+    private cache: Map<string, string | null> = new Map();
+    private migration: Promise<void> | null = null;
+
+    constructor(backend: CredentialBackend) {
+        this.backend = backend;
+    }
+
+    /**
+     * Move tokens saved by older versions (plain AsyncStorage) into the backend, once
+     */
+    private migrate(): Promise<void> {
+        if (!this.migration) {
+            this.migration = (async () => {
+                if (this.backend instanceof AsyncStorageBackend) return;
+
+                for (const key of [TOKEN_KEY, REFRESH_TOKEN_KEY]) {
+                    try {
+                        const legacy = await AsyncStorage.getItem(key);
+                        if (legacy === null) continue;
+
+                        if ((await this.backend.getItem(key)) === null) {
+                            await this.backend.setItem(key, legacy);
+                        }
+                        await AsyncStorage.removeItem(key);
+                    } catch (error) {
+                        console.error(`Error migrating stored ${key}:`, error);
+                    }
+                }
+            })();
+        }
+        return this.migration;
+    }
+
+    private async read(key: string): Promise<string | null> {
+        if (this.cache.has(key)) {
+            return this.cache.get(key) ?? null;
+        }
+
+        await this.migrate();
+        try {
+            const value = await this.backend.getItem(key);
+            this.cache.set(key, value);
+            return value;
+        } catch (error) {
+            console.error(`Error reading stored ${key}:`, error);
+            return null;
+        }
+    }
+
+    private async write(key: string, value: string | null): Promise<void> {
+        await this.migrate();
+        this.cache.set(key, value);
+        try {
+            if (value === null) {
+                await this.backend.removeItem(key);
+            } else {
+                await this.backend.setItem(key, value);
+            }
+        } catch (error) {
+            console.error(`Error storing ${key}:`, error);
+        }
+    }
+
+    getToken(): Promise<string | null> {
+        return this.read(TOKEN_KEY);
+    }
+
+    setToken(token: string): Promise<void> {
+        return this.write(TOKEN_KEY, token);
+    }
+
+    getRefreshToken(): Promise<string | null> {
+        return this.read(REFRESH_TOKEN_KEY);
+    }
+
+    /**
+     * Store a new token pair. The refresh token is kept as-is when the server doesn't rotate it.
+     */
+    async setTokens(token: string, refreshToken?: string | null): Promise<void> {
+        await this.setToken(token);
+        if (refreshToken) {
+            await this.write(REFRESH_TOKEN_KEY, refreshToken);
+        }
+    }
+
+    /**
+     * Whether the access token expires within the margin. Tokens without `exp` never count as expiring.
+     */
+    async isTokenExpiring(margin: number = DEFAULT_EXPIRY_MARGIN): Promise<boolean> {
+        const token = await this.getToken();
+        const expiry = token ? getTokenExpiry(token) : null;
+        return expiry !== null && expiry - margin <= Date.now();
+    }
+
+    async clear(): Promise<void> {
+        await Promise.all([
+            this.write(TOKEN_KEY, null),
+            this.write(REFRESH_TOKEN_KEY, null),
+        ]);
+    }
+}
+
+// Export singleton instance
+export const credentialStore = new CredentialStore(
+    Platform.OS === 'web' ? new AsyncStorageBackend() : new SecureStoreBackend()
+);
@@ -0,0 +1,343 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { ApiError, ApiResult, ApiAck, typedPicksAPI } from './apiClient';
+import { queryCache, queryKeys } from './queryCache';
+import { PickV2 } from '../types';
+
+const STORAGE_KEY = 'pickOutbox';
+
+export type PickEventType = 'race' | 'sprint';
+
+export interface PickMutation {
+    id: string;
+    leagueId: number;
+    weekNumber: number;
+    eventType: PickEventType;
+    action: 'make' | 'remove';
+    position: number;
+    driverId?: number; // Only set for 'make'
+    lockTime?: string; // ISO time after which the server will reject this mutation
+    status: 'pending' | 'failed';
+    error?: string;
+    createdAt: number;
+}
+
+export type PickMutationInput = Omit<PickMutation, 'id' | 'status' | 'error' | 'createdAt'>;
+
+/** League, week and event a batch of picks is made for */
+export type PickBatchTarget = Pick<PickMutationInput, 'leagueId' | 'weekNumber' | 'eventType' | 'lockTime'>;
+
+export type PickSubmitResult =
+    | { ok: true; queued: boolean; offline?: boolean } // offline: queued because the device is offline
+    | { ok: false; error: ApiError };
+
+type OutboxListener = (mutations: PickMutation[]) => void;
+
+/**
+ * Errors that mean the request never got a usable answer, so it is worth sending again later
+ */
+const isOfflineError = (error: ApiError): boolean =>
+    error.kind === 'network' || error.kind === 'timeout';
+
+const isLockTimePassed = (mutation: PickMutation): boolean =>
+    !!mutation.lockTime && new Date(mutation.lockTime).getTime() <= Date.now();
+
+const isSameSlot = (a: PickMutationInput, b: PickMutationInput): boolean =>
+    a.leagueId === b.leagueId &&
+    a.weekNumber === b.weekNumber &&
+    a.eventType === b.eventType &&
+    a.position === b.position;
+
+/**
+ * Persistent outbox for pick mutations made while offline.
+ * Mutations are replayed in the order they were made once the API is reachable again,
+ * and dropped to 'failed' instead of being sent after the race's lock time.
+ */
+export class PickOutbox {
+    private queue: PickMutation[] = [];
+    private loaded: Promise<void> | null = null;
+    private flushing: Promise<PickMutation[]> | null = null;
+    private listeners: Set<OutboxListener> = new Set();
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private retryAttempts = 0;
+    private retryDelay = 5000; // Start with 5 seconds
+    private maxRetryDelay = 5 * 60 * 1000;
+    private isNetworkAvailable = true;
+    private monitoringStarted = false;
+
+    /**
+     * Load the persisted queue once
+     */
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.startMonitoring();
+            this.loaded = AsyncStorage.getItem(STORAGE_KEY)
+                .then(stored => {
+                    if (stored) {
+                        // Keep anything queued in this session before the load finished
+                        this.queue = [...JSON.parse(stored), ...this.queue];
+                    }
+                })
+                .catch(error => {
+                    console.error('Error loading pick outbox:', error);
+                });
+        }
+        return this.loaded;
+    }
+
+    /**
+     * Flush as soon as the network comes back rather than waiting out the backoff
+     */
+    private startMonitoring(): void {
+        if (this.monitoringStarted) return;
+        this.monitoringStarted = true;
+
+        NetInfo.addEventListener((networkState: NetInfoState) => {
+            const available = networkState.isConnected !== false && networkState.isInternetReachable !== false;
+            if (available === this.isNetworkAvailable) return;
+            this.isNetworkAvailable = available;
+
+            if (available && this.queue.some(queued => queued.status === 'pending')) {
+                this.clearRetryTimer();
+                this.retryAttempts = 0;
+                this.flush();
+            }
+        });
+    }
+
+    private clearRetryTimer(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    private async persist(): Promise<void> {
+        try {
+            if (this.queue.length > 0) {
+                await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.queue));
+            } else {
+                await AsyncStorage.removeItem(STORAGE_KEY);
+            }
+        } catch (error) {
+            console.error('Error persisting pick outbox:', error);
+        }
+    }
+
+    private notify(): void {
+        const snapshot = [...this.queue];
+        this.listeners.forEach(listener => listener(snapshot));
+    }
+
+    private async update(queue: PickMutation[]): Promise<void> {
+        this.queue = queue;
+        this.notify();
+        await this.persist();
+    }
+
+    /**
+     * Send a single mutation to the API
+     */
+    private send(mutation: PickMutationInput): Promise<ApiResult<ApiAck>> {
+        const { leagueId, weekNumber, position, driverId } = mutation;
+        if (mutation.action === 'make') {
+            const picks = [{ position, driverId: driverId! }];
+            return mutation.eventType === 'sprint'
+                ? typedPicksAPI.makeSprintPickV2(leagueId, weekNumber, picks)
+                : typedPicksAPI.makePickV2(leagueId, weekNumber, picks);
+        }
+        return mutation.eventType === 'sprint'
+            ? typedPicksAPI.removeSprintPickV2(leagueId, weekNumber, position)
+            : typedPicksAPI.removePickV2(leagueId, weekNumber, position);
+    }
+
+    /**
+     * Add a mutation to the queue. A queued mutation for the same pick slot is replaced,
+     * since only the latest choice matters once it reaches the server.
+     */
+    private async enqueue(input: PickMutationInput): Promise<void> {
+        await this.load();
+        const mutation: PickMutation = {
+            ...input,
+            id: `pick_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+            status: 'pending',
+            createdAt: Date.now(),
+        };
+        await this.update([...this.queue.filter(queued => !isSameSlot(queued, input)), mutation]);
+        this.scheduleRetry();
+    }
+
+    /**
+     * Submit a pick mutation. It is sent straight away unless earlier mutations are still
+     * waiting (so ordering is kept), and queued if the device turns out to be offline.
+     */
+    submit(input: PickMutationInput): Promise<PickSubmitResult> {
+        return this.submitMutations([input], () => this.send(input));
+    }
+
+    /**
+     * Make several picks for one league and event in a single request, queued the same way
+     * as submit(), so a queued mutation for one of these slots never replays over them
+     */
+    submitPicks(target: PickBatchTarget, picks: PickV2[]): Promise<PickSubmitResult> {
+        const { leagueId, weekNumber, eventType } = target;
+        const inputs: PickMutationInput[] = picks.map(pick => ({
+            ...target,
+            action: 'make',
+            position: pick.position,
+            driverId: pick.driverId,
+        }));
+        return this.submitMutations(inputs, () => eventType === 'sprint'
+            ? typedPicksAPI.makeSprintPickV2(leagueId, weekNumber, picks)
+            : typedPicksAPI.makePickV2(leagueId, weekNumber, picks));
+    }
+
+    private async submitMutations(
+        inputs: PickMutationInput[],
+        send: () => Promise<ApiResult<ApiAck>>
+    ): Promise<PickSubmitResult> {
+        await this.load();
+
+        if (this.queue.some(queued => queued.status === 'pending')) {
+            for (const input of inputs) {
+                await this.enqueue(input);
+            }
+            this.flush();
+            return { ok: true, queued: true, offline: !this.isNetworkAvailable };
+        }
+
+        const result = await send();
+        if (result.ok) {
+            // Older failed entries for these slots are now superseded
+            const isSubmittedSlot = (queued: PickMutation) => inputs.some(input => isSameSlot(queued, input));
+            if (this.queue.some(isSubmittedSlot)) {
+                await this.update(this.queue.filter(queued => !isSubmittedSlot(queued)));
+            }
+            queryCache.invalidate(queryKeys.leagues());
+            return { ok: true, queued: false };
+        }
+
+        if (isOfflineError(result.error)) {
+            for (const input of inputs) {
+                await this.enqueue(input);
+            }
+            return { ok: true, queued: true, offline: true };
+        }
+
+        return { ok: false, error: result.error };
+    }
+
+    /**
+     * Replay pending mutations in order. Stops at the first connectivity failure so later
+     * mutations never overtake earlier ones. Resolves with the mutations that were submitted.
+     */
+    flush(): Promise<PickMutation[]> {
+        if (!this.flushing) {
+            this.flushing = this.replay().finally(() => {
+                this.flushing = null;
+            });
+        }
+        return this.flushing;
+    }
+
+    private async replay(): Promise<PickMutation[]> {
+        await this.load();
+        const submitted: PickMutation[] = [];
+
+        // Re-read the queue each time round: mutations can be added or replaced mid-replay
+        let mutation: PickMutation | undefined;
+        while ((mutation = this.queue.find(queued => queued.status === 'pending'))) {
+            const { id } = mutation;
+            if (isLockTimePassed(mutation)) {
+                await this.markFailed(id, 'Picks locked before this pick could be submitted');
+                continue;
+            }
+
+            const result = await this.send(mutation);
+            if (result.ok) {
+                submitted.push(mutation);
+                queryCache.invalidate(queryKeys.leagues());
+                await this.update(this.queue.filter(queued => queued.id !== id));
+                continue;
+            }
+
+            if (isOfflineError(result.error)) {
+                this.scheduleRetry();
+                return submitted;
+            }
+
+            console.error('Error replaying queued pick:', result.error);
+            await this.markFailed(id, result.error.message);
+        }
+
+        this.retryAttempts = 0;
+        return submitted;
+    }
+
+    private async markFailed(id: string, error: string): Promise<void> {
+        await this.update(this.queue.map(queued =>
+            queued.id === id ? { ...queued, status: 'failed', error } : queued
+        ));
+    }
+
+    /**
+     * Retry flushing with exponential backoff while there is something pending
+     */
+    private scheduleRetry(): void {
+        if (this.retryTimer) return;
+
+        const delay = Math.min(this.retryDelay * Math.pow(2, this.retryAttempts), this.maxRetryDelay);
+        this.retryAttempts++;
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            if (this.queue.some(queued => queued.status === 'pending')) {
+                this.flush();
+            }
+        }, delay);
+    }
+
+    /**
+     * Put a failed mutation back in the queue (it fails again if its lock time has passed)
+     */
+    async retry(id: string): Promise<void> {
+        await this.update(this.queue.map(queued =>
+            queued.id === id ? { ...queued, status: 'pending', error: undefined } : queued
+        ));
+        this.flush();
+    }
+
+    /**
+     * Remove a mutation without sending it
+     */
+    async discard(id: string): Promise<void> {
+        await this.update(this.queue.filter(queued => queued.id !== id));
+    }
+
+    async getMutations(): Promise<PickMutation[]> {
+        await this.load();
+        return [...this.queue];
+    }
+
+    /**
+     * Listen for queue changes. Returns an unsubscribe function.
+     */
+    subscribe(listener: OutboxListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Drop everything, e.g. on logout so another user's picks are never replayed
+     */
+    async clear(): Promise<void> {
+        await this.load();
+        this.clearRetryTimer();
+        this.retryAttempts = 0;
+        await this.update([]);
+    }
+}
+
+// Export singleton instance
+export const pickOutbox = new PickOutbox();
@@ -0,0 +1,235 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { F1Race, League, PositionPickStatus } from '../types';
+import { typedF1racesAPI, typedLeaguesAPI } from './apiClient';
+import { queryCache, queryKeys, staleTimes } from './queryCache';
+import { scheduleLocalNotification, cancelScheduledNotification } from '../../utils/notifications';
+import { shouldEnableNotifications } from '../../utils/environment';
+
+const OFFSETS_KEY = 'pickReminderOffsets';
+const SCHEDULED_KEY = 'pickReminders';
+
+type ReminderEventType = 'race' | 'sprint';
+
+interface ScheduledReminder {
+    notificationId: string;
+    /** What the reminder was built from; it is rescheduled when this changes */
+    signature: string;
+}
+
+/** Minutes before lock time that reminders can be sent at */
+export const REMINDER_OFFSET_OPTIONS = [24 * 60, 60, 15];
+
+export const DEFAULT_REMINDER_OFFSETS = [...REMINDER_OFFSET_OPTIONS];
+
+/**
+ * Human-readable offset, e.g. "24 hours", "15 minutes"
+ */
+export const formatReminderOffset = (minutes: number): string => {
+    if (minutes % 60 === 0) {
+        const hours = minutes / 60;
+        return `${hours} hour${hours === 1 ? '' : 's'}`;
+    }
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+const getEventPositions = (league: League, eventType: ReminderEventType): PositionPickStatus[] | undefined => {
+    const status = league.positionStatus;
+    if (!status) return undefined;
+    if (eventType === 'sprint') return status.sprint?.positions;
+    return status.race?.positions ?? status.positions;
+};
+
+/**
+ * Leagues that still have positions without a pick for the event. Leagues whose status is
+ * unknown are left out so they never trigger a reminder on their own.
+ */
+const getLeaguesMissingPicks = (leagues: League[], eventType: ReminderEventType): League[] =>
+    leagues.filter(league => {
+        if (league.seasonEnded === true) return false;
+        const positions = getEventPositions(league, eventType);
+        return !!positions && positions.some(position => !position.hasPick);
+    });
+
+/**
+ * Schedules local reminders before pick lock times for leagues with missing picks.
+ * Runs independently of the server's push reminders, so players still get nudged if those fail.
+ */
+export class PickReminderScheduler {
+    private scheduled: Record<string, ScheduledReminder> | null = null;
+    private syncing: Promise<void> = Promise.resolve();
+
+    private async loadScheduled(): Promise<Record<string, ScheduledReminder>> {
+        if (!this.scheduled) {
+            try {
+                const stored = await AsyncStorage.getItem(SCHEDULED_KEY);
+                this.scheduled = stored ? JSON.parse(stored) : {};
+            } catch (error) {
+                console.error('Error loading pick reminders:', error);
+                this.scheduled = {};
+            }
+        }
+        return this.scheduled!;
+    }
+
+    private async saveScheduled(): Promise<void> {
+        try {
+            await AsyncStorage.setItem(SCHEDULED_KEY, JSON.stringify(this.scheduled ?? {}));
+        } catch (error) {
+            console.error('Error saving pick reminders:', error);
+        }
+    }
+
+    /**
+     * Offsets (minutes before lock) the user wants reminders at
+     */
+    async getOffsets(): Promise<number[]> {
+        try {
+            const stored = await AsyncStorage.getItem(OFFSETS_KEY);
+            return stored ? JSON.parse(stored) : DEFAULT_REMINDER_OFFSETS;
+        } catch (error) {
+            console.error('Error loading reminder offsets:', error);
+            return DEFAULT_REMINDER_OFFSETS;
+        }
+    }
+
+    async setOffsets(offsets: number[]): Promise<void> {
+        try {
+            await AsyncStorage.setItem(OFFSETS_KEY, JSON.stringify(offsets));
+        } catch (error) {
+            console.error('Error saving reminder offsets:', error);
+        }
+        await this.refresh();
+    }
+
+    /**
+     * Fetch the current race and the user's leagues (through the query cache) and resync reminders
+     */
+    async refresh(): Promise<void> {
+        let race: F1Race | null | undefined;
+        let leagues: League[] | undefined;
+        // Stale (e.g. just invalidated) data is revalidated in the background; sync again once it
+        // arrives so reminders for picks that were just completed get cancelled
+        const resync = () => {
+            if (race !== undefined && leagues !== undefined) {
+                this.sync(race, leagues);
+            }
+        };
+
+        const [raceQuery, leaguesQuery] = await Promise.all([
+            queryCache.query(queryKeys.currentRace(), typedF1racesAPI.getCurrentRace, {
+                staleTime: staleTimes.currentRace,
+                onUpdate: data => {
+                    race = data;
+                    resync();
+                },
+            }),
+            queryCache.query(queryKeys.leagues(), typedLeaguesAPI.getLeagues, {
+                staleTime: staleTimes.leagues,
+                onUpdate: data => {
+                    leagues = data;
+                    resync();
+                },
+            }),
+        ]);
+        // Without both we can't tell what is missing; keep whatever is scheduled
+        if (!raceQuery.result.ok || !leaguesQuery.result.ok) return;
+
+        // Keep data a background revalidation already delivered
+        if (race === undefined) race = raceQuery.result.data;
+        if (leagues === undefined) leagues = leaguesQuery.result.data;
+        await this.sync(race, leagues);
+    }
+
+    /**
+     * Make the scheduled reminders match the race's lock times and the leagues' pick status.
+     * Reminders for events that are complete, locked or no longer current are cancelled.
+     */
+    sync(race: F1Race | null, leagues: League[]): Promise<void> {
+        // Serialize syncs so two screens refreshing at once don't double-schedule
+        this.syncing = this.syncing.then(() => this.runSync(race, leagues)).catch(error => {
+            console.error('Error syncing pick reminders:', error);
+        });
+        return this.syncing;
+    }
+
+    private async runSync(race: F1Race | null, leagues: League[]): Promise<void> {
+        if (!shouldEnableNotifications()) return;
+
+        const scheduled = await this.loadScheduled();
+        const offsets = await this.getOffsets();
+        const wanted: Record<string, { fireAt: number; title: string; body: string; signature: string }> = {};
+
+        if (race) {
+            const events: { eventType: ReminderEventType; lockTime?: string | null }[] = [
+                { eventType: 'race', lockTime: race.raceLockTime ?? race.lockTime },
+            ];
+            if (race.hasSprint) {
+                events.push({ eventType: 'sprint', lockTime: race.sprintLockTime });
+            }
+
+            events.forEach(({ eventType, lockTime }) => {
+                const lockAt = lockTime ? new Date(lockTime).getTime() : NaN;
+                if (Number.isNaN(lockAt)) return;
+
+                const missing = getLeaguesMissingPicks(leagues, eventType);
+                if (missing.length === 0) return;
+
+                const eventName = eventType === 'sprint' ? 'sprint' : 'race';
+                const leagueNames = missing.length === 1 ? missing[0].name : `${missing.length} leagues`;
+
+                offsets.forEach(offset => {
+                    const fireAt = lockAt - offset * 60 * 1000;
+                    if (fireAt <= Date.now()) return;
+
+                    const key = `${race.weekNumber}:${eventType}:${offset}`;
+                    const signature = `${fireAt}:${missing.map(league => league.id).sort().join(',')}`;
+                    wanted[key] = {
+                        fireAt,
+                        signature,
+                        title: `${race.raceName || 'Race'} ${eventName} picks lock in ${formatReminderOffset(offset)}`,
+                        body: `You still have picks to make in ${leagueNames}.`,
+                    };
+                });
+            });
+        }
+
+        // Cancel anything no longer wanted or out of date
+        for (const [key, reminder] of Object.entries(scheduled)) {
+            if (wanted[key]?.signature !== reminder.signature) {
+                try {
+                    await cancelScheduledNotification(reminder.notificationId);
+                } catch (error) {
+                    console.error('Error cancelling pick reminder:', error);
+                }
+                delete scheduled[key];
+            }
+        }
+
+        for (const [key, reminder] of Object.entries(wanted)) {
+            if (scheduled[key]) continue;
+            try {
+                const notificationId = await scheduleLocalNotification(
+                    reminder.title,
+                    reminder.body,
+                    { type: 'pick_reminder', weekNumber: race?.weekNumber },
+                    { type: 'date', date: new Date(reminder.fireAt) }
+                );
+                scheduled[key] = { notificationId, signature: reminder.signature };
+            } catch (error) {
+                console.error('Error scheduling pick reminder:', error);
+            }
+        }
+
+        await this.saveScheduled();
+    }
+
+    /**
+     * Cancel every reminder, e.g. on logout
+     */
+    async clear(): Promise<void> {
+        await this.sync(null, []);
+    }
+}
+
+// Export singleton instance
+export const pickReminderScheduler = new PickReminderScheduler();
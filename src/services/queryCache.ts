@@ -0,0 +1,257 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiResult } from './apiClient';
+
+const STORAGE_PREFIX = 'queryCache:';
+const INVALIDATIONS_KEY = 'queryCacheInvalidations';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+interface CacheEntry<T> {
+    data: T;
+    updatedAt: number;
+}
+
+export interface QueryOptions<T> {
+    /** How long data is served without revalidating (ms) */
+    staleTime?: number;
+    /** How long persisted data is kept at all, e.g. while offline (ms) */
+    cacheTime?: number;
+    /** Ignore fresh cached data and go to the network (pull-to-refresh) */
+    force?: boolean;
+    /** Called when a background revalidation produces newer data */
+    onUpdate?: (data: T) => void;
+}
+
+export interface QueryResult<T> {
+    result: ApiResult<T>;
+    /** True when the data came from the cache and a revalidation is running or failed */
+    isStale: boolean;
+}
+
+/**
+ * Stale times for the queries screens share. Drivers rarely change during a season,
+ * the current race flips lock state around qualifying, leagues carry pick status and
+ * stats only move when races are scored.
+ */
+export const staleTimes = {
+    drivers: 24 * HOUR,
+    currentRace: 5 * MINUTE,
+    leagues: MINUTE,
+    stats: 10 * MINUTE,
+};
+
+/**
+ * Build a cache key from an endpoint and its params (param order does not matter)
+ */
+export const createQueryKey = (endpoint: string, params?: Record<string, unknown>): string => {
+    if (!params) return endpoint;
+    const sorted = Object.keys(params)
+        .filter(key => params[key] !== undefined)
+        .sort()
+        .map(key => `${key}=${JSON.stringify(params[key])}`)
+        .join('&');
+    return sorted ? `${endpoint}?${sorted}` : endpoint;
+};
+
+export const queryKeys = {
+    /** Prefix covering every league query, for invalidation after league mutations */
+    allLeagues: () => 'leagues/',
+    leagues: () => createQueryKey('leagues/get'),
+    publicLeagues: () => createQueryKey('leagues/public'),
+    leagueMembers: (leagueId: number) => createQueryKey('leagues/members', { leagueId }),
+    drivers: () => createQueryKey('drivers/get'),
+    currentRace: () => createQueryKey('f1races/current'),
+    userStats: (seasonYear?: number) => createQueryKey('users/stats', { seasonYear }),
+    globalStats: (seasonYear?: number) => createQueryKey('users/global-stats', { seasonYear }),
+    communityStats: (weekNumber: number, eventType: 'race' | 'sprint') =>
+        createQueryKey('picks/community/stats', { weekNumber, eventType }),
+    driverPositionStats: (position: number) => createQueryKey('stats/driver-positions', { position }),
+};
+
+/**
+ * Persisted stale-while-revalidate cache for API queries.
+ * Entries live in memory and in AsyncStorage so the app can render last-known data
+ * immediately on launch, then refresh in the background.
+ */
+export class QueryCache {
+    private entries: Map<string, CacheEntry<unknown>> = new Map();
+    private inFlight: Map<string, Promise<ApiResult<unknown>>> = new Map();
+    private invalidations: Map<string, number> = new Map(); // Key prefix -> time it was invalidated
+    private invalidationsLoaded: Promise<void> | null = null;
+    private generation = 0; // Bumped by clear() so requests started before it never write
+    private defaultStaleTime = MINUTE;
+    private defaultCacheTime = 7 * 24 * HOUR;
+
+    /**
+     * Read an entry from memory, falling back to AsyncStorage
+     */
+    private async read<T>(key: string): Promise<CacheEntry<T> | null> {
+        const cached = this.entries.get(key);
+        if (cached) {
+            return cached as CacheEntry<T>;
+        }
+
+        try {
+            const stored = await AsyncStorage.getItem(STORAGE_PREFIX + key);
+            if (!stored) return null;
+            const entry: CacheEntry<T> = JSON.parse(stored);
+            this.entries.set(key, entry);
+            return entry;
+        } catch (error) {
+            console.error('Error reading query cache:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Store an entry in memory and persist it
+     */
+    private write<T>(key: string, data: T): void {
+        const entry: CacheEntry<T> = { data, updatedAt: Date.now() };
+        this.entries.set(key, entry);
+        AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry)).catch(error => {
+            console.error('Error persisting query cache:', error);
+        });
+    }
+
+    /**
+     * Load persisted invalidations once, so an invalidation survives an app restart
+     */
+    private loadInvalidations(): Promise<void> {
+        if (!this.invalidationsLoaded) {
+            this.invalidationsLoaded = AsyncStorage.getItem(INVALIDATIONS_KEY)
+                .then(stored => {
+                    if (!stored) return;
+                    const persisted: Record<string, number> = JSON.parse(stored);
+                    Object.entries(persisted).forEach(([prefix, invalidatedAt]) => {
+                        // Keep anything invalidated in this session before the load finished
+                        if (invalidatedAt > (this.invalidations.get(prefix) ?? 0)) {
+                            this.invalidations.set(prefix, invalidatedAt);
+                        }
+                    });
+                })
+                .catch(error => {
+                    console.error('Error loading query cache invalidations:', error);
+                });
+        }
+        return this.invalidationsLoaded;
+    }
+
+    /**
+     * Run the fetcher, sharing one request between concurrent callers of the same key
+     */
+    private fetch<T>(key: string, fetcher: () => Promise<ApiResult<T>>): Promise<ApiResult<T>> {
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            return pending as Promise<ApiResult<T>>;
+        }
+
+        const generation = this.generation;
+        const promise: Promise<ApiResult<T>> = fetcher()
+            .then(result => {
+                if (result.ok && generation === this.generation) {
+                    this.write(key, result.data);
+                }
+                return result;
+            })
+            .finally(() => {
+                // clear() may have let a newer request for this key start meanwhile
+                if (this.inFlight.get(key) === promise) {
+                    this.inFlight.delete(key);
+                }
+            });
+
+        this.inFlight.set(key, promise);
+        return promise;
+    }
+
+    /**
+     * Get data for a query. Fresh cached data is returned without a request; stale cached
+     * data is returned immediately while it revalidates in the background (reported via
+     * onUpdate); with no usable cache the request is awaited.
+     */
+    async query<T>(
+        key: string,
+        fetcher: () => Promise<ApiResult<T>>,
+        options: QueryOptions<T> = {}
+    ): Promise<QueryResult<T>> {
+        const {
+            staleTime = this.defaultStaleTime,
+            cacheTime = this.defaultCacheTime,
+            force = false,
+            onUpdate,
+        } = options;
+
+        await this.loadInvalidations();
+        const cached = await this.read<T>(key);
+        const age = cached ? Date.now() - cached.updatedAt : Infinity;
+        const usable = cached !== null && age < cacheTime;
+        const fresh = usable && age < staleTime && !this.isInvalidated(key, cached);
+
+        if (fresh && !force) {
+            return { result: { ok: true, data: cached.data }, isStale: false };
+        }
+
+        if (usable && !force) {
+            const generation = this.generation;
+            this.fetch(key, fetcher).then(result => {
+                if (result.ok && generation === this.generation) {
+                    onUpdate?.(result.data);
+                }
+            });
+            return { result: { ok: true, data: cached.data }, isStale: true };
+        }
+
+        const result = await this.fetch(key, fetcher);
+        if (!result.ok && usable) {
+            // Offline or server trouble: last-known data beats an error screen
+            return { result: { ok: true, data: cached.data }, isStale: true };
+        }
+        return { result, isStale: false };
+    }
+
+    /**
+     * Mark every key starting with the prefix as stale (e.g. after a mutation) so the next
+     * query refetches. Cached data is kept so it can still be shown if that refetch fails.
+     */
+    invalidate(prefix: string): void {
+        this.invalidations.set(prefix, Date.now());
+        this.loadInvalidations()
+            .then(() => AsyncStorage.setItem(INVALIDATIONS_KEY, JSON.stringify(Object.fromEntries(this.invalidations))))
+            .catch(error => {
+                console.error('Error persisting query cache invalidations:', error);
+            });
+    }
+
+    /**
+     * Check whether an entry was written before an invalidation that covers its key
+     */
+    private isInvalidated(key: string, entry: CacheEntry<unknown>): boolean {
+        for (const [prefix, invalidatedAt] of this.invalidations) {
+            if (key.startsWith(prefix) && entry.updatedAt <= invalidatedAt) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Drop everything, e.g. on logout so the next user never sees cached data
+     */
+    async clear(): Promise<void> {
+        this.generation++;
+        this.entries.clear();
+        this.inFlight.clear();
+        this.invalidations.clear();
+        try {
+            const keys = await AsyncStorage.getAllKeys();
+            await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(STORAGE_PREFIX) || key === INVALIDATIONS_KEY));
+        } catch (error) {
+            console.error('Error clearing query cache:', error);
+        }
+    }
+}
+
+// Export singleton instance
+export const queryCache = new QueryCache();
@@ -0,0 +1,106 @@
+import { AxiosError, AxiosRequestConfig } from 'axios';
+
+export interface RetryPolicy {
+    /** Extra attempts after the first one */
+    retries: number;
+    /** Backoff before the first retry (ms); doubles each attempt */
+    baseDelay: number;
+    /** Cap for a single backoff (ms) */
+    maxDelay: number;
+    /** Per-attempt timeout (ms); falls back to the client's default */
+    timeout?: number;
+}
+
+interface EndpointPolicy {
+    method: string;
+    pattern: RegExp;
+    policy: Partial<RetryPolicy>;
+    /** Send an Idempotency-Key so the server can recognise a retried POST */
+    idempotent?: boolean;
+}
+
+export type RetryableRequestConfig = AxiosRequestConfig & { _retryCount?: number };
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    retries: 2,
+    baseDelay: 500,
+    maxDelay: 8000,
+};
+
+/**
+ * Endpoint overrides, first match wins. POSTs are only retried when they are listed
+ * here as idempotent; everything else falls back to the method's safety.
+ */
+const ENDPOINT_POLICIES: EndpointPolicy[] = [
+    // Credentials and one-off actions: surface failures straight away
+    { method: 'post', pattern: /^\/users\/(login|signup|google-auth|refresh-token|forgot-password|reset-password)/, policy: { retries: 0 } },
+    { method: 'post', pattern: /^\/admin\/enter-race-results/, policy: { retries: 0 } },
+
+    // Picks matter most on race weekends, so retry harder
+    { method: 'post', pattern: /^\/picks\/(sprint\/)?(make|remove)-v2/, policy: { retries: 3 }, idempotent: true },
+    { method: 'post', pattern: /^\/chat\/send/, policy: { retries: 3 }, idempotent: true },
+    { method: 'post', pattern: /^\/chat\/channels\/\d+\/race/, policy: {}, idempotent: true },
+    { method: 'post', pattern: /^\/leagues\/create/, policy: {}, idempotent: true },
+    { method: 'post', pattern: /^\/leagues\/(join-by-code|\d+\/join|\d+\/leave)/, policy: {}, idempotent: true },
+
+    // Uploads are large; give each attempt longer and don't repeat them
+    { method: 'put', pattern: /^\/users\/avatar/, policy: { retries: 0, timeout: 60000 } },
+    { method: 'post', pattern: /^\/chat\/upload-image/, policy: { retries: 0, timeout: 60000 } },
+];
+
+// Methods that are safe to repeat without the server's help
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+const findEndpointPolicy = (config: AxiosRequestConfig): EndpointPolicy | undefined => {
+    const method = (config.method ?? 'get').toLowerCase();
+    const url = config.url ?? '';
+    return ENDPOINT_POLICIES.find(entry => entry.method === method && entry.pattern.test(url));
+};
+
+/**
+ * Resolve the retry policy for a request
+ */
+export const getRetryPolicy = (config: AxiosRequestConfig): RetryPolicy => {
+    const method = (config.method ?? 'get').toLowerCase();
+    const endpoint = findEndpointPolicy(config);
+    const canRepeat = IDEMPOTENT_METHODS.includes(method) || !!endpoint?.idempotent;
+
+    return {
+        ...DEFAULT_RETRY_POLICY,
+        ...(canRepeat ? {} : { retries: 0 }),
+        ...endpoint?.policy,
+    };
+};
+
+/**
+ * Whether a request should carry an idempotency key
+ */
+export const needsIdempotencyKey = (config: AxiosRequestConfig): boolean =>
+    !!findEndpointPolicy(config)?.idempotent;
+
+export const createIdempotencyKey = (): string =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Transient failures worth another attempt: no response, timeouts and gateway errors.
+ * 429 is left to callers, which already back off on it.
+ */
+export const isRetryableError = (error: AxiosError): boolean => {
+    if (error.code === AxiosError.ERR_CANCELED) {
+        return false;
+    }
+    if (!error.response) {
+        return true;
+    }
+    return [502, 503, 504].includes(error.response.status);
+};
+
+/**
+ * Exponential backoff with full jitter, so clients that failed together don't retry together
+ */
+export const getRetryDelay = (policy: RetryPolicy, attempt: number): number => {
+    const ceiling = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt));
+    return Math.round(Math.random() * ceiling);
+};
@@ -1,6 +1,69 @@
-import { ChatMessage, ChatChannel, ChatUser } from '../types/chat';
+import {
+    ChatImageAttachment,
+    ChatMessage,
+    ChatChannel,
+    ChatNotificationLevel,
+    ChatUser,
+    MessageAckEvent,
+    MessageDeletedEvent,
+    MessageEditedEvent,
+    MessageFailedEvent,
+    ReactionEvent,
+    ReadMarker,
+    ReadReceiptEvent,
+    TypingEvent,
+    UserMutedEvent,
+} from '../types/chat';
 import { apiService, leaguesAPI, chatAPI } from './apiService';
-import { secureWebSocketService } from './secureWebSocketService';
+import { createIdempotencyKey } from './retryPolicy';
+import {
+    ConnectionStatus,
+    secureWebSocketService,
+    WebSocketEventMap,
+    WebSocketEventName,
+} from './secureWebSocketService';
+
+/**
+ * Channel ID used for a league's main stream. Its messages are stored without a channelId,
+ * so it stays compatible with chat history from before channels existed.
+ */
+export const GENERAL_CHANNEL_ID = 'general';
+
+/** Number of messages fetched per page of chat history */
+export const CHAT_PAGE_SIZE = 50;
+
+// Page size and page cap used when catching up on messages after a gap
+const SYNC_PAGE_SIZE = 100;
+const MAX_SYNC_PAGES = 20;
+
+/**
+ * ID for an outgoing message, sent with it so the server can acknowledge it and drop repeated sends
+ */
+export const createClientMessageId = (): string => `msg_${createIdempotencyKey()}`;
+
+const CHANNEL_TYPE_ORDER: ChatChannel['type'][] = ['general', 'race-discussion', 'picks', 'admin'];
+
+/**
+ * Read a notification level, falling back to the on/off flag older servers send
+ */
+export const toNotificationLevel = (preference: {
+    notificationLevel?: ChatNotificationLevel;
+    notificationsEnabled?: boolean;
+}): ChatNotificationLevel =>
+    preference.notificationLevel ?? (preference.notificationsEnabled === false ? 'off' : 'all');
+
+// Messages from the socket carry createdAt as an ISO string
+const normalizeMessage = (message: ChatMessage): ChatMessage => ({
+    ...message,
+    createdAt: new Date(message.createdAt),
+});
+
+const normalizeChannel = (channel: any): ChatChannel => ({
+    ...channel,
+    id: String(channel.id),
+    leagueId: String(channel.leagueId),
+    createdAt: new Date(channel.createdAt),
+});
 
 /**
  * Secure Chat Service - Uses backend API for all operations
@@ -10,35 +73,47 @@ import { secureWebSocketService } from './secureWebSocketService';
 export class SecureChatService {
     /**
      * Send a message to a league chat (via secure WebSocket or backend API)
-     * Returns the message with status information
+     * Returns the message with status information. Over WebSocket it stays 'sending' until the
+     * messageAck event (or 'failed' on messageFailed); both carry the message's clientMessageId.
+     * To retry a failed message, pass its clientMessageId back in so the server can drop a duplicate.
      */
     static async sendMessage(
         leagueId: string,
         message: Omit<ChatMessage, 'id' | 'createdAt'>
     ): Promise<ChatMessage> {
+        const clientMessageId = message.clientMessageId ?? createClientMessageId();
+
+        // Create a temporary message with sending status
+        const tempMessage: ChatMessage = {
+            ...message,
+            id: clientMessageId,
+            createdAt: new Date(),
+            tempId: clientMessageId,
+            clientMessageId,
+            status: 'sending'
+        };
+
         try {
-            // Create a temporary message with sending status
-            const tempMessage: ChatMessage = {
-                ...message,
-                id: `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                createdAt: new Date(),
-                tempId: `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                status: 'sending'
+            const options = {
+                replyToId: message.replyTo?.id,
+                threadId: message.threadId,
+                image: message.image,
+                mentions: message.mentions,
+                mentionsEveryone: message.mentionsEveryone,
+                clientMessageId
             };
 
             // Use WebSocket for real-time messaging if available
             if (secureWebSocketService.isConnected()) {
-                secureWebSocketService.sendMessage(leagueId, message.text, message.channelId);
-                return {
-                    ...tempMessage,
-                    status: 'sending' // Keep as sending until WebSocket confirms
-                };
+                secureWebSocketService.sendMessage(leagueId, message.text, message.channelId, options);
+                return tempMessage; // Keep as sending until the server acknowledges it
             } else {
                 // Fallback to REST API if WebSocket is not available
                 const response = await apiService.post('/chat/send', {
                     leagueId: parseInt(leagueId),
                     text: message.text,
-                    channelId: message.channelId
+                    channelId: message.channelId,
+                    ...options
                 });
 
                 if (!response.data.success) {
@@ -47,37 +122,72 @@ export class SecureChatService {
 
                 return {
                     ...tempMessage,
-                    id: response.data.messageId,
+                    id: String(response.data.messageId),
+                    tempId: undefined,
                     status: 'sent'
                 };
             }
         } catch (error) {
             console.error('Error sending message:', error);
-            // Return message with failed status
+            // Return message with failed status, keeping its client message ID for a retry
             return {
-                ...message,
-                id: `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                createdAt: new Date(),
-                tempId: `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                ...tempMessage,
                 status: 'failed'
             };
         }
     }
 
     /**
-     * Get messages for a league chat (via secure backend API)
+     * Upload an image for a chat message (via secure backend API)
+     * Returns the hosted image URL to send with the message
+     */
+    static async uploadImage(
+        leagueId: string,
+        attachment: ChatImageAttachment,
+        onProgress?: (progress: number) => void
+    ): Promise<string> {
+        try {
+            const formData = new FormData();
+            formData.append('leagueId', leagueId);
+            formData.append('image', {
+                uri: attachment.uri,
+                type: attachment.mimeType,
+                name: attachment.fileName,
+            } as any);
+
+            const response = await chatAPI.uploadImage(formData, (event) => {
+                if (event.total) {
+                    onProgress?.(event.loaded / event.total);
+                }
+            });
+
+            if (!response.data.success || !response.data.imageUrl) {
+                throw new Error(response.data.message || 'Failed to upload image');
+            }
+            return response.data.imageUrl;
+        } catch (error) {
+            console.error('Error uploading chat image:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get messages for a league chat (via secure backend API).
+     * Pass the ID of the oldest message already shown as `before` to page further back.
      */
     static async getMessages(
         leagueId: string,
         channelId?: string,
-        limit: number = 50
+        limit: number = CHAT_PAGE_SIZE,
+        before?: string
     ): Promise<ChatMessage[]> {
         try {
             const response = await apiService.get('/chat/messages', {
                 params: {
                     leagueId: parseInt(leagueId),
                     channelId,
-                    limit
+                    limit,
+                    before
                 }
             });
 
@@ -109,7 +219,7 @@ export class SecureChatService {
                     leagueId: parseInt(leagueId),
                     channelId,
                     since: sinceTimestamp.toISOString(),
-                    limit: 100 // Get more messages for synchronization
+                    limit: SYNC_PAGE_SIZE // Get more messages for synchronization
                 }
             });
 
@@ -127,6 +237,231 @@ export class SecureChatService {
         }
     }
 
+    /**
+     * Get every message since a timestamp, fetching page after page until the server
+     * returns a partial one, so a long disconnect doesn't leave a hole in the history
+     */
+    static async getAllMessagesSince(
+        leagueId: string,
+        sinceTimestamp: Date,
+        channelId?: string
+    ): Promise<ChatMessage[]> {
+        const messagesById = new Map<string, ChatMessage>();
+        let cursor = sinceTimestamp;
+
+        for (let page = 0; page < MAX_SYNC_PAGES; page++) {
+            const batch = await SecureChatService.getMessagesSince(leagueId, cursor, channelId);
+            batch.forEach(message => messagesById.set(message.id, message));
+            if (batch.length < SYNC_PAGE_SIZE) break;
+
+            const newest = Math.max(...batch.map(message => message.createdAt.getTime()));
+            if (newest <= cursor.getTime()) break; // A full page with no newer messages would loop forever
+            cursor = new Date(newest);
+        }
+
+        return Array.from(messagesById.values())
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    }
+
+    /**
+     * Get the replies in a message thread, oldest first
+     */
+    static async getThreadMessages(leagueId: string, threadId: string): Promise<ChatMessage[]> {
+        try {
+            const response = await chatAPI.getThread(parseInt(leagueId), threadId);
+
+            if (!response.data.success) {
+                throw new Error(response.data.message || 'Failed to get thread');
+            }
+
+            return response.data.messages.map((msg: any) => ({
+                ...msg,
+                createdAt: new Date(msg.createdAt)
+            }));
+        } catch (error) {
+            console.error('Error getting thread messages:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Add or remove the current user's reaction (via secure WebSocket or REST API)
+     * Returns false if the change could not be sent
+     */
+    static async setReaction(leagueId: string, messageId: string, emoji: string, added: boolean): Promise<boolean> {
+        try {
+            if (secureWebSocketService.sendReaction(leagueId, messageId, emoji, added)) {
+                return true;
+            }
+
+            // Fallback to REST API if WebSocket is not available
+            const response = added
+                ? await chatAPI.addReaction(parseInt(leagueId), messageId, emoji)
+                : await chatAPI.removeReaction(parseInt(leagueId), messageId, emoji);
+            if (!response.data.success) {
+                throw new Error(response.data.message || 'Failed to update reaction');
+            }
+            return true;
+        } catch (error) {
+            console.error('Error updating reaction:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Edit one of the user's messages (via secure WebSocket or REST API)
+     * Returns false if the edit could not be sent
+     */
+    static async editMessage(leagueId: string, messageId: string, text: string): Promise<boolean> {
+        try {
+            if (secureWebSocketService.editMessage(leagueId, messageId, text)) {
+                return true;
+            }
+
+            // Fallback to REST API if WebSocket is not available
+            const response = await chatAPI.editMessage(parseInt(leagueId), messageId, text);
+            if (!response.data.success) {
+                throw new Error(response.data.message || 'Failed to edit message');
+            }
+            return true;
+        } catch (error) {
+            console.error('Error editing message:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Delete a message (via secure WebSocket or REST API)
+     * The backend only allows this for the author within the edit window, or for league owners
+     */
+    static async deleteMessage(leagueId: string, messageId: string): Promise<boolean> {
+        try {
+            if (secureWebSocketService.deleteMessage(leagueId, messageId)) {
+                return true;
+            }
+
+            // Fallback to REST API if WebSocket is not available
+            const response = await chatAPI.deleteMessage(parseInt(leagueId), messageId);
+            if (!response.data.success) {
+                throw new Error(response.data.message || 'Failed to delete message');
+            }
+            return true;
+        } catch (error) {
+            console.error('Error deleting message:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Mute a member in a league's chat (league owners only, via secure WebSocket or REST API)
+     */
+    static async muteUser(leagueId: string, userId: string, durationMinutes: number): Promise<boolean> {
+        try {
+            if (secureWebSocketService.muteUser(leagueId, userId, durationMinutes)) {
+                return true;
+            }
+
+            // Fallback to REST API if WebSocket is not available
+            const response = await chatAPI.muteUser(parseInt(leagueId), parseInt(userId), durationMinutes);
+            if (!response.data.success) {
+                throw new Error(response.data.message || 'Failed to mute user');
+            }
+            return true;
+        } catch (error) {
+            console.error('Error muting user:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Get when the current user's mute in a league ends, or null if they aren't muted
+     */
+    static async getMuteStatus(leagueId: string): Promise<Date | null> {
+        try {
+            const response = await chatAPI.getMuteStatus(parseInt(leagueId));
+            if (!response.data.success) {
+                throw new Error(response.data.message || 'Failed to get mute status');
+            }
+            return response.data.mutedUntil ? new Date(response.data.mutedUntil) : null;
+        } catch (error) {
+            console.error('Error getting mute status:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Tell other members the user started or stopped typing. Typing state is only
+     * shared live, so nothing is sent when the WebSocket is down.
+     */
+    static setTyping(leagueId: string, isTyping: boolean, channelId?: string): void {
+        secureWebSocketService.sendTyping(leagueId, isTyping, channelId);
+    }
+
+    /**
+     * Get how far each member has read in a channel
+     */
+    static async getReadMarkers(leagueId: string, channelId?: string): Promise<ReadMarker[]> {
+        try {
+            const response = await chatAPI.getReadMarkers(parseInt(leagueId), channelId);
+            if (!response.data.success) {
+                throw new Error(response.data.message || 'Failed to get read markers');
+            }
+
+            return (response.data.markers || []).map((marker: any) => ({
+                userId: String(marker.userId),
+                userName: marker.userName || 'Unknown User',
+                lastReadMessageId: String(marker.lastReadMessageId),
+                readAt: new Date(marker.readAt),
+            }));
+        } catch (error) {
+            console.error('Error getting read markers:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Listen for any WebSocket event, optionally for one league only
+     * @returns A function that removes the listener
+     */
+    static subscribeToEvent<K extends WebSocketEventName>(
+        event: K,
+        handler: (payload: WebSocketEventMap[K]) => void,
+        options: { leagueId?: string } = {}
+    ): () => void {
+        return secureWebSocketService.on(event, handler, options);
+    }
+
+    /**
+     * Listen for a league's reactions, thread replies, send acknowledgements, edits, deletions, mutes, typing and read receipts (via secure WebSocket)
+     * @returns A function that removes all of the listeners
+     */
+    static subscribeToMessageActivity(leagueId: string, handlers: {
+        onReactionChanged?: (event: ReactionEvent) => void;
+        onThreadReply?: (message: ChatMessage) => void;
+        onMessageAck?: (event: MessageAckEvent) => void;
+        onMessageFailed?: (event: MessageFailedEvent) => void;
+        onMessageEdited?: (event: MessageEditedEvent) => void;
+        onMessageDeleted?: (event: MessageDeletedEvent) => void;
+        onUserMuted?: (event: UserMutedEvent) => void;
+        onTyping?: (event: TypingEvent) => void;
+        onReadReceipt?: (event: ReadReceiptEvent) => void;
+    }): () => void {
+        const options = { leagueId };
+        const unsubscribers = [
+            handlers.onReactionChanged && secureWebSocketService.on('reactionChanged', handlers.onReactionChanged, options),
+            handlers.onThreadReply && secureWebSocketService.on('threadReply', (message: ChatMessage) =>
+                handlers.onThreadReply?.(normalizeMessage(message)), options),
+            handlers.onMessageAck && secureWebSocketService.on('messageAck', handlers.onMessageAck, options),
+            handlers.onMessageFailed && secureWebSocketService.on('messageFailed', handlers.onMessageFailed, options),
+            handlers.onMessageEdited && secureWebSocketService.on('messageEdited', handlers.onMessageEdited, options),
+            handlers.onMessageDeleted && secureWebSocketService.on('messageDeleted', handlers.onMessageDeleted, options),
+            handlers.onUserMuted && secureWebSocketService.on('userMuted', handlers.onUserMuted, options),
+            handlers.onTyping && secureWebSocketService.on('typing', handlers.onTyping, options),
+            handlers.onReadReceipt && secureWebSocketService.on('readReceipt', handlers.onReadReceipt, options),
+        ];
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe?.());
+    }
+
     /**
      * Validate if user has access to a league's chat
      */
@@ -160,11 +495,12 @@ export class SecureChatService {
     }
 
     /**
-     * Mark messages as read for a league
+     * Mark messages as read for a league, optionally recording the last message the user has seen
+     * so other members get a read receipt
      */
-    static async markMessagesAsRead(leagueId: string): Promise<void> {
+    static async markMessagesAsRead(leagueId: string, channelId?: string, lastReadMessageId?: string): Promise<void> {
         try {
-            const response = await apiService.post(`/chat/mark-read/${leagueId}`);
+            const response = await chatAPI.markMessagesAsRead(parseInt(leagueId), channelId, lastReadMessageId);
             if (!response.data.success) {
                 throw new Error(response.data.message || 'Failed to mark messages as read');
             }
@@ -211,27 +547,25 @@ export class SecureChatService {
     /**
      * Get chat notification preferences for a specific league
      */
-    static async getNotificationPreferences(leagueId: string): Promise<boolean> {
+    static async getNotificationPreferences(leagueId: string): Promise<ChatNotificationLevel> {
         try {
-            const response = await apiService.get(`/chat/notification-preferences/${leagueId}`);
+            const response = await chatAPI.getNotificationPreferences(parseInt(leagueId));
             if (!response.data.success) {
                 throw new Error(response.data.message || 'Failed to get notification preferences');
             }
-            return response.data.notificationsEnabled || false;
+            return toNotificationLevel(response.data);
         } catch (error) {
             console.error('Error getting notification preferences:', error);
-            return false;
+            return 'off';
         }
     }
 
     /**
      * Update chat notification preferences for a specific league
      */
-    static async updateNotificationPreferences(leagueId: string, notificationsEnabled: boolean): Promise<void> {
+    static async updateNotificationPreferences(leagueId: string, notificationLevel: ChatNotificationLevel): Promise<void> {
         try {
-            const response = await apiService.put(`/chat/notification-preferences/${leagueId}`, {
-                notificationsEnabled
-            });
+            const response = await chatAPI.updateNotificationPreferences(parseInt(leagueId), notificationLevel);
             if (!response.data.success) {
                 throw new Error(response.data.message || 'Failed to update notification preferences');
             }
@@ -244,13 +578,16 @@ export class SecureChatService {
     /**
      * Get all chat notification preferences for user
      */
-    static async getAllNotificationPreferences(): Promise<{ leagueId: number, notificationsEnabled: boolean }[]> {
+    static async getAllNotificationPreferences(): Promise<{ leagueId: number, notificationLevel: ChatNotificationLevel }[]> {
         try {
-            const response = await apiService.get('/chat/notification-preferences');
+            const response = await chatAPI.getAllNotificationPreferences();
             if (!response.data.success) {
                 throw new Error(response.data.message || 'Failed to get notification preferences');
             }
-            return response.data.preferences || [];
+            return (response.data.preferences || []).map((preference: any) => ({
+                leagueId: preference.leagueId,
+                notificationLevel: toNotificationLevel(preference),
+            }));
         } catch (error) {
             console.error('Error getting all notification preferences:', error);
             return [];
@@ -259,20 +596,95 @@ export class SecureChatService {
 
     /**
      * Get league channels (via secure backend API)
-     * Note: This would need to be implemented in the backend
+     * The main stream is always listed first, followed by race channels (newest race first)
      */
-    static async getLeagueChannels(_leagueId: string): Promise<ChatChannel[]> {
+    static async getLeagueChannels(leagueId: string): Promise<ChatChannel[]> {
         try {
-            // TODO: Implement backend endpoint for getting league channels
-            // For now, return empty array until backend endpoint is created
-            console.warn('getLeagueChannels not yet implemented in backend API');
-            return [];
+            const response = await chatAPI.getChannels(parseInt(leagueId));
+            if (!response.data.success) {
+                throw new Error(response.data.message || 'Failed to get channels');
+            }
+
+            const channels: ChatChannel[] = (response.data.channels || [])
+                .map(normalizeChannel)
+                .filter((channel: ChatChannel) => channel.id !== GENERAL_CHANNEL_ID);
+            const general: ChatChannel = {
+                id: GENERAL_CHANNEL_ID,
+                name: 'General',
+                leagueId,
+                type: 'general',
+                createdAt: new Date(0),
+                createdBy: '',
+                memberCount: 0,
+            };
+
+            return [general, ...channels.sort((a, b) =>
+                CHANNEL_TYPE_ORDER.indexOf(a.type) - CHANNEL_TYPE_ORDER.indexOf(b.type) ||
+                (b.weekNumber ?? 0) - (a.weekNumber ?? 0) ||
+                a.name.localeCompare(b.name)
+            )];
         } catch (error) {
             console.error('Error getting league channels:', error);
             throw error;
         }
     }
 
+    /**
+     * Create a channel in a league (league owners only, via secure backend API)
+     */
+    static async createChannel(
+        leagueId: string,
+        channel: { name: string; description?: string; type: ChatChannel['type'] }
+    ): Promise<ChatChannel> {
+        try {
+            const response = await chatAPI.createChannel(parseInt(leagueId), channel);
+            if (!response.data.success) {
+                throw new Error(response.data.message || 'Failed to create channel');
+            }
+            return normalizeChannel(response.data.channel);
+        } catch (error) {
+            console.error('Error creating channel:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Make sure the league has a discussion channel for a race; the backend creates it on first call
+     */
+    static async ensureRaceChannel(leagueId: string, weekNumber: number, raceName: string): Promise<ChatChannel | null> {
+        try {
+            const response = await chatAPI.ensureRaceChannel(parseInt(leagueId), weekNumber, raceName);
+            if (!response.data.success) {
+                throw new Error(response.data.message || 'Failed to create race channel');
+            }
+            return normalizeChannel(response.data.channel);
+        } catch (error) {
+            console.error('Error ensuring race channel:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Get unread message counts for each channel in a league, keyed by channel ID
+     */
+    static async getChannelUnreadCounts(leagueId: string): Promise<{ [channelId: string]: number }> {
+        try {
+            const response = await chatAPI.getChannelUnreadCounts(parseInt(leagueId));
+            if (!response.data.success) {
+                throw new Error(response.data.message || 'Failed to get channel unread counts');
+            }
+
+            const counts: { [channelId: string]: number } = {};
+            (response.data.unreadCounts || []).forEach((item: { channelId: string | null; unreadCount: number }) => {
+                counts[item.channelId ? String(item.channelId) : GENERAL_CHANNEL_ID] = item.unreadCount;
+            });
+            return counts;
+        } catch (error) {
+            console.error('Error getting channel unread counts:', error);
+            return {};
+        }
+    }
+
     /**
      * Create a default channel for a league (via secure backend API)
      * Note: This would need to be implemented in the backend
@@ -357,20 +769,13 @@ export class SecureChatService {
                 callback([]);
             }
 
-            // Set up WebSocket callbacks for new messages
-            secureWebSocketService.setCallbacks({
-                onMessage: (message: ChatMessage) => {
-                    // Append new message to existing messages instead of replacing them
-                    if (callback) {
-                        // We need to get the current messages and append the new one
-                        // Since we can't access the current state here, we'll use a different approach
-                        // The component should handle appending new messages to its state
-                        callback([message]);
-                    }
-                },
-                onError: (error: string) => {
-                    console.error('WebSocket error in message subscription:', error);
-                }
+            // Listen for new messages in this league
+            const unsubscribeMessages = secureWebSocketService.on('message', (message: ChatMessage) => {
+                // The component appends new messages to its own state
+                callback?.([normalizeMessage(message)]);
+            }, { leagueId });
+            const unsubscribeErrors = secureWebSocketService.on('error', (error: string) => {
+                console.error('WebSocket error in message subscription:', error);
             });
 
             // Join the league's chat room
@@ -378,6 +783,8 @@ export class SecureChatService {
 
             // Return unsubscribe function
             return () => {
+                unsubscribeMessages();
+                unsubscribeErrors();
                 secureWebSocketService.leaveLeague(leagueId);
             };
         } catch (error) {
@@ -426,26 +833,27 @@ export class SecureChatService {
                 callback(initialUsers);
             }
 
-            // Set up WebSocket callbacks for user events
-            secureWebSocketService.setCallbacks({
-                onUserJoined: (user: ChatUser | ChatUser[]) => {
+            // Listen for user events in this league
+            const unsubscribers = [
+                secureWebSocketService.on('userJoined', (user: ChatUser | ChatUser[]) => {
                     // Handle user joined event - can be single user or array of users
                     callback(user);
-                },
-                onUserLeft: (userId: string) => {
+                }, { leagueId }),
+                secureWebSocketService.on('userLeft', (userId: string) => {
                     // Handle user left event - send user object with isOnline: false for removal
                     callback({ id: userId, name: '', email: '', isOnline: false, lastSeen: new Date(), leagues: [] } as ChatUser);
-                },
-                onError: (error: string) => {
+                }, { leagueId }),
+                secureWebSocketService.on('error', (error: string) => {
                     console.error('WebSocket error in user subscription:', error);
-                }
-            });
+                }),
+            ];
 
             // Join the league's chat room
             secureWebSocketService.joinLeague(leagueId);
 
             // Return unsubscribe function
             return () => {
+                unsubscribers.forEach(unsubscribe => unsubscribe());
                 secureWebSocketService.leaveLeague(leagueId);
             };
         } catch (error) {
@@ -480,6 +888,21 @@ export class SecureChatService {
         return secureWebSocketService.isConnected();
     }
 
+    /**
+     * Listen for WebSocket connection state changes
+     * @returns A function that removes the listener
+     */
+    static subscribeToConnectionStatus(listener: (status: ConnectionStatus) => void): () => void {
+        return secureWebSocketService.subscribeToStatus(listener);
+    }
+
+    /**
+     * Retry the WebSocket connection now instead of waiting out the backoff
+     */
+    static reconnectWebSocket(): void {
+        secureWebSocketService.reconnectNow();
+    }
+
     /**
      * Update authentication token for WebSocket
      */
@@ -1,5 +1,41 @@
-import { ChatMessage, ChatUser } from '../types/chat';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+    ChatMessage,
+    ChatUser,
+    MessageAckEvent,
+    MessageDeletedEvent,
+    MessageEditedEvent,
+    MessageFailedEvent,
+    OutgoingMessageOptions,
+    ReactionEvent,
+    ReadReceiptEvent,
+    TypingEvent,
+    UserMutedEvent,
+} from '../types/chat';
+import { AppState, AppStateStatus } from 'react-native';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { credentialStore } from './credentialStore';
+
+/**
+ * Connection lifecycle:
+ * idle → connecting → authenticating → open, and on an unexpected close → backoff → connecting,
+ * or → offline while the device has no network. Only disconnect() returns to idle.
+ */
+export type ConnectionState = 'idle' | 'connecting' | 'authenticating' | 'open' | 'backoff' | 'offline';
+
+export interface ConnectionStatus {
+    state: ConnectionState;
+    retryAt?: number; // When the next attempt is due, while in backoff
+}
+
+type ConnectionStatusListener = (status: ConnectionStatus) => void;
+
+const HEARTBEAT_INTERVAL_MS = 20000;
+// Servers authenticate from the token in the URL; older ones never confirm it, so an open socket is trusted after this
+const AUTH_TIMEOUT_MS = 10000;
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+// A sent message the server hasn't acknowledged by then is marked failed so the user can retry it
+const ACK_TIMEOUT_MS = 10000;
 
 interface WebSocketMessage {
     type: string;
@@ -11,38 +47,68 @@ interface WebSocketMessage {
     [key: string]: unknown;
 }
 
-interface WebSocketCallbacks {
-    onMessage?: (message: ChatMessage) => void;
-    onUserJoined?: (user: ChatUser | ChatUser[]) => void;
-    onUserLeft?: (userId: string) => void;
-    onError?: (error: string) => void;
-    onConnected?: () => void;
-    onDisconnected?: () => void;
+interface OutgoingMessage extends OutgoingMessageOptions {
+    text: string;
+    channelId?: string;
+}
+
+/**
+ * Payload of each event the service emits
+ */
+export interface WebSocketEventMap {
+    message: ChatMessage;
+    threadReply: ChatMessage; // Replies posted inside a thread; these don't appear in the main message list
+    messageAck: MessageAckEvent;
+    messageFailed: MessageFailedEvent;
+    reactionChanged: ReactionEvent;
+    messageEdited: MessageEditedEvent;
+    messageDeleted: MessageDeletedEvent;
+    userMuted: UserMutedEvent;
+    typing: TypingEvent;
+    readReceipt: ReadReceiptEvent;
+    userJoined: ChatUser | ChatUser[];
+    userLeft: string; // User ID
+    error: string;
+    connected: undefined;
+    disconnected: undefined;
+}
+
+export type WebSocketEventName = keyof WebSocketEventMap;
+
+interface EventSubscription<K extends WebSocketEventName> {
+    handler: (payload: WebSocketEventMap[K]) => void;
+    leagueId?: string;
 }
 
+// Each event's listeners, typed by that event's payload
+type EventSubscriptions = { [K in WebSocketEventName]?: Set<EventSubscription<K>> };
+
 export class SecureWebSocketService {
     private ws: WebSocket | null = null;
     private token: string | null = null;
-    private callbacks: WebSocketCallbacks = {};
-    private joinedLeagues: Set<string> = new Set();
+    private subscriptions: EventSubscriptions = {};
+    private joinedLeagues: Map<string, number> = new Map(); // League ID -> number of subscribers using its room
     private reconnectAttempts = 0;
-    private maxReconnectAttempts = 10; // Increased from 5
-    private reconnectDelay = 1000; // Start with 1 second
-    private isConnecting = false;
+    private state: ConnectionState = 'idle';
+    private retryAt: number | undefined;
+    private statusListeners: Set<ConnectionStatusListener> = new Set();
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private authTimer: ReturnType<typeof setTimeout> | null = null;
+    private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+    private awaitingHeartbeat = false; // Nothing received since the last ping
+    private isNetworkAvailable = true;
+    private monitoringStarted = false;
     private lastMessageTimestamps: Map<string, Date> = new Map(); // Track last message time per league
-    private offlineMessageQueue: { leagueId: string, message: { text: string; channelId?: string } }[] = []; // Queue messages when offline
+    private offlineMessageQueue: { leagueId: string, message: OutgoingMessage }[] = []; // Queue messages when offline
+    private pendingAcks: Map<string, ReturnType<typeof setTimeout>> = new Map(); // Client message ID -> ack timeout
 
     // Constructor removed - token will be set explicitly via updateToken method
 
     /**
-     * Load authentication token from AsyncStorage
+     * Load authentication token from the credential store
      */
     private async loadToken(): Promise<void> {
-        try {
-            this.token = await AsyncStorage.getItem('token');
-        } catch (error) {
-            console.error('Error loading token from AsyncStorage:', error);
-        }
+        this.token = await credentialStore.getToken();
     }
 
     /**
@@ -50,9 +116,69 @@ export class SecureWebSocketService {
      */
     updateToken(token: string): void {
         this.token = token;
-        // Optionally save to AsyncStorage
-        AsyncStorage.setItem('token', token).catch(error => {
-            console.error('Error saving token to AsyncStorage:', error);
+        credentialStore.setToken(token).catch(error => {
+            console.error('Error saving token:', error);
+        });
+    }
+
+    /**
+     * Current connection state, and when the next reconnect is due while backing off
+     */
+    getStatus(): ConnectionStatus {
+        return { state: this.state, retryAt: this.retryAt };
+    }
+
+    /**
+     * Listen for connection state changes. The listener is called straight away with the current status.
+     * @returns A function that removes the listener
+     */
+    subscribeToStatus(listener: ConnectionStatusListener): () => void {
+        this.statusListeners.add(listener);
+        listener(this.getStatus());
+        return () => {
+            this.statusListeners.delete(listener);
+        };
+    }
+
+    private setState(state: ConnectionState, retryAt?: number): void {
+        this.state = state;
+        this.retryAt = retryAt;
+        const status = this.getStatus();
+        this.statusListeners.forEach(listener => listener(status));
+    }
+
+    /**
+     * Reconnect when the network comes back or the app returns to the foreground.
+     * Started on the first connect so nothing is watched for signed-out users.
+     */
+    private startMonitoring(): void {
+        if (this.monitoringStarted) return;
+        this.monitoringStarted = true;
+
+        NetInfo.addEventListener((networkState: NetInfoState) => {
+            const available = networkState.isConnected !== false && networkState.isInternetReachable !== false;
+            if (available === this.isNetworkAvailable) return;
+            this.isNetworkAvailable = available;
+
+            if (this.state === 'idle') return;
+            if (!available) {
+                // The socket can't be alive without a network; don't wait for the heartbeat to notice
+                this.closeSocket();
+                this.clearReconnectTimer();
+                this.setState('offline');
+            } else if (this.state === 'offline' || this.state === 'backoff') {
+                this.reconnectNow();
+            }
+        });
+
+        AppState.addEventListener('change', (appState: AppStateStatus) => {
+            if (appState !== 'active' || this.state === 'idle') return;
+            if (this.state === 'backoff' || (this.state === 'offline' && this.isNetworkAvailable)) {
+                this.reconnectNow();
+            } else if (this.state === 'open') {
+                // The OS may have dropped the socket while we were suspended
+                this.sendHeartbeat();
+            }
         });
     }
 
@@ -60,17 +186,24 @@ export class SecureWebSocketService {
      * Connect to the secure WebSocket server
      */
     async connect(): Promise<void> {
-        if (this.isConnecting || (this.ws && this.ws.readyState === WebSocket.OPEN)) {
+        if (this.state === 'connecting' || this.state === 'authenticating' || this.state === 'open') {
             return;
         }
 
-        this.isConnecting = true;
+        if (!this.token) {
+            throw new Error('No authentication token available');
+        }
 
-        try {
-            if (!this.token) {
-                throw new Error('No authentication token available');
-            }
+        this.startMonitoring();
+        this.clearReconnectTimer();
+        if (!this.isNetworkAvailable) {
+            this.setState('offline');
+            return;
+        }
 
+        this.setState('connecting');
+
+        try {
             // Get the API base URL
             const apiBaseUrl = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:6075';
             // Remove /api suffix if it exists to avoid double /api/api
@@ -79,29 +212,16 @@ export class SecureWebSocketService {
             const wsBaseUrl = baseUrl.replace('http', 'ws');
             const wsUrl = `${wsBaseUrl}/api/chat/ws?token=${encodeURIComponent(this.token)}`;
 
+            const ws = new WebSocket(wsUrl);
+            this.ws = ws;
 
-
-            this.ws = new WebSocket(wsUrl);
-
-            this.ws.onopen = () => {
-                this.isConnecting = false;
-                this.reconnectAttempts = 0;
-                this.reconnectDelay = 1000;
-                this.callbacks.onConnected?.();
-
-                // Rejoin all previously joined leagues
-                this.joinedLeagues.forEach(leagueId => {
-                    this.joinLeague(leagueId);
-                });
-
-                // Synchronize missed messages for all joined leagues
-                this.synchronizeMissedMessages();
-
-                // Retry sending queued offline messages
-                this.retryOfflineMessages();
+            ws.onopen = () => {
+                this.setState('authenticating');
+                this.authTimer = setTimeout(() => this.handleAuthenticated(), AUTH_TIMEOUT_MS);
             };
 
-            this.ws.onmessage = (event) => {
+            ws.onmessage = (event) => {
+                this.awaitingHeartbeat = false;
                 try {
                     const data: WebSocketMessage = JSON.parse(event.data);
                     this.handleMessage(data);
@@ -110,65 +230,199 @@ export class SecureWebSocketService {
                 }
             };
 
-            this.ws.onclose = (event) => {
-                this.isConnecting = false;
-                this.callbacks.onDisconnected?.();
-
-                // Attempt to reconnect if not a manual close
-                if (event.code !== 1000 && this.reconnectAttempts < this.maxReconnectAttempts) {
-                    this.attemptReconnect();
-                }
+            ws.onclose = () => {
+                // Ignore sockets we already gave up on
+                if (this.ws !== ws) return;
+                this.handleConnectionLost();
             };
 
-            this.ws.onerror = (error) => {
-                this.isConnecting = false;
+            ws.onerror = (error) => {
                 console.error('Mobile WebSocket error:', error);
-                this.callbacks.onError?.('WebSocket connection error');
+                this.emit('error', 'WebSocket connection error');
             };
 
         } catch (error) {
-            this.isConnecting = false;
             console.error('Error connecting to WebSocket:', error);
+            this.handleConnectionLost();
             throw error;
         }
     }
 
     /**
-     * Disconnect from the WebSocket server
+     * Skip any backoff wait and try to connect straight away
      */
-    disconnect(): void {
+    reconnectNow(): void {
+        if (this.state !== 'backoff' && this.state !== 'offline') return;
+        this.reconnectAttempts = 0;
+        this.clearReconnectTimer();
+        this.setState('idle');
+        this.connect().catch(error => {
+            console.error('Error reconnecting WebSocket:', error);
+        });
+    }
+
+    /**
+     * The server accepted our token: start the heartbeat and restore chat state
+     */
+    private handleAuthenticated(): void {
+        if (this.state !== 'authenticating') return;
+        if (this.authTimer) {
+            clearTimeout(this.authTimer);
+            this.authTimer = null;
+        }
+
+        this.reconnectAttempts = 0;
+        this.setState('open');
+        this.startHeartbeat();
+        this.emit('connected', undefined);
+
+        // Rejoin all previously joined leagues
+        this.joinedLeagues.forEach((_count, leagueId) => {
+            this.sendJoin(leagueId);
+        });
+
+        // Synchronize missed messages for all joined leagues
+        this.synchronizeMissedMessages();
+
+        // Retry sending queued offline messages
+        this.retryOfflineMessages();
+    }
+
+    /**
+     * The socket closed without disconnect() being called, failed to open, or stopped answering pings
+     */
+    private handleConnectionLost(): void {
+        const wasOpen = this.state === 'open';
+        this.closeSocket();
+        if (wasOpen) {
+            this.emit('disconnected', undefined);
+        }
+        if (this.state === 'idle') return;
+
+        if (!this.isNetworkAvailable) {
+            this.setState('offline');
+            return;
+        }
+
+        // Exponential backoff with jitter, with no limit on attempts
+        const delay = Math.min(BASE_RECONNECT_DELAY_MS * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY_MS) +
+            Math.random() * BASE_RECONNECT_DELAY_MS;
+        this.reconnectAttempts++;
+        this.setState('backoff', Date.now() + delay);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.setState('idle');
+            this.connect().catch(error => {
+                console.error('Error reconnecting WebSocket:', error);
+            });
+        }, delay);
+    }
+
+    private startHeartbeat(): void {
+        this.stopHeartbeat();
+        this.awaitingHeartbeat = false;
+        this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), HEARTBEAT_INTERVAL_MS);
+    }
+
+    private stopHeartbeat(): void {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+    }
+
+    /**
+     * Ping the server. If nothing at all has arrived since the previous ping, the connection is dead
+     * even if the socket still reports open (common after a network switch), so reconnect.
+     */
+    private sendHeartbeat(): void {
+        if (this.state !== 'open') return;
+        if (this.awaitingHeartbeat) {
+            console.warn('WebSocket heartbeat timed out, reconnecting');
+            this.handleConnectionLost();
+            return;
+        }
+
+        this.awaitingHeartbeat = true;
+        this.send({ type: 'ping' });
+    }
+
+    /**
+     * Drop the current socket without triggering its close handler
+     */
+    private closeSocket(reason = 'Reconnecting'): void {
+        this.stopHeartbeat();
+        if (this.authTimer) {
+            clearTimeout(this.authTimer);
+            this.authTimer = null;
+        }
         if (this.ws) {
-            this.ws.close(1000, 'Manual disconnect');
+            const ws = this.ws;
             this.ws = null;
+            ws.onopen = null;
+            ws.onmessage = null;
+            ws.onclose = null;
+            ws.onerror = null;
+            ws.close(1000, reason);
+        }
+    }
+
+    private clearReconnectTimer(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
         }
+    }
+
+    /**
+     * Disconnect from the WebSocket server
+     */
+    disconnect(): void {
+        this.clearReconnectTimer();
+        this.closeSocket('Manual disconnect');
         this.joinedLeagues.clear();
+        this.pendingAcks.forEach(timer => clearTimeout(timer));
+        this.pendingAcks.clear();
         this.reconnectAttempts = 0;
+        this.setState('idle');
     }
 
     /**
      * Check if WebSocket is connected
      */
     isConnected(): boolean {
-        return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+        return this.state === 'open' && this.ws !== null && this.ws.readyState === WebSocket.OPEN;
     }
 
     /**
      * Join a league's chat room
      */
     joinLeague(leagueId: string): void {
-        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-            console.warn('WebSocket not connected, cannot join league');
-            this.connect();
+        const subscribers = this.joinedLeagues.get(leagueId) ?? 0;
+        this.joinedLeagues.set(leagueId, subscribers + 1);
+        if (subscribers > 0) {
             return;
         }
 
+        if (!this.isConnected()) {
+            // Joined once the connection is authenticated
+            if (this.state === 'idle') {
+                this.connect().catch(error => {
+                    console.error('Error connecting WebSocket:', error);
+                });
+            }
+            return;
+        }
+
+        this.sendJoin(leagueId);
+    }
+
+    private sendJoin(leagueId: string): void {
         this.send({
             type: 'join_league',
             leagueId: leagueId
         });
 
-        this.joinedLeagues.add(leagueId);
-
         // Initialize last message timestamp if not already set
         if (!this.lastMessageTimestamps.has(leagueId)) {
             this.lastMessageTimestamps.set(leagueId, new Date());
@@ -179,26 +433,30 @@ export class SecureWebSocketService {
      * Leave a league's chat room
      */
     leaveLeague(leagueId: string): void {
-        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+        const subscribers = this.joinedLeagues.get(leagueId) ?? 0;
+        if (subscribers > 1) {
+            // Someone else is still listening to this league
+            this.joinedLeagues.set(leagueId, subscribers - 1);
             return;
         }
 
-        this.send({
-            type: 'leave_league',
-            leagueId: leagueId
-        });
-
         this.joinedLeagues.delete(leagueId);
+        if (subscribers === 1 && this.isConnected()) {
+            this.send({
+                type: 'leave_league',
+                leagueId: leagueId
+            });
+        }
     }
 
     /**
      * Send a message to a league's chat
      */
-    sendMessage(leagueId: string, text: string, channelId?: string): void {
-        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    sendMessage(leagueId: string, text: string, channelId?: string, options: OutgoingMessageOptions = {}): void {
+        if (!this.isConnected()) {
             console.warn('WebSocket not connected, queuing message for later');
             // Queue the message for later sending
-            this.queueOfflineMessage(leagueId, { text, channelId });
+            this.queueOfflineMessage(leagueId, { text, channelId, ...options });
             return;
         }
 
@@ -206,15 +464,142 @@ export class SecureWebSocketService {
             type: 'send_message',
             leagueId: leagueId,
             text: text,
+            channelId: channelId,
+            replyToId: options.replyToId,
+            threadId: options.threadId,
+            image: options.image,
+            mentions: options.mentions,
+            mentionsEveryone: options.mentionsEveryone,
+            clientMessageId: options.clientMessageId
+        });
+
+        if (options.clientMessageId) {
+            this.awaitAck(leagueId, options.clientMessageId);
+        }
+    }
+
+    /**
+     * Mark a sent message as failed unless the server acknowledges it in time.
+     * Timers keep running across reconnects: a retry reuses the client message ID, so the server drops it if the first send did arrive.
+     */
+    private awaitAck(leagueId: string, clientMessageId: string): void {
+        this.resolveAck(clientMessageId);
+        this.pendingAcks.set(clientMessageId, setTimeout(() => {
+            this.pendingAcks.delete(clientMessageId);
+            this.emit('messageFailed', {
+                leagueId,
+                clientMessageId,
+                reason: 'Not acknowledged by the server'
+            }, leagueId);
+        }, ACK_TIMEOUT_MS));
+    }
+
+    private resolveAck(clientMessageId: string | undefined): void {
+        if (!clientMessageId) return;
+        const timer = this.pendingAcks.get(clientMessageId);
+        if (timer) {
+            clearTimeout(timer);
+            this.pendingAcks.delete(clientMessageId);
+        }
+    }
+
+    /**
+     * Add or remove a reaction on a message. Returns false if not connected.
+     */
+    sendReaction(leagueId: string, messageId: string, emoji: string, added: boolean): boolean {
+        return this.sendIfConnected({
+            type: added ? 'add_reaction' : 'remove_reaction',
+            leagueId: leagueId,
+            messageId: messageId,
+            emoji: emoji
+        });
+    }
+
+    /**
+     * Replace the text of one of the user's messages. Returns false if not connected.
+     */
+    editMessage(leagueId: string, messageId: string, text: string): boolean {
+        return this.sendIfConnected({
+            type: 'edit_message',
+            leagueId: leagueId,
+            messageId: messageId,
+            text: text
+        });
+    }
+
+    /**
+     * Delete a message (own, or any message for league owners). Returns false if not connected.
+     */
+    deleteMessage(leagueId: string, messageId: string): boolean {
+        return this.sendIfConnected({
+            type: 'delete_message',
+            leagueId: leagueId,
+            messageId: messageId
+        });
+    }
+
+    /**
+     * Mute a member of the league's chat (league owners only). Returns false if not connected.
+     */
+    muteUser(leagueId: string, userId: string, durationMinutes: number): boolean {
+        return this.sendIfConnected({
+            type: 'mute_user',
+            leagueId: leagueId,
+            userId: userId,
+            durationMinutes: durationMinutes
+        });
+    }
+
+    /**
+     * Tell the league's other members whether the user is typing. Returns false if not connected.
+     */
+    sendTyping(leagueId: string, isTyping: boolean, channelId?: string): boolean {
+        return this.sendIfConnected({
+            type: isTyping ? 'typing_start' : 'typing_stop',
+            leagueId: leagueId,
             channelId: channelId
         });
     }
 
     /**
-     * Set WebSocket event callbacks
+     * Listen for an event. Pass a leagueId to only hear about that league; events the server
+     * doesn't tag with a league reach every listener.
+     * @returns A function that removes the listener
      */
-    setCallbacks(callbacks: WebSocketCallbacks): void {
-        this.callbacks = { ...this.callbacks, ...callbacks };
+    on<K extends WebSocketEventName>(
+        event: K,
+        handler: (payload: WebSocketEventMap[K]) => void,
+        options: { leagueId?: string } = {}
+    ): () => void {
+        const subscription: EventSubscription<K> = { handler, leagueId: options.leagueId };
+        let subscriptions: Set<EventSubscription<K>> | undefined = this.subscriptions[event];
+        if (!subscriptions) {
+            subscriptions = new Set<EventSubscription<K>>();
+            this.subscriptions = { ...this.subscriptions, [event]: subscriptions };
+        }
+        subscriptions.add(subscription);
+
+        return () => {
+            this.subscriptions[event]?.delete(subscription);
+        };
+    }
+
+    /**
+     * Deliver an event to its listeners; one failing listener doesn't stop the rest
+     */
+    private emit<K extends WebSocketEventName>(event: K, payload: WebSocketEventMap[K], leagueId?: string): void {
+        const subscriptions: Set<EventSubscription<K>> | undefined = this.subscriptions[event];
+        if (!subscriptions) return;
+
+        // Copy so listeners can unsubscribe while being called
+        Array.from(subscriptions).forEach(subscription => {
+            if (subscription.leagueId && leagueId && subscription.leagueId !== leagueId) return;
+            try {
+                subscription.handler(payload);
+            } catch (error) {
+                console.error(`Error in WebSocket ${event} listener:`, error);
+            }
+        });
     }
 
     /**
@@ -226,15 +611,30 @@ export class SecureWebSocketService {
         }
     }
 
+    /**
+     * Send data if connected; callers fall back to REST when this returns false
+     */
+    private sendIfConnected(data: Record<string, unknown>): boolean {
+        if (!this.isConnected()) {
+            return false;
+        }
+
+        this.send(data);
+        return true;
+    }
+
     /**
      * Handle incoming WebSocket messages
      */
     private handleMessage(data: WebSocketMessage): void {
+        const leagueId = data.leagueId !== undefined ? String(data.leagueId) : undefined;
+
         switch (data.type) {
             case 'authenticated':
+                this.handleAuthenticated();
                 // Handle token migration if new token is provided
                 if (data.newToken && data.tokenMigration && typeof data.newToken === 'string') {
-                    AsyncStorage.setItem('token', data.newToken).then(() => {
+                    credentialStore.setToken(data.newToken).then(() => {
                         this.token = data.newToken as string;
                     }).catch(error => {
                         console.error('Failed to update token:', error);
@@ -246,7 +646,7 @@ export class SecureWebSocketService {
                 // Handle league joined event with online users list
                 if (data.onlineUsers && Array.isArray(data.onlineUsers)) {
                     // Send the online users list to the callback
-                    this.callbacks.onUserJoined?.(data.onlineUsers as ChatUser[]);
+                    this.emit('userJoined', data.onlineUsers as ChatUser[], leagueId);
                 }
                 break;
 
@@ -255,7 +655,9 @@ export class SecureWebSocketService {
 
             case 'new_message':
                 if (data.message) {
-                    this.callbacks.onMessage?.(data.message);
+                    // Our own message coming back also confirms it was stored
+                    this.resolveAck(data.message.clientMessageId);
+                    this.emit('message', data.message, String(data.message.leagueId));
                     // Update last message timestamp for the league
                     if (data.message.leagueId) {
                         this.updateLastMessageTimestamp(data.message.leagueId, new Date(data.message.createdAt));
@@ -263,32 +665,136 @@ export class SecureWebSocketService {
                 }
                 break;
 
+            case 'reply_created':
+                // Reply posted inside a thread; these don't appear in the main message list
+                if (data.message) {
+                    this.resolveAck(data.message.clientMessageId);
+                    this.emit('threadReply', data.message, String(data.message.leagueId));
+                    if (data.message.leagueId) {
+                        this.updateLastMessageTimestamp(data.message.leagueId, new Date(data.message.createdAt));
+                    }
+                }
+                break;
+
+            case 'message_ack':
+                // Sent only to the sender, once a message is stored
+                if (typeof data.clientMessageId === 'string' && data.messageId) {
+                    this.resolveAck(data.clientMessageId);
+                    this.emit('messageAck', {
+                        leagueId: String(data.leagueId),
+                        clientMessageId: data.clientMessageId,
+                        messageId: String(data.messageId),
+                        createdAt: data.createdAt ? new Date(data.createdAt as string) : new Date()
+                    }, leagueId);
+                }
+                break;
+
+            case 'reaction_added':
+            case 'reaction_removed':
+                if (data.messageId && typeof data.emoji === 'string' && data.userId) {
+                    this.emit('reactionChanged', {
+                        leagueId: String(data.leagueId),
+                        messageId: String(data.messageId),
+                        emoji: data.emoji,
+                        userId: String(data.userId),
+                        added: data.type === 'reaction_added'
+                    }, leagueId);
+                }
+                break;
+
+            case 'message_edited':
+                if (data.messageId && typeof data.text === 'string') {
+                    this.emit('messageEdited', {
+                        leagueId: String(data.leagueId),
+                        messageId: String(data.messageId),
+                        text: data.text,
+                        editedAt: data.editedAt ? new Date(data.editedAt as string) : new Date()
+                    }, leagueId);
+                }
+                break;
+
+            case 'message_deleted':
+                if (data.messageId) {
+                    this.emit('messageDeleted', {
+                        leagueId: String(data.leagueId),
+                        messageId: String(data.messageId),
+                        deletedBy: data.deletedBy === 'moderator' ? 'moderator' : 'author'
+                    }, leagueId);
+                }
+                break;
+
+            case 'user_muted':
+                if (data.userId) {
+                    this.emit('userMuted', {
+                        leagueId: String(data.leagueId),
+                        userId: String(data.userId),
+                        mutedUntil: data.mutedUntil ? new Date(data.mutedUntil as string) : null
+                    }, leagueId);
+                }
+                break;
+
+            case 'typing_start':
+            case 'typing_stop':
+                if (data.userId) {
+                    this.emit('typing', {
+                        leagueId: String(data.leagueId),
+                        channelId: data.channelId ? String(data.channelId) : undefined,
+                        userId: String(data.userId),
+                        userName: (data.userName as string) || 'Someone',
+                        isTyping: data.type === 'typing_start'
+                    }, leagueId);
+                }
+                break;
+
+            case 'messages_read':
+                // Sent by the server when a member calls the mark-read endpoint
+                if (data.userId && data.lastReadMessageId) {
+                    this.emit('readReceipt', {
+                        leagueId: String(data.leagueId),
+                        channelId: data.channelId ? String(data.channelId) : undefined,
+                        userId: String(data.userId),
+                        userName: (data.userName as string) || 'Unknown User',
+                        lastReadMessageId: String(data.lastReadMessageId),
+                        readAt: data.readAt ? new Date(data.readAt as string) : new Date()
+                    }, leagueId);
+                }
+                break;
+
             case 'user_joined':
                 if (data.userId) {
-                    this.callbacks.onUserJoined?.({
+                    this.emit('userJoined', {
                         id: data.userId,
                         name: (data.userName as string) || 'Unknown User',
                         email: '',
                         isOnline: true,
                         lastSeen: new Date(),
                         leagues: []
-                    });
+                    }, leagueId);
                 }
                 break;
 
             case 'user_left':
                 if (data.userId) {
-                    this.callbacks.onUserLeft?.(data.userId);
+                    this.emit('userLeft', data.userId, leagueId);
                 }
                 break;
 
             case 'error':
                 console.error('WebSocket error:', data.message);
-                this.callbacks.onError?.(typeof data.message === 'string' ? data.message : 'Unknown error');
+                // Errors about a message we sent (e.g. the sender is muted) carry its client message ID
+                if (typeof data.clientMessageId === 'string') {
+                    this.resolveAck(data.clientMessageId);
+                    this.emit('messageFailed', {
+                        leagueId: String(data.leagueId),
+                        clientMessageId: data.clientMessageId,
+                        reason: typeof data.message === 'string' ? data.message : 'Message rejected'
+                    }, leagueId);
+                }
+                this.emit('error', typeof data.message === 'string' ? data.message : 'Unknown error');
                 break;
 
             case 'pong':
-                // Handle ping/pong for connection health
+                // Any incoming message clears the heartbeat, so there's nothing more to do
                 break;
 
             case 'user_status_updated':
@@ -306,9 +812,9 @@ export class SecureWebSocketService {
 
                     // Notify callbacks about the user status change
                     if (data.isOnline) {
-                        this.callbacks.onUserJoined?.(user);
+                        this.emit('userJoined', user, leagueId);
                     } else {
-                        this.callbacks.onUserLeft?.(data.userId);
+                        this.emit('userLeft', data.userId, leagueId);
                     }
                 }
                 break;
@@ -319,34 +825,32 @@ export class SecureWebSocketService {
     }
 
     /**
-     * Attempt to reconnect with exponential backoff
-     */
-    private attemptReconnect(): void {
-        this.reconnectAttempts++;
-        const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1); // Exponential backoff
-
-        setTimeout(() => {
-            this.connect();
-        }, delay);
-    }
-
-    /**
-     * Synchronize missed messages for all joined leagues
+     * Synchronize missed messages for all joined leagues, one channel at a time
      */
     private async synchronizeMissedMessages(): Promise<void> {
-        for (const leagueId of this.joinedLeagues) {
+        for (const leagueId of this.joinedLeagues.keys()) {
             try {
                 const lastTimestamp = this.lastMessageTimestamps.get(leagueId);
                 if (lastTimestamp) {
-                    const { SecureChatService } = await import('./secureChatService');
-                    const missedMessages = await SecureChatService.getMessagesSince(leagueId, lastTimestamp);
-
-                    // Process missed messages
-                    missedMessages.forEach(message => {
-                        this.callbacks.onMessage?.(message);
-                        // Update the last message timestamp
-                        this.lastMessageTimestamps.set(leagueId, message.createdAt);
-                    });
+                    const { SecureChatService, GENERAL_CHANNEL_ID } = await import('./secureChatService');
+                    const channels = await SecureChatService.getLeagueChannels(leagueId);
+                    let newest = lastTimestamp;
+
+                    for (const channel of channels) {
+                        const channelId = channel.id === GENERAL_CHANNEL_ID ? undefined : channel.id;
+                        const missedMessages = await SecureChatService.getAllMessagesSince(leagueId, lastTimestamp, channelId);
+
+                        // Listeners route messages by channel, so make sure each one says where it belongs
+                        missedMessages.forEach(message => {
+                            this.emit(message.threadId ? 'threadReply' : 'message', { ...message, channelId: message.channelId ?? channelId }, leagueId);
+                            if (message.createdAt > newest) {
+                                newest = message.createdAt;
+                            }
+                        });
+                    }
+
+                    // Every channel is synced from the same starting point before moving it on
+                    this.lastMessageTimestamps.set(leagueId, newest);
                 }
             } catch (error) {
                 console.error(`Error synchronizing messages for league ${leagueId}:`, error);
@@ -363,7 +867,8 @@ export class SecureWebSocketService {
 
         for (const { leagueId, message } of messagesToRetry) {
             try {
-                await this.sendMessage(leagueId, message.text, message.channelId);
+                const { text, channelId, ...options } = message;
+                await this.sendMessage(leagueId, text, channelId, options);
             } catch (error) {
                 console.error('Error retrying offline message:', error);
                 // Re-queue the message if it fails
@@ -375,7 +880,7 @@ export class SecureWebSocketService {
     /**
      * Queue a message for later sending when offline
      */
-    private queueOfflineMessage(leagueId: string, message: { text: string; channelId?: string }): void {
+    private queueOfflineMessage(leagueId: string, message: OutgoingMessage): void {
         this.offlineMessageQueue.push({ leagueId, message });
     }
 
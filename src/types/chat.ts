@@ -1,4 +1,17 @@
+import type { IMessage } from 'react-native-gifted-chat';
+
 // Chat types for FinalPoint app - League-based chat system
+export interface MessageReaction {
+    emoji: string;
+    userIds: string[]; // Users who reacted with this emoji
+}
+
+export interface ReplyPreview {
+    id: string; // ID of the message being quoted
+    text: string;
+    userName: string;
+}
+
 export interface ChatMessage {
     id: string;
     text: string;
@@ -12,8 +25,61 @@ export interface ChatMessage {
     channelId?: string; // Optional - for different chat channels within a league (general, race-discussion, etc.)
     image?: string; // For image messages
     system?: boolean; // For system messages (like "User joined the league")
-    status?: 'sending' | 'sent' | 'failed' | 'queued'; // Message delivery status
+    status?: 'uploading' | 'sending' | 'sent' | 'failed' | 'queued'; // Message delivery status
+    uploadProgress?: number; // 0-1 while an image attachment is uploading
     tempId?: string; // Temporary ID for messages being sent (before server assigns real ID)
+    clientMessageId?: string; // Generated by the sender and echoed back by the server to match up its copy
+    reactions?: MessageReaction[];
+    replyTo?: ReplyPreview; // Quoted message this one replies to
+    threadId?: string; // ID of the thread's root message, for replies posted inside a thread
+    threadReplyCount?: number; // Number of replies in the thread started by this message
+    editedAt?: Date;
+    deleted?: boolean; // Deleted messages stay in the list as tombstones
+    deletedBy?: 'author' | 'moderator';
+    mentions?: string[]; // IDs of members @mentioned in the text
+    mentionsEveryone?: boolean; // Sent with @everyone by a league owner
+}
+
+/**
+ * Message as rendered in LeagueChat: the GiftedChat shape plus our chat extras
+ */
+export type DisplayChatMessage = IMessage &
+    Pick<ChatMessage,
+        'status' | 'uploadProgress' | 'tempId' | 'clientMessageId' | 'reactions' | 'replyTo' | 'threadId' | 'threadReplyCount' |
+        'editedAt' | 'deleted' | 'deletedBy' | 'mentions' | 'mentionsEveryone'>;
+
+/**
+ * Optional parts of an outgoing message: a quoted message, the thread it belongs to and an uploaded image
+ */
+export interface OutgoingMessageOptions {
+    replyToId?: string;
+    threadId?: string;
+    image?: string; // URL returned by the image upload
+    mentions?: string[];
+    mentionsEveryone?: boolean;
+    clientMessageId?: string; // Lets the server drop repeats of a send and acknowledge it
+}
+
+/**
+ * Which messages in a league send the user a push notification
+ */
+export type ChatNotificationLevel = 'all' | 'mentions' | 'off';
+
+/**
+ * Local image picked for a chat message, before upload
+ */
+export interface ChatImageAttachment {
+    uri: string;
+    mimeType: string;
+    fileName: string;
+}
+
+export interface ReactionEvent {
+    leagueId: string;
+    messageId: string;
+    emoji: string;
+    userId: string;
+    added: boolean; // false when the reaction was removed
 }
 
 export interface ChatChannel {
@@ -22,6 +88,7 @@ export interface ChatChannel {
     description?: string;
     leagueId: string; // Required - each channel belongs to a specific league
     type: 'general' | 'race-discussion' | 'picks' | 'admin';
+    weekNumber?: number; // For race-discussion channels: the F1Race.weekNumber the channel belongs to
     createdAt: Date;
     createdBy: string;
     memberCount: number;
@@ -50,3 +117,64 @@ export interface ChatNotification {
     read: boolean;
     createdAt: Date;
 }
+
+export interface MessageEditedEvent {
+    leagueId: string;
+    messageId: string;
+    text: string;
+    editedAt: Date;
+}
+
+export interface MessageDeletedEvent {
+    leagueId: string;
+    messageId: string;
+    deletedBy: 'author' | 'moderator';
+}
+
+/**
+ * The server stored a message we sent
+ */
+export interface MessageAckEvent {
+    leagueId: string;
+    clientMessageId: string;
+    messageId: string;
+    createdAt: Date;
+}
+
+/**
+ * A message we sent was rejected, or never acknowledged in time
+ */
+export interface MessageFailedEvent {
+    leagueId: string;
+    clientMessageId: string;
+    reason: string;
+}
+
+export interface TypingEvent {
+    leagueId: string;
+    channelId?: string;
+    userId: string;
+    userName: string;
+    isTyping: boolean; // false once they stop typing or send
+}
+
+/**
+ * How far a member has read in a channel
+ */
+export interface ReadMarker {
+    userId: string;
+    userName: string;
+    lastReadMessageId: string;
+    readAt: Date;
+}
+
+export interface ReadReceiptEvent extends ReadMarker {
+    leagueId: string;
+    channelId?: string;
+}
+
+export interface UserMutedEvent {
+    leagueId: string;
+    userId: string;
+    mutedUntil: Date | null; // null when the mute was lifted
+}
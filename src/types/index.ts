@@ -22,6 +22,28 @@ export interface LoginData {
 }
 
 // League types
+/**
+ * A member's role in a league. Each league has one Owner; co-owners share the settings,
+ * admins can remove and ban members.
+ */
+export type LeagueRole = 'Owner' | 'CoOwner' | 'Admin' | 'Member';
+
+/**
+ * Preset or custom points table a league scores picks with
+ */
+export type ScoringScheme = 'exactOnly' | 'distanceDecay' | 'custom';
+
+/**
+ * How a league turns picks into points. A pick scores pointsByDifference[n] when it is n places off;
+ * picks further off than the table reaches score nothing.
+ */
+export interface LeagueScoringRules {
+    scheme: ScoringScheme;
+    pointsByDifference: number[]; // [0] is an exact pick
+    sprintMultiplier: number; // Applied to sprint points, including the bonus
+    allCorrectBonus: number; // Extra points for an event where every pick is exact
+}
+
 export interface League {
     id: number;
     name: string;
@@ -30,9 +52,12 @@ export interface League {
     joinCode?: string;
     memberCount?: number;
     isMember?: boolean;
-    userRole?: 'Owner' | 'Member';
+    userRole?: LeagueRole;
     requiredPositions?: number[];
     isPublic?: boolean;
+    requiresApproval?: boolean; // Public leagues only: joining sends a request for moderators to approve
+    joinRequestStatus?: 'pending' | 'denied'; // The current user's request, on leagues they haven't joined
+    scoringRules?: LeagueScoringRules; // Missing for leagues still on the default scoring
     seasonActivity?: number;
     lastTwoRaceWeeksActivity?: number;
     seasonPicks?: number;
@@ -47,7 +72,15 @@ export interface League {
 
 // Position status types for efficient pick status
 export interface PositionStatus {
-    weekNumber: number;
+    weekNumber?: number;
+    hasSprint?: boolean;
+    race?: EventPositionStatus;
+    sprint?: EventPositionStatus;
+    /** Older API responses: race positions only */
+    positions?: PositionPickStatus[];
+}
+
+export interface EventPositionStatus {
     positions: PositionPickStatus[];
 }
 
@@ -301,13 +334,82 @@ export interface F1Race {
     raceLockTime?: string;
 }
 
+/**
+ * Why a join code or invite can't be used, or 'valid' if it can
+ */
+export type InviteStatus = 'valid' | 'expired' | 'revoked' | 'used';
+
+/**
+ * Invite code an owner created alongside the league's join code; it can expire, run out of uses,
+ * be revoked, or be meant for one user
+ */
+export interface LeagueInvite {
+    id: number;
+    leagueId: number;
+    code: string;
+    createdAt: string;
+    expiresAt: string | null; // null never expires
+    maxUses: number | null; // null for unlimited
+    uses: number;
+    status: InviteStatus;
+    invitedUserId?: number; // Set for invites sent to a specific user
+    invitedUserName?: string;
+}
+
+export interface CreateInviteOptions {
+    maxUses: number | null;
+    expiresInHours: number | null;
+    userId?: number; // Only this user can use the invite
+}
+
+/**
+ * What a join code or invite code leads to, for the join screen
+ */
+export interface InvitePreview {
+    league: League;
+    status: InviteStatus;
+    expiresAt: string | null;
+    requiresApproval?: boolean; // Joining with this code sends a request; invites never need approval
+}
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'denied';
+
+/**
+ * Request to join a league that requires approval
+ */
+export interface JoinRequest {
+    id: number;
+    leagueId: number;
+    userId: number;
+    userName: string;
+    userAvatar?: string;
+    createdAt: string;
+    status: JoinRequestStatus;
+}
+
+/**
+ * Outcome of joining a league; 'pending' when a join request was sent instead
+ */
+export interface JoinResult {
+    status: 'joined' | 'pending';
+}
+
+/**
+ * User found when inviting someone by name
+ */
+export interface UserSearchResult {
+    id: number;
+    name: string;
+    avatar?: string;
+}
+
 // League member types
 export interface LeagueMember {
     id: number;
     userId: number;
     userName: string;
     userAvatar?: string;
-    userRole: 'Owner' | 'Member';
+    userRole: LeagueRole;
     joinedAt: string;
     totalPoints: number;
     correctPicks: number;
@@ -364,3 +466,79 @@ export interface LeagueStats {
 }
 
 
+
+// Season types
+export interface Season {
+    year: number;
+    displayLabel: string;
+}
+
+// Community picks types
+export interface CommunityWeek {
+    weekNumber: number;
+    raceName: string;
+    raceDate: string | null;
+    isScored: boolean;
+    hasSprint: boolean;
+}
+
+export interface CommunityDriverPickStat {
+    driverId: number;
+    driverName: string;
+    driverTeam: string;
+    pickCount: number;
+    percentage: number;
+    isCorrect: boolean;
+}
+
+export interface CommunityPositionStat {
+    position: number;
+    totalPicks: number;
+    isScored: boolean;
+    actualResult: { driverId: number; driverName: string; driverTeam: string } | null;
+    drivers: CommunityDriverPickStat[];
+}
+
+export interface CommunityStats {
+    weekNumber: number;
+    raceName: string;
+    eventType: 'race' | 'sprint';
+    isScored: boolean;
+    positions: CommunityPositionStat[];
+}
+
+// Driver position stats types
+export interface DriverPositionStats {
+    driverId: number;
+    driverName: string;
+    driverTeam: string;
+    timesInPosition: number;
+    totalRaces: number;
+    percentageInPosition: number;
+}
+
+// Platform standings types
+export interface PlatformStandingsThreshold {
+    label: string;
+    percentile: number;
+    accuracy: number;
+}
+
+export interface PlatformStandingsLeague {
+    leagueId: number;
+    leagueName: string;
+    totalPoints: number;
+    accuracy: number;
+    platformRank: number;
+    platformPercentile: number | null;
+}
+
+export interface PlatformStandings {
+    seasonYear: number;
+    totalPlayers: number;
+    thresholds: PlatformStandingsThreshold[];
+    userRank: number | null;
+    userPercentile: number | null;
+    userTotalPoints: number | null;
+    userLeagues: PlatformStandingsLeague[];
+}
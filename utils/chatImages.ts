@@ -0,0 +1,74 @@
+import * as ImagePicker from 'expo-image-picker';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { ChatImageAttachment } from '../src/types/chat';
+
+/** Largest attachment the chat upload endpoint accepts */
+export const MAX_CHAT_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** JPEG quality photos are re-encoded at; keeps typical phone photos well under the limit */
+const CHAT_IMAGE_QUALITY = 0.6;
+
+/** Photos are scaled down so their longest side is at most this many pixels */
+const CHAT_IMAGE_MAX_DIMENSION = 1600;
+
+export type PickChatImageResult =
+    | { status: 'picked'; attachment: ChatImageAttachment }
+    | { status: 'cancelled' }
+    | { status: 'tooLarge' };
+
+/**
+ * Scale a photo down to the chat size and re-encode it as JPEG
+ */
+const compressChatImage = async (asset: ImagePicker.ImagePickerAsset): Promise<string> => {
+    const context = ImageManipulator.manipulate(asset.uri);
+    if (Math.max(asset.width, asset.height) > CHAT_IMAGE_MAX_DIMENSION) {
+        context.resize(asset.width >= asset.height
+            ? { width: CHAT_IMAGE_MAX_DIMENSION }
+            : { height: CHAT_IMAGE_MAX_DIMENSION });
+    }
+    const image = await context.renderAsync();
+    const result = await image.saveAsync({ compress: CHAT_IMAGE_QUALITY, format: SaveFormat.JPEG });
+    return result.uri;
+};
+
+// The picker's fileSize describes the original file, so measure what will actually be uploaded
+const getFileSize = async (uri: string): Promise<number> => {
+    const response = await fetch(uri);
+    const blob = await response.blob();
+    return blob.size;
+};
+
+/**
+ * Let the user pick a photo or GIF from their library for a chat message.
+ * Photos are resized and compressed before upload; GIFs keep their original encoding.
+ */
+export const pickChatImage = async (): Promise<PickChatImageResult> => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+    });
+
+    const asset = result.canceled ? undefined : result.assets?.[0];
+    if (!asset) {
+        return { status: 'cancelled' };
+    }
+
+    // Re-encoding a GIF would drop its animation
+    const isGif = asset.mimeType === 'image/gif';
+    const uri = isGif ? asset.uri : await compressChatImage(asset);
+
+    if (await getFileSize(uri) > MAX_CHAT_IMAGE_BYTES) {
+        return { status: 'tooLarge' };
+    }
+
+    const mimeType = isGif ? 'image/gif' : 'image/jpeg';
+    const extension = isGif ? 'gif' : 'jpg';
+    const baseName = asset.fileName?.replace(/\.[^.]+$/, '') ?? 'chat-image';
+    return {
+        status: 'picked',
+        attachment: {
+            uri,
+            mimeType,
+            fileName: `${baseName}.${extension}`,
+        },
+    };
+};
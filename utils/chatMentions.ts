@@ -0,0 +1,115 @@
+import { LeagueMember } from '../src/types';
+
+/** Mention that notifies the whole league; only league owners can send it */
+export const EVERYONE_MENTION = 'everyone';
+
+/** Most suggestions shown in the autocomplete list */
+const MAX_SUGGESTIONS = 5;
+
+export interface MentionQuery {
+    query: string; // Text typed after the @
+    start: number; // Index of the @ in the input
+}
+
+export interface MessageSegment {
+    text: string;
+    mention: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The @mention being typed at the end of the input, if any
+ */
+export const getMentionQuery = (text: string): MentionQuery | null => {
+    const match = /(^|\s)@([^\s@]*)$/.exec(text);
+    if (!match) return null;
+    return { query: match[2], start: match.index + match[1].length };
+};
+
+/**
+ * Members (and @everyone for owners) with a word in their name that starts with the query
+ */
+export const getMentionSuggestions = (
+    members: LeagueMember[],
+    query: string,
+    options: { includeEveryone: boolean; excludeUserId?: string }
+): string[] => {
+    const normalized = query.toLowerCase();
+    const names = members
+        .filter(member => String(member.userId) !== options.excludeUserId)
+        .map(member => member.userName)
+        .filter(name => name.toLowerCase().split(/\s+/).some(word => word.startsWith(normalized)));
+
+    if (options.includeEveryone && EVERYONE_MENTION.startsWith(normalized)) {
+        names.unshift(EVERYONE_MENTION);
+    }
+    return names.slice(0, MAX_SUGGESTIONS);
+};
+
+/**
+ * Replace the mention being typed with the chosen name
+ */
+export const insertMention = (text: string, mention: MentionQuery, name: string): string =>
+    `${text.slice(0, mention.start)}@${name} `;
+
+const mentionPattern = (names: string[]): RegExp | null => {
+    if (names.length === 0) return null;
+    // Longest names first so "@Alex Smith" isn't matched as "@Alex"
+    const alternatives = [...names]
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegExp)
+        .join('|');
+    return new RegExp(`(^|\\s)@(${alternatives})(?=$|[\\s.,!?:;])`, 'gi');
+};
+
+/**
+ * Find who a message mentions. @everyone only counts when the sender is allowed to use it.
+ */
+export const collectMentions = (
+    text: string,
+    members: LeagueMember[],
+    canMentionEveryone: boolean
+): { mentions: string[]; mentionsEveryone: boolean } => {
+    const pattern = mentionPattern([EVERYONE_MENTION, ...members.map(member => member.userName)]);
+    const mentioned = new Set<string>();
+    let mentionsEveryone = false;
+
+    if (pattern) {
+        for (const match of text.matchAll(pattern)) {
+            const name = match[2].toLowerCase();
+            if (name === EVERYONE_MENTION) {
+                mentionsEveryone = canMentionEveryone;
+                continue;
+            }
+            members
+                .filter(member => member.userName.toLowerCase() === name)
+                .forEach(member => mentioned.add(String(member.userId)));
+        }
+    }
+
+    return { mentions: Array.from(mentioned), mentionsEveryone };
+};
+
+/**
+ * Split message text into plain and @mention segments for highlighting
+ */
+export const splitMentions = (text: string, names: string[]): MessageSegment[] => {
+    const pattern = mentionPattern([EVERYONE_MENTION, ...names]);
+    if (!pattern) return [{ text, mention: false }];
+
+    const segments: MessageSegment[] = [];
+    let lastIndex = 0;
+    for (const match of text.matchAll(pattern)) {
+        const mentionStart = (match.index ?? 0) + match[1].length;
+        if (mentionStart > lastIndex) {
+            segments.push({ text: text.slice(lastIndex, mentionStart), mention: false });
+        }
+        segments.push({ text: `@${match[2]}`, mention: true });
+        lastIndex = mentionStart + match[2].length + 1;
+    }
+    if (lastIndex < text.length) {
+        segments.push({ text: text.slice(lastIndex), mention: false });
+    }
+    return segments;
+};
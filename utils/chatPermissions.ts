@@ -0,0 +1,48 @@
+import { LeagueMember, LeagueRole } from '../src/types';
+import { DisplayChatMessage } from '../src/types/chat';
+import { canManageMember } from './leaguePermissions';
+
+/** How long authors can edit or delete their own messages */
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+/** Mute lengths league moderators can pick from */
+export const MUTE_DURATION_OPTIONS = [
+    { minutes: 60, label: '1 hour' },
+    { minutes: 24 * 60, label: '24 hours' },
+    { minutes: 7 * 24 * 60, label: '7 days' },
+];
+
+const isWithinEditWindow = (message: DisplayChatMessage): boolean =>
+    Date.now() - new Date(message.createdAt).getTime() < MESSAGE_EDIT_WINDOW_MS;
+
+const isModeratable = (message: DisplayChatMessage): boolean =>
+    !message.deleted && !message.system && !message.tempId;
+
+export const canEditMessage = (message: DisplayChatMessage, userId: string): boolean =>
+    isModeratable(message) && message.user._id === userId && isWithinEditWindow(message);
+
+// Moderators only act on members ranked below them; an author who isn't a member (yet) can't be ranked
+const outranksAuthor = (role: LeagueRole | undefined, author: LeagueMember | undefined, userId: string): boolean =>
+    !!author && canManageMember(role, author, Number(userId));
+
+/**
+ * Authors can delete within the edit window; league moderators can delete messages from lower-ranked members
+ */
+export const canDeleteMessage = (
+    message: DisplayChatMessage,
+    userId: string,
+    role: LeagueRole | undefined,
+    author: LeagueMember | undefined
+): boolean =>
+    isModeratable(message) && (
+        outranksAuthor(role, author, userId) ||
+        (message.user._id === userId && isWithinEditWindow(message))
+    );
+
+export const canMuteAuthor = (
+    message: DisplayChatMessage,
+    userId: string,
+    role: LeagueRole | undefined,
+    author: LeagueMember | undefined
+): boolean =>
+    !message.system && message.user._id !== userId && outranksAuthor(role, author, userId);
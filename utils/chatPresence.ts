@@ -0,0 +1,44 @@
+import { DisplayChatMessage, ReadMarker } from '../src/types/chat';
+
+/** While typing, typing_start is re-sent at most this often */
+export const TYPING_THROTTLE_MS = 3000;
+
+/** typing_stop is sent after this long without a keystroke */
+export const TYPING_IDLE_MS = 4000;
+
+/** Someone else's indicator is dropped if they don't refresh it in time, e.g. after losing connection */
+export const TYPING_EXPIRY_MS = 6000;
+
+/**
+ * Text for the typing indicator, e.g. "Alex is typing…" or "Alex and 2 others are typing…"
+ * @returns null when nobody is typing
+ */
+export const formatTypingText = (names: string[]): string | null => {
+    if (names.length === 0) return null;
+    if (names.length === 1) return `${names[0]} is typing…`;
+    if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+    return `${names[0]} and ${names.length - 1} others are typing…`;
+};
+
+/**
+ * Members whose last-read marker is at or past a message.
+ * Markers pointing at a message that isn't loaded fall back to comparing read time with send time.
+ */
+export const getMessageReaders = (
+    message: DisplayChatMessage,
+    messages: DisplayChatMessage[],
+    markers: ReadMarker[],
+    excludeUserId?: string
+): ReadMarker[] => {
+    const messageIndex = messages.findIndex(msg => msg._id === message._id);
+    const sentAt = new Date(message.createdAt).getTime();
+
+    return markers.filter(marker => {
+        if (marker.userId === excludeUserId || marker.userId === message.user._id) return false;
+
+        const readIndex = messages.findIndex(msg => msg._id.toString() === marker.lastReadMessageId);
+        return readIndex >= 0 && messageIndex >= 0
+            ? readIndex >= messageIndex
+            : marker.readAt.getTime() >= sentAt;
+    });
+};
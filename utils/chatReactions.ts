@@ -0,0 +1,34 @@
+import { MessageReaction } from '../src/types/chat';
+
+/** Emojis offered in the long-press menu */
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '🔥', '🏁', '😮'];
+
+/**
+ * Add or remove one user's reaction.
+ * Applying the same change twice is a no-op, so an optimistic update and the server's echo
+ * of it can both be applied safely.
+ * @returns A new reactions list; emojis nobody reacts with any more are dropped
+ */
+export const applyReaction = (
+    reactions: MessageReaction[] = [],
+    emoji: string,
+    userId: string,
+    added: boolean
+): MessageReaction[] => {
+    const existing = reactions.find(reaction => reaction.emoji === emoji);
+
+    if (!existing) {
+        return added ? [...reactions, { emoji, userIds: [userId] }] : reactions;
+    }
+
+    const userIds = added
+        ? Array.from(new Set([...existing.userIds, userId]))
+        : existing.userIds.filter(id => id !== userId);
+
+    return reactions
+        .map(reaction => (reaction.emoji === emoji ? { emoji, userIds } : reaction))
+        .filter(reaction => reaction.userIds.length > 0);
+};
+
+export const hasReacted = (reactions: MessageReaction[] | undefined, emoji: string, userId: string): boolean =>
+    !!reactions?.some(reaction => reaction.emoji === emoji && reaction.userIds.includes(userId));
@@ -0,0 +1,68 @@
+import { InviteStatus, LeagueInvite } from '../src/types';
+
+const INVITE_BASE_URL = 'https://finalpoint.app/joinleague/';
+
+/** Shortest search the server will run when inviting someone by name */
+export const MIN_USER_SEARCH_LENGTH = 2;
+
+export const INVITE_USE_OPTIONS: { maxUses: number | null; label: string }[] = [
+    { maxUses: 1, label: 'Single use' },
+    { maxUses: 5, label: '5 uses' },
+    { maxUses: null, label: 'Unlimited' },
+];
+
+export const INVITE_EXPIRY_OPTIONS: { expiresInHours: number | null; label: string }[] = [
+    { expiresInHours: 24, label: '1 day' },
+    { expiresInHours: 24 * 7, label: '7 days' },
+    { expiresInHours: null, label: 'Never' },
+];
+
+/**
+ * Link that opens the join screen for a join code or invite code
+ */
+export const getInviteUrl = (code: string): string => `${INVITE_BASE_URL}${code}`;
+
+/**
+ * e.g. "3 of 5 uses · Expires Mar 4" for the active invites list
+ */
+export const describeInvite = (invite: LeagueInvite): string => {
+    const parts = [
+        invite.invitedUserName
+            ? `For ${invite.invitedUserName}`
+            : invite.maxUses === null
+                ? `${invite.uses} use${invite.uses === 1 ? '' : 's'}`
+                : `${invite.uses} of ${invite.maxUses} use${invite.maxUses === 1 ? '' : 's'}`,
+    ];
+    parts.push(invite.expiresAt
+        ? `Expires ${new Date(invite.expiresAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`
+        : 'Never expires');
+    return parts.join(' · ');
+};
+
+/**
+ * Title and explanation shown on the join screen when a code can't be used
+ */
+export const getInviteStatusMessage = (
+    status: Exclude<InviteStatus, 'valid'>,
+    expiresAt?: string | null
+): { title: string; message: string } => {
+    switch (status) {
+        case 'expired':
+            return {
+                title: 'This invite has expired',
+                message: expiresAt
+                    ? `It stopped working on ${new Date(expiresAt).toLocaleDateString()}. Ask a league owner for a new one.`
+                    : 'Ask a league owner for a new one.',
+            };
+        case 'revoked':
+            return {
+                title: 'This invite is no longer active',
+                message: 'A league owner turned this link off or replaced it with a new code. Ask them for the current one.',
+            };
+        case 'used':
+            return {
+                title: 'This invite has been used up',
+                message: 'It has already been used as many times as allowed. Ask a league owner for another invite.',
+            };
+    }
+};
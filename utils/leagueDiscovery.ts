@@ -0,0 +1,96 @@
+import { League } from '../src/types';
+import { DEFAULT_SCORING_RULES } from './scoring';
+
+/** Leagues shown per page while scrolling the discovery list */
+export const DISCOVERY_PAGE_SIZE = 20;
+
+export type LeagueSizeFilter = 'any' | 'small' | 'medium' | 'large';
+export type SprintFilter = 'any' | 'scored' | 'unscored';
+export type LeagueSort = 'activity' | 'size' | 'newest';
+
+export interface LeagueDiscoveryFilters {
+    query: string;
+    size: LeagueSizeFilter;
+    position: number | null; // Leagues that require a pick for this position
+    sprints: SprintFilter;
+    seasonYear: number | null;
+}
+
+export const DEFAULT_DISCOVERY_FILTERS: LeagueDiscoveryFilters = {
+    query: '',
+    size: 'any',
+    position: null,
+    sprints: 'any',
+    seasonYear: null,
+};
+
+export const LEAGUE_SIZE_OPTIONS: { size: LeagueSizeFilter; label: string; min: number; max: number }[] = [
+    { size: 'any', label: 'Any size', min: 0, max: Infinity },
+    { size: 'small', label: 'Under 10', min: 0, max: 9 },
+    { size: 'medium', label: '10–29', min: 10, max: 29 },
+    { size: 'large', label: '30+', min: 30, max: Infinity },
+];
+
+export const SPRINT_FILTER_OPTIONS: { sprints: SprintFilter; label: string }[] = [
+    { sprints: 'any', label: 'Any' },
+    { sprints: 'scored', label: 'Sprints count' },
+    { sprints: 'unscored', label: 'Races only' },
+];
+
+export const LEAGUE_SORT_OPTIONS: { sort: LeagueSort; label: string }[] = [
+    { sort: 'activity', label: 'Most active' },
+    { sort: 'size', label: 'Largest' },
+    { sort: 'newest', label: 'Newest' },
+];
+
+// Leagues on the default scoring count sprints
+const scoresSprints = (league: League): boolean =>
+    (league.scoringRules?.sprintMultiplier ?? DEFAULT_SCORING_RULES.sprintMultiplier) > 0;
+
+/**
+ * Positions required by at least one of the leagues, for the position filter
+ */
+export const getAvailablePositions = (leagues: League[]): number[] =>
+    Array.from(new Set(leagues.flatMap(league => league.requiredPositions ?? []))).sort((a, b) => a - b);
+
+/**
+ * Leagues whose name contains the query and that match every filter
+ */
+export const filterLeagues = (leagues: League[], filters: LeagueDiscoveryFilters): League[] => {
+    const query = filters.query.trim().toLowerCase();
+    const sizeOption = LEAGUE_SIZE_OPTIONS.find(option => option.size === filters.size)!;
+
+    return leagues.filter(league => {
+        const memberCount = league.memberCount || 1;
+        if (query && !league.name.toLowerCase().includes(query)) return false;
+        if (memberCount < sizeOption.min || memberCount > sizeOption.max) return false;
+        if (filters.position !== null && !league.requiredPositions?.includes(filters.position)) return false;
+        if (filters.sprints !== 'any' && scoresSprints(league) !== (filters.sprints === 'scored')) return false;
+        if (filters.seasonYear !== null && league.seasonYear !== filters.seasonYear) return false;
+        return true;
+    });
+};
+
+/**
+ * Sorted copy of the leagues; ties fall back to the most active league
+ */
+export const sortLeagues = (leagues: League[], sort: LeagueSort): League[] => {
+    const activity = (league: League) => league.activityScore ?? league.seasonActivity ?? 0;
+    const compare: Record<LeagueSort, (a: League, b: League) => number> = {
+        activity: (a, b) => activity(b) - activity(a) || (b.memberCount || 1) - (a.memberCount || 1),
+        size: (a, b) => (b.memberCount || 1) - (a.memberCount || 1) || activity(b) - activity(a),
+        // League ids increase as leagues are created
+        newest: (a, b) => b.id - a.id,
+    };
+    return [...leagues].sort(compare[sort]);
+};
+
+/**
+ * Number of filters (other than the search text and season) that differ from the defaults
+ */
+export const countActiveFilters = (filters: LeagueDiscoveryFilters): number =>
+    [
+        filters.size !== DEFAULT_DISCOVERY_FILTERS.size,
+        filters.position !== DEFAULT_DISCOVERY_FILTERS.position,
+        filters.sprints !== DEFAULT_DISCOVERY_FILTERS.sprints,
+    ].filter(Boolean).length;
@@ -0,0 +1,47 @@
+import { LeagueMember, LeagueRole } from '../src/types';
+
+export const LEAGUE_ROLE_LABELS: Record<LeagueRole, string> = {
+    Owner: 'Owner',
+    CoOwner: 'Co-owner',
+    Admin: 'Admin',
+    Member: 'Member',
+};
+
+// Members can only manage people ranked below them
+const ROLE_RANK: Record<LeagueRole, number> = {
+    Owner: 3,
+    CoOwner: 2,
+    Admin: 1,
+    Member: 0,
+};
+
+/**
+ * Owners and co-owners: league name, visibility and position requirements, @everyone and owner-only channels
+ */
+export const isLeagueOwner = (role?: LeagueRole): boolean =>
+    role === 'Owner' || role === 'CoOwner';
+
+/**
+ * Owners, co-owners and admins: removing and banning members, approving join requests, and moderating chat
+ */
+export const isLeagueModerator = (role?: LeagueRole): boolean =>
+    !!role && ROLE_RANK[role] >= ROLE_RANK.Admin;
+
+/** Deleting the league and handing it to someone else stay with the one Owner */
+export const canDeleteLeague = (role?: LeagueRole): boolean => role === 'Owner';
+
+export const canTransferOwnership = (role?: LeagueRole): boolean => role === 'Owner';
+
+/**
+ * Whether the current user can remove, ban or change the role of a member
+ */
+export const canManageMember = (role: LeagueRole | undefined, member: LeagueMember, currentUserId?: number): boolean =>
+    isLeagueModerator(role) && member.userId !== currentUserId && ROLE_RANK[role!] > ROLE_RANK[member.userRole];
+
+/**
+ * Roles the current user can give to others: anything below their own, and only owners can hand out roles
+ */
+export const getAssignableRoles = (role?: LeagueRole): LeagueRole[] => {
+    if (!isLeagueOwner(role)) return [];
+    return (['CoOwner', 'Admin', 'Member'] as LeagueRole[]).filter(option => ROLE_RANK[option] < ROLE_RANK[role!]);
+};
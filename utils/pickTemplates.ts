@@ -0,0 +1,49 @@
+import { Driver, PickV2 } from '../src/types';
+
+export type SkippedPickReason = 'inactiveDriver' | 'positionNotScored';
+
+export interface SkippedPick {
+    position: number;
+    driverId: number;
+    reason: SkippedPickReason;
+}
+
+export interface PickTemplate {
+    picks: PickV2[];
+    skipped: SkippedPick[];
+}
+
+/**
+ * Builds a batch of picks from an existing set of picks (another league's, or last week's)
+ * @param sourcePicks - Picks to copy
+ * @param targetPositions - Positions the target league scores this week
+ * @param drivers - Current driver list; drivers missing from it or marked inactive are skipped
+ * @returns The picks to submit, sorted by position, and the ones that could not be carried over
+ */
+export const buildPickTemplate = (
+    sourcePicks: PickV2[],
+    targetPositions: number[],
+    drivers: Driver[]
+): PickTemplate => {
+    const activeDriverIds = new Set(
+        drivers.filter(driver => driver.isActive !== false).map(driver => driver.id)
+    );
+    const positions = new Set(targetPositions);
+
+    const picks: PickV2[] = [];
+    const skipped: SkippedPick[] = [];
+
+    [...sourcePicks]
+        .sort((a, b) => a.position - b.position)
+        .forEach(({ position, driverId }) => {
+            if (!positions.has(position)) {
+                skipped.push({ position, driverId, reason: 'positionNotScored' });
+            } else if (!activeDriverIds.has(driverId)) {
+                skipped.push({ position, driverId, reason: 'inactiveDriver' });
+            } else {
+                picks.push({ position, driverId });
+            }
+        });
+
+    return { picks, skipped };
+};
@@ -0,0 +1,120 @@
+import { LeagueScoringRules, RaceResultV2, ScoringScheme } from '../src/types';
+
+/** Longest points table owners can set up; picks further off than this never score */
+export const MAX_SCORED_DIFFERENCE = 19;
+
+/** Largest sprint multiplier owners can pick */
+export const MAX_SPRINT_MULTIPLIER = 3;
+
+/** Points tables of the preset schemes */
+export const SCORING_PRESETS: Record<Exclude<ScoringScheme, 'custom'>, number[]> = {
+    exactOnly: [10],
+    distanceDecay: [10, 9, 8, 7, 6, 5, 4, 3, 2, 1],
+};
+
+export const SCORING_SCHEME_OPTIONS: { scheme: ScoringScheme; label: string; description: string }[] = [
+    { scheme: 'distanceDecay', label: 'Distance decay', description: '10 points for an exact pick, one less for each place off' },
+    { scheme: 'exactOnly', label: 'Exact only', description: 'Points only when the driver finishes exactly where picked' },
+    { scheme: 'custom', label: 'Custom', description: 'Set the points for each number of places off' },
+];
+
+/** Rules of leagues that have never changed their scoring */
+export const DEFAULT_SCORING_RULES: LeagueScoringRules = {
+    scheme: 'distanceDecay',
+    pointsByDifference: SCORING_PRESETS.distanceDecay,
+    sprintMultiplier: 1,
+    allCorrectBonus: 0,
+};
+
+export interface ScoringPreviewRow {
+    userId: number;
+    userName: string;
+    currentPoints: number;
+    previewPoints: number;
+}
+
+/**
+ * Points a single pick scores
+ * @param positionDifference - Places between the pick and the actual finish; null when no pick was made
+ */
+export const getPickPoints = (
+    rules: LeagueScoringRules,
+    positionDifference: number | null,
+    eventType: 'race' | 'sprint' = 'race'
+): number => {
+    if (positionDifference === null) return 0;
+    const points = rules.pointsByDifference[Math.abs(positionDifference)] ?? 0;
+    return eventType === 'sprint' ? Math.round(points * rules.sprintMultiplier) : points;
+};
+
+/**
+ * Recompute a member's result for an event under different rules
+ */
+export const scoreResult = (
+    result: RaceResultV2,
+    rules: LeagueScoringRules,
+    eventType: 'race' | 'sprint' = 'race'
+): RaceResultV2 => {
+    const picks = result.picks.map(pick => ({
+        ...pick,
+        points: getPickPoints(rules, pick.positionDifference, eventType),
+    }));
+    const allCorrect = result.hasMadeAllPicks && picks.length > 0 && picks.every(pick => pick.positionDifference === 0);
+    const bonus = allCorrect
+        ? (eventType === 'sprint' ? Math.round(rules.allCorrectBonus * rules.sprintMultiplier) : rules.allCorrectBonus)
+        : 0;
+
+    return {
+        ...result,
+        picks,
+        totalPoints: picks.reduce((sum, pick) => sum + pick.points, 0) + bonus,
+    };
+};
+
+/**
+ * Members' points for an event as scored now and under proposed rules, highest proposed score first
+ */
+export const previewScoring = (
+    results: RaceResultV2[],
+    rules: LeagueScoringRules,
+    eventType: 'race' | 'sprint' = 'race'
+): ScoringPreviewRow[] =>
+    results
+        .map(result => ({
+            userId: result.userId,
+            userName: result.userName,
+            currentPoints: result.totalPoints,
+            previewPoints: scoreResult(result, rules, eventType).totalPoints,
+        }))
+        .sort((a, b) => b.previewPoints - a.previewPoints || a.userName.localeCompare(b.userName));
+
+/**
+ * @returns A message describing the first problem with the rules, or null if they can be saved
+ */
+export const validateScoringRules = (rules: LeagueScoringRules): string | null => {
+    const table = rules.pointsByDifference;
+    if (table.length === 0) return 'Add points for at least an exact pick.';
+    if (table.length > MAX_SCORED_DIFFERENCE + 1) return `Points can only be given up to ${MAX_SCORED_DIFFERENCE} places off.`;
+    if (table.some(points => !Number.isInteger(points) || points < 0)) return 'Points must be whole numbers of 0 or more.';
+    if (table.some((points, index) => index > 0 && points > table[index - 1])) {
+        return 'A pick can\'t score more than a closer one.';
+    }
+    if (!(rules.sprintMultiplier >= 0 && rules.sprintMultiplier <= MAX_SPRINT_MULTIPLIER)) {
+        return `The sprint multiplier must be between 0 and ${MAX_SPRINT_MULTIPLIER}.`;
+    }
+    if (!Number.isInteger(rules.allCorrectBonus) || rules.allCorrectBonus < 0) {
+        return 'The bonus must be a whole number of 0 or more.';
+    }
+    return null;
+};
+
+/**
+ * One-line description of the rules, e.g. for the league settings
+ */
+export const describeScoringRules = (rules: LeagueScoringRules): string => {
+    const option = SCORING_SCHEME_OPTIONS.find(o => o.scheme === rules.scheme);
+    const parts = [rules.scheme === 'custom' ? `Custom: ${rules.pointsByDifference.join('/')}` : option?.label ?? ''];
+    if (rules.sprintMultiplier !== 1) parts.push(`sprints ×${rules.sprintMultiplier}`);
+    if (rules.allCorrectBonus > 0) parts.push(`+${rules.allCorrectBonus} for a perfect event`);
+    return parts.join(', ');
+};